@@ -1,36 +1,40 @@
 import { Hono } from "hono";
 import { cors } from "hono/cors";
 import { prettyJSON } from "hono/pretty-json";
-import { z } from "zod";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
 import { notFound } from "./src/handlers/notFound";
-import {
-  handleListResources,
-  handleReadResource,
-} from "./src/handlers/resource_handlers";
-import {
-  ListResourcesRequestSchema,
-  ReadResourceRequestSchema,
-} from "./src/mcp/types";
+import { listToolsPage } from "./src/handlers/tool_handlers";
+import type { DispatchContext } from "./src/mcp/dispatcher";
+import { dispatchBatch, dispatchMessage } from "./src/mcp/dispatcher";
+import { lifecycle } from "./src/mcp/lifecycle";
+import { InvalidCursorError } from "./src/mcp/pagination";
+import { getServerInfo } from "./src/mcp/serverInfo";
 import type { AuthContext } from "./src/middleware/auth";
 import { authentication } from "./src/middleware/auth";
 import { metricsHandler, requestMetrics } from "./src/middleware/metrics";
+import { toolRegistry } from "./src/registry";
+import { startStdioServer } from "./src/transports/stdio";
 import {
-  executeTool as executeToolFunction,
-  toolRegistry,
-} from "./src/registry";
-import type { MCPServerInfo } from "./src/types/mcp";
-import { authService } from "./src/utils/auth";
+  PROTOCOL_VERSION_HEADER,
+  SESSION_HEADER,
+  streamableHttp,
+} from "./src/transports/streamableHttp";
+import { websocket, webSocketUpgrade } from "./src/transports/websocket";
 import { config } from "./src/utils/config";
 import { createJsonRpcErrorResponse } from "./src/utils/jsonrpc_helpers";
 import { logger as serverLogger } from "./src/utils/logger";
-import { metrics } from "./src/utils/metrics";
 
+import "./src/prompts/explainResource";
+import "./src/prompts/summarizeText";
+import "./src/resources/files";
+import "./src/resources/tasks";
 import "./src/tools/completeTask";
 import "./src/tools/connectors/fileSystem";
 import "./src/tools/connectors/webBrowser";
 import "./src/tools/createTask";
 import "./src/tools/example/slowTask";
 import "./src/tools/listTasks";
+import "./src/tools/llmQuery/clientSampling";
 import "./src/tools/llmQuery/openaiQuery";
 import "./src/tools/vectorSearch/pineconeSearchTool";
 
@@ -52,9 +56,16 @@ app.use(
   "*",
   cors({
     origin: "*",
-    allowHeaders: ["Content-Type", "Authorization", "X-API-Key", "X-Client-ID"],
-    allowMethods: ["POST", "GET", "OPTIONS"],
-    exposeHeaders: ["Content-Type"],
+    allowHeaders: [
+      "Content-Type",
+      "Authorization",
+      "X-API-Key",
+      "X-Client-ID",
+      SESSION_HEADER,
+      PROTOCOL_VERSION_HEADER,
+    ],
+    allowMethods: ["POST", "GET", "DELETE", "OPTIONS"],
+    exposeHeaders: ["Content-Type", SESSION_HEADER, PROTOCOL_VERSION_HEADER],
     maxAge: 600,
     credentials: true,
   })
@@ -78,25 +89,6 @@ app.use("*", (c, next) => {
   return next();
 });
 
-const getServerInfo = (): MCPServerInfo => ({
-  name: "hyperion-mcp",
-  version: "0.1.0",
-  description:
-    "High-performance Model Context Protocol (MCP) server built with Node.js and Hono",
-  vendor: "hyperion-mcp",
-  contact: "https://github.com/hyperion-mcp",
-  specs: {
-    mcp: "0.1.0",
-  },
-  capabilities: {
-    tools: {
-      listChanged: false,
-    },
-    resources: {},
-  },
-  tools: toolRegistry.getAllTools(),
-});
-
 app.get("/", (c) => {
   serverLogger.debug("Server info requested");
   return c.json(getServerInfo());
@@ -109,9 +101,18 @@ app.get("/health", (c) => {
 
 app.get("/tools", (c) => {
   serverLogger.debug("Tools list requested");
-  return c.json({
-    tools: toolRegistry.getAllTools(),
-  });
+  try {
+    const page = listToolsPage(c.req.query("cursor"));
+    return c.json({
+      tools: page.items,
+      nextCursor: page.nextCursor,
+    });
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return c.json({ error: error.message }, 400);
+    }
+    throw error;
+  }
 });
 
 app.get("/docs", (c) => {
@@ -148,14 +149,14 @@ app.get("/docs", (c) => {
             <p>${tool.description}</p>
             <h4>Parameters Schema</h4>
             <pre>${JSON.stringify(tool.parameters, null, 2)}</pre>
-            <h4>Example JSON-RPC Usage (Non-Streaming)</h4>
+            <h4>Example JSON-RPC Usage (Non-Streaming, after <code>initialize</code>)</h4>
             <pre>curl -X POST http://localhost:3333/invoke \\
   -H "Content-Type: application/json" \\
   -H "Authorization: Bearer YOUR_API_KEY" \\  # If auth enabled
   -d '{
     "jsonrpc": "2.0",
-    "method": "${tool.name}",
-    "params": { },
+    "method": "tools/call",
+    "params": { "name": "${tool.name}", "arguments": { } },
     "id": "req-123"
   }'</pre>
             <h4>Example JSON-RPC Usage (Streaming)</h4>
@@ -180,28 +181,9 @@ app.get("/docs", (c) => {
 app.get("/metrics", metricsHandler);
 
 app.post("/invoke", async (c) => {
-  let requestBody: any;
-  let jsonRpcId: string | number | null | undefined = undefined;
+  let requestBody: unknown;
   try {
     requestBody = await c.req.json();
-    if (
-      typeof requestBody === "object" &&
-      requestBody !== null &&
-      "id" in requestBody
-    ) {
-      jsonRpcId = requestBody.id;
-    }
-
-    if (jsonRpcId === null) {
-      return c.json(
-        createJsonRpcErrorResponse(
-          null,
-          -32600,
-          "Invalid Request: MCP requires non-null 'id' for requests."
-        ),
-        400
-      );
-    }
   } catch (e) {
     return c.json(
       createJsonRpcErrorResponse(
@@ -213,285 +195,79 @@ app.post("/invoke", async (c) => {
     );
   }
 
-  const JsonRpcIdSchema = z.union([z.string(), z.number(), z.null()]);
-  const JsonRpcRequestSchema = z.object({
-    jsonrpc: z.literal("2.0"),
-    method: z.string().min(1, "Method (tool name) is required"),
-    params: z.record(z.any()).optional().default({}),
-    id: JsonRpcIdSchema.optional(),
-  });
+  const auth = c.get("auth") as AuthContext["auth"] | undefined;
+  const context: DispatchContext = {
+    // `/invoke` is exempt from the lifecycle: it has no session, so each
+    // request is a connection of its own. An `initialize` sent here is
+    // answered but not remembered, tool calls are never refused for want of
+    // one, and a call is cancelled by closing its HTTP connection rather than
+    // by `notifications/cancelled`.
+    connectionKey: `invoke:${crypto.randomUUID()}`,
+    auth,
+    internalRequestId: c.get("requestId"),
+    signal: c.req.raw.signal,
+  };
 
-  const parsedRequest = JsonRpcRequestSchema.safeParse(requestBody);
-
-  if (!parsedRequest.success) {
-    return c.json(
-      createJsonRpcErrorResponse(
-        jsonRpcId === undefined ? null : jsonRpcId,
-        -32600,
-        `Invalid JSON-RPC Request: ${parsedRequest.error.errors
-          .map((e) => `${e.path.join(".")} - ${e.message}`)
-          .join(", ")}`,
-        parsedRequest.error.format()
-      ),
-      400
-    );
-  }
-
-  const { method, params, id: requestId } = parsedRequest.data;
-  const serverRequestId = c.get("requestId");
-
-  const logger = serverLogger.child({
-    method,
-    internalRequestId: serverRequestId,
-    jsonRpcId: requestId,
-  });
-
-  if (method === "resources/list") {
-    logger.info("Handling resources/list request");
-    try {
-      ListResourcesRequestSchema.parse(params);
-      const response = await handleListResources(params || {}, requestId!);
-      return c.json(response);
-    } catch (error: any) {
-      logger.error("Error handling resources/list", error);
-      return c.json(
-        createJsonRpcErrorResponse(
-          requestId!,
-          -32603,
-          `Internal server error handling resources/list: ${error.message}`
-        ),
-        500
-      );
-    }
-  }
-  if (method === "resources/read") {
-    logger.info("Handling resources/read request");
-    try {
-      const validatedParams = ReadResourceRequestSchema.parse(params);
-      const response = await handleReadResource(validatedParams, requestId!);
-      return c.json(response);
-    } catch (error: any) {
-      logger.error("Error handling resources/read", error);
-      const errorCode = error instanceof z.ZodError ? -32602 : -32603;
-      const errorMessage =
-        error instanceof z.ZodError
-          ? `Invalid parameters for resources/read: ${error.errors
-              .map((e) => `${e.path.join(".")} - ${e.message}`)
-              .join(", ")}`
-          : `Internal server error handling resources/read: ${error.message}`;
-      return c.json(
-        createJsonRpcErrorResponse(
-          requestId!,
-          errorCode,
-          errorMessage,
-          error instanceof z.ZodError ? error.format() : undefined
-        ),
-        errorCode === -32602 ? 400 : 500
-      );
+  try {
+    if (Array.isArray(requestBody)) {
+      const responses = await dispatchBatch(requestBody, context);
+      if (responses.length === 0) {
+        return c.body(null, 202);
+      }
+      return c.json(responses);
     }
-  }
-
-  const toolName = method;
-  const toolLogger = logger;
-  const parameters = params;
-
-  if (!toolRegistry.isToolRegistered(toolName)) {
-    toolLogger.warn("Unknown method/tool requested");
-    return c.json(
-      createJsonRpcErrorResponse(
-        requestId!,
-        -32601,
-        `Method not found: Method or Tool '${toolName}' is not available.`,
-        {
-          availableMethods: [
-            "resources/list",
-            "resources/read",
-            ...toolRegistry.getAllTools().map((t) => t.name),
-          ],
-        }
-      ),
-      404
-    );
-  }
 
-  if (config.auth.enableAuth) {
-    const auth = c.get("auth") as AuthContext["auth"];
-    if (!auth) {
-      toolLogger.error(
-        "Auth context missing despite auth being enabled. Check middleware order."
-      );
-      return c.json(
-        createJsonRpcErrorResponse(
-          requestId!,
-          -32603,
-          "Internal Server Error: Auth context missing."
-        ),
-        500
-      );
-    }
-    const tool = toolRegistry.getToolDefinition(toolName);
-    if (!tool) {
-      toolLogger.error(
-        `Tool definition not found for '${toolName}' despite being registered.`
-      );
-      return c.json(
-        createJsonRpcErrorResponse(
-          requestId!,
-          -32603,
-          "Internal Server Error: Tool definition missing."
-        ),
-        500
-      );
+    const result = await dispatchMessage(requestBody, context);
+    switch (result.kind) {
+      case "accepted":
+        return c.body(null, 202);
+      case "stream":
+        return new Response(result.stream, {
+          headers: {
+            "Content-Type": "application/jsonl",
+            "Transfer-Encoding": "chunked",
+            "X-Content-Type-Options": "nosniff",
+          },
+        });
+      case "response":
+        return c.json(result.response, result.status as ContentfulStatusCode);
     }
-    const requiredPermission = tool.metadata?.permissionLevel || "public";
-    const clientInfo = auth.isAuthenticated
-      ? {
-          id: auth.clientId!,
-          name: auth.clientName!,
-          permissions: auth.permissions as any,
-        }
-      : null;
-    const hasPermission = authService.hasPermission(
-      clientInfo,
-      requiredPermission
-    );
-    if (!hasPermission) {
-      toolLogger.warn("Unauthorized tool access attempt (JSON-RPC)", {
-        toolName,
-        clientId: auth.clientId,
-        requiredPermission,
-      });
-      return c.json(
-        createJsonRpcErrorResponse(
-          requestId!,
-          -32000,
-          `Access Denied: Insufficient permissions to use tool '${toolName}'. Required: ${requiredPermission}.`
-        ),
-        403
-      );
-    }
-    toolLogger.debug("Authorization successful for tool", {
-      toolName,
-      clientId: auth.clientId,
-    });
+  } finally {
+    // An `initialize` sent here must not outlive the request
+    lifecycle.reset(context.connectionKey);
   }
+});
 
-  const wantsStreaming = parameters?.stream === true;
-  const toolParameters = { ...parameters };
-  if (wantsStreaming) delete toolParameters.stream;
+app.post("/mcp", (c) => streamableHttp.handlePost(c));
+app.get("/mcp", (c) => streamableHttp.handleGet(c));
+app.delete("/mcp", (c) => streamableHttp.handleDelete(c));
 
-  toolLogger.info(
-    `JSON-RPC tool execution ${
-      wantsStreaming ? "started (streaming)" : "started"
-    }`,
-    { parameters: toolParameters }
-  );
-
-  if (wantsStreaming) {
-    toolLogger.debug("Initiating streaming response for JSON-RPC request", {
-      toolName,
-      requestId,
-    });
-    try {
-      const stream = new TransformStream();
-      const writer = stream.writable.getWriter();
-      const encoder = new TextEncoder();
-      executeToolFunction(
-        toolName,
-        toolParameters,
-        writer,
-        encoder,
-        requestId
-      ).catch((err) => {
-        toolLogger.error(
-          `Error during executeTool setup for streaming: ${
-            err instanceof Error ? err.message : String(err)
-          }`,
-          err instanceof Error ? err : undefined
-        );
-        try {
-          const errorPayload =
-            JSON.stringify({
-              jsonrpc: "2.0",
-              error: {
-                code: -32603,
-                message: "Server error during streaming setup.",
-              },
-              id: requestId === undefined ? null : requestId,
-            }) + "\n";
-          writer.write(encoder.encode(errorPayload));
-          writer.close();
-        } catch (writeError) {
-          toolLogger.error(
-            "Failed to close writer after setup error",
-            writeError instanceof Error ? writeError : undefined
-          );
-        }
-      });
-      return new Response(stream.readable, {
-        headers: {
-          "Content-Type": "application/jsonl",
-          "Transfer-Encoding": "chunked",
-          "X-Content-Type-Options": "nosniff",
-        },
-      });
-    } catch (error: any) {
-      toolLogger.error(`Error setting up streaming response`, error);
-      return c.json(
-        createJsonRpcErrorResponse(
-          requestId!,
-          -32603,
-          "Internal server error setting up stream.",
-          undefined
-        ),
-        500
-      );
-    }
-  } else {
-    const endToolMetricTracker = metrics.trackTool(toolName);
-    try {
-      const result = await executeToolFunction(toolName, toolParameters || {});
-      toolLogger.info(
-        "JSON-RPC tool execution completed successfully (non-streaming)"
-      );
-      return c.json({
-        jsonrpc: "2.0",
-        result: result,
-        id: requestId,
-      });
-    } catch (error: any) {
-      toolLogger.error(`JSON-RPC tool execution failed (non-streaming)`, error);
-      let jsonRpcErrorCode = -32603;
-      let jsonRpcErrorMessage = "Internal server error during tool execution.";
-      if (error.message?.includes("Access denied")) {
-        jsonRpcErrorCode = -32000;
-        jsonRpcErrorMessage =
-          "Access Denied: Insufficient permissions to use tool.";
-      } else if (error instanceof z.ZodError) {
-        jsonRpcErrorCode = -32602;
-        jsonRpcErrorMessage = "Invalid tool parameters.";
-      } else {
-        jsonRpcErrorMessage = error.message || jsonRpcErrorMessage;
-      }
-      return c.json(
-        createJsonRpcErrorResponse(
-          requestId!,
-          jsonRpcErrorCode,
-          jsonRpcErrorMessage,
-          config.server.environment === "development" ? error.stack : undefined
-        ),
-        jsonRpcErrorCode === -32602 ? 400 : 500
-      );
-    } finally {
-      endToolMetricTracker();
-    }
-  }
-});
+app.get("/ws", webSocketUpgrade);
 
 app.notFound(notFound);
 
 if (import.meta.main) {
-  //TODO: tool loading and Bun.serve call ...
+  const transport = process.argv.includes("--stdio")
+    ? "stdio"
+    : config.server.transport;
+
+  if (transport === "stdio") {
+    // Awaiting keeps module evaluation pending so Bun never auto-serves the
+    // default export over HTTP; stdout belongs to the protocol in this mode.
+    await startStdioServer();
+    process.exit(0);
+  }
+
+  serverLogger.info("Starting HTTP transport", {
+    environment: config.server.environment,
+    tools: toolRegistry.getAllTools().length,
+  });
 }
 
-export default app;
+export { app };
+
+// Bun serves the default export; `websocket` handles connections upgraded on /ws
+export default {
+  fetch: app.fetch,
+  websocket,
+};
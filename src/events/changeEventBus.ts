@@ -0,0 +1,40 @@
+import type {
+  ChangeEvent,
+  ChangeEventBus,
+  ChangeEventListener,
+} from "../types/events";
+import { logger } from "../utils/logger";
+
+const busLogger = logger.child({ component: "change-event-bus" });
+
+/**
+ * In-memory implementation of the ChangeEventBus interface
+ * Delivers events to listeners in the current process only.
+ */
+export class InMemoryChangeEventBus implements ChangeEventBus {
+  private listeners: Set<ChangeEventListener> = new Set();
+
+  /**
+   * Deliver an event to every listener.
+   * Listener failures are logged and never propagated to the publisher.
+   */
+  async publish(event: ChangeEvent): Promise<void> {
+    await Promise.all(
+      [...this.listeners].map(async (listener) => {
+        try {
+          await listener(event);
+        } catch (error) {
+          busLogger.error(
+            `Change event listener failed for '${event.type}'`,
+            error instanceof Error ? error : undefined
+          );
+        }
+      })
+    );
+  }
+
+  subscribe(listener: ChangeEventListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+}
@@ -0,0 +1,68 @@
+import type {
+  ChangeEvent,
+  ChangeEventBus,
+  ChangeEventListener,
+} from "../types/events";
+import { logger } from "../utils/logger";
+import { InMemoryChangeEventBus } from "./changeEventBus";
+
+const eventsLogger = logger.child({ component: "change-events" });
+
+export { InMemoryChangeEventBus } from "./changeEventBus";
+
+/**
+ * Routes change events through a pluggable ChangeEventBus.
+ * Local listeners subscribe here once and follow the bus when it is replaced.
+ */
+export class ChangeEvents {
+  private bus: ChangeEventBus;
+  private listeners: Set<ChangeEventListener> = new Set();
+  private unsubscribeFromBus: () => void;
+
+  constructor(bus: ChangeEventBus = new InMemoryChangeEventBus()) {
+    this.bus = bus;
+    this.unsubscribeFromBus = bus.subscribe((event) => this.deliver(event));
+  }
+
+  /**
+   * Replace the bus (e.g. with a shared one for multi-instance deployments)
+   */
+  setBus(bus: ChangeEventBus): void {
+    this.unsubscribeFromBus();
+    this.bus = bus;
+    this.unsubscribeFromBus = bus.subscribe((event) => this.deliver(event));
+  }
+
+  publish(event: ChangeEvent): Promise<void> {
+    return this.bus.publish(event);
+  }
+
+  /**
+   * Listen for change events from the bus
+   * @returns A function that removes the listener again
+   */
+  subscribe(listener: ChangeEventListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private async deliver(event: ChangeEvent): Promise<void> {
+    await Promise.all([...this.listeners].map((listener) => listener(event)));
+  }
+}
+
+// Creates a global shared change event router backed by the in-memory bus
+export const changeEvents = new ChangeEvents();
+
+/**
+ * Publish a change event, e.g. after a tool modified data behind a resource.
+ * Never rejects, so callers may fire and forget; bus failures are logged.
+ */
+export function publishChangeEvent(event: ChangeEvent): Promise<void> {
+  return changeEvents.publish(event).catch((error) => {
+    eventsLogger.error(
+      `Failed to publish change event '${event.type}'`,
+      error instanceof Error ? error : undefined
+    );
+  });
+}
@@ -0,0 +1,174 @@
+import type {
+  CompleteRequestParams,
+  CompleteResponse,
+  CompleteResponseResult,
+} from "../mcp/types";
+import { UriTemplate } from "../mcp/uriTemplate";
+import type { AuthContext } from "../middleware/auth";
+import { canAccess } from "../middleware/auth";
+import {
+  promptRegistry,
+  resourceProviderRegistry,
+  toolRegistry,
+} from "../registry";
+import type { JsonRpcErrorResponse, JsonRpcId } from "../types/json-rpc";
+import type { CompletionHandler } from "../types/mcp";
+import type { PermissionLevel } from "../utils/auth";
+import {
+  createJsonRpcErrorResponse,
+  createJsonRpcResponse,
+} from "../utils/jsonrpc_helpers";
+import { logger } from "../utils/logger";
+
+const completionLogger = logger.child({ component: "completion-handlers" });
+
+// The spec caps a completion response at 100 values
+export const MAX_COMPLETION_VALUES = 100;
+
+/**
+ * What a completion reference resolves to: the arguments it accepts and
+ * where suggestions for them come from
+ */
+interface CompletionTarget {
+  label: string;
+  permissionLevel: PermissionLevel;
+  // Undefined when the target does not declare its arguments
+  argumentNames?: string[];
+  enumValues(argument: string): string[] | undefined;
+  completer(argument: string): CompletionHandler | undefined;
+}
+
+function findTarget(
+  ref: CompleteRequestParams["ref"]
+): CompletionTarget | undefined {
+  switch (ref.type) {
+    case "ref/tool": {
+      const tool = toolRegistry.getToolDefinition(ref.name);
+      if (!tool) return undefined;
+      // Schemas registered without `properties` get no suggestions
+      const properties = tool.parameters.properties ?? {};
+      return {
+        label: `tool '${ref.name}'`,
+        permissionLevel: tool.metadata?.permissionLevel || "public",
+        argumentNames: tool.parameters.properties
+          ? Object.keys(properties)
+          : undefined,
+        enumValues: (argument) => {
+          const schema = properties[argument];
+          const values = schema?.enum ?? schema?.items?.enum;
+          return Array.isArray(values) ? values.map(String) : undefined;
+        },
+        completer: (argument) =>
+          toolRegistry.getToolCompleter(ref.name, argument),
+      };
+    }
+    case "ref/prompt": {
+      const prompt = promptRegistry.getPromptDefinition(ref.name);
+      if (!prompt) return undefined;
+      return {
+        label: `prompt '${ref.name}'`,
+        permissionLevel: prompt.metadata?.permissionLevel || "public",
+        argumentNames: (prompt.arguments ?? []).map((arg) => arg.name),
+        enumValues: () => undefined,
+        completer: (argument) =>
+          promptRegistry.getPromptCompleter(ref.name, argument),
+      };
+    }
+    case "ref/resource": {
+      const provider = resourceProviderRegistry
+        .getAllProviders()
+        .find((p) => p.templates?.some((t) => t.uriTemplate === ref.uri));
+      if (!provider) return undefined;
+      return {
+        label: `resource template '${ref.uri}'`,
+        permissionLevel: provider.permissionLevel || "public",
+        argumentNames: new UriTemplate(ref.uri).variableNames,
+        enumValues: () => undefined,
+        completer: (argument) => provider.completions?.[argument],
+      };
+    }
+  }
+}
+
+function toCompletion(values: string[]): CompleteResponseResult["completion"] {
+  const unique = [...new Set(values)];
+  return {
+    values: unique.slice(0, MAX_COMPLETION_VALUES),
+    total: unique.length,
+    hasMore: unique.length > MAX_COMPLETION_VALUES,
+  };
+}
+
+/**
+ * Handles the 'completion/complete' MCP method.
+ * Suggests values for an argument of a prompt, a resource template or (as an
+ * extension) a tool. Enum parameters of tools complete from their schema;
+ * anything else needs a completer registered with the prompt, tool or
+ * resource provider, and gets no suggestions without one.
+ */
+export async function handleComplete(
+  params: CompleteRequestParams,
+  requestId: JsonRpcId,
+  auth?: AuthContext["auth"]
+): Promise<CompleteResponse | JsonRpcErrorResponse> {
+  const { ref, argument, context } = params;
+  const target = findTarget(ref);
+  if (!target) {
+    const name = ref.type === "ref/resource" ? ref.uri : ref.name;
+    return createJsonRpcErrorResponse(
+      requestId,
+      -32602,
+      `Unknown reference for completion: ${ref.type} '${name}'`
+    );
+  }
+
+  if (!canAccess(auth, target.permissionLevel)) {
+    completionLogger.warn("Unauthorized completion attempt", {
+      target: target.label,
+      clientId: auth?.clientId,
+    });
+    return createJsonRpcErrorResponse(
+      requestId,
+      -32000,
+      `Access Denied: Insufficient permissions for ${target.label}. Required: ${target.permissionLevel}.`
+    );
+  }
+
+  if (target.argumentNames && !target.argumentNames.includes(argument.name)) {
+    return createJsonRpcErrorResponse(
+      requestId,
+      -32602,
+      `Unknown argument '${argument.name}' for ${target.label}`
+    );
+  }
+
+  const completer = target.completer(argument.name);
+  if (completer) {
+    try {
+      const values = await completer(argument.value, {
+        arguments: context.arguments,
+      });
+      return createJsonRpcResponse(requestId, {
+        completion: toCompletion(values),
+      });
+    } catch (error: any) {
+      completionLogger.error(
+        `Completer for '${argument.name}' of ${target.label} failed`,
+        error
+      );
+      return createJsonRpcErrorResponse(
+        requestId,
+        -32603,
+        `Completion failed: ${error?.message}`
+      );
+    }
+  }
+
+  const prefix = argument.value.toLowerCase();
+  const values = (target.enumValues(argument.name) ?? []).filter((value) =>
+    value.toLowerCase().startsWith(prefix)
+  );
+  return createJsonRpcResponse(requestId, {
+    completion: toCompletion(values),
+  });
+}
@@ -0,0 +1,100 @@
+import {
+  lifecycle,
+  negotiateProtocolVersion,
+  SUPPORTED_PROTOCOL_VERSIONS,
+} from "../mcp/lifecycle";
+import { registerNotificationHandler } from "../mcp/notifications";
+import { getServerInfo } from "../mcp/serverInfo";
+import { sessions } from "../session";
+import type {
+  InitializeRequestParams,
+  InitializeResponse,
+  PingResponse,
+} from "../mcp/types";
+import type { JsonRpcErrorResponse, JsonRpcId } from "../types/json-rpc";
+import {
+  createJsonRpcErrorResponse,
+  createJsonRpcResponse,
+} from "../utils/jsonrpc_helpers";
+import { logger } from "../utils/logger";
+
+const lifecycleLogger = logger.child({ component: "lifecycle-handlers" });
+
+/**
+ * Handles the 'initialize' MCP method.
+ * Negotiates the protocol version and returns server info and capabilities.
+ * Unsupported versions are rejected with -32602, listing the supported ones.
+ */
+export function handleInitialize(
+  params: InitializeRequestParams,
+  requestId: JsonRpcId,
+  connectionKey: string
+): Promise<InitializeResponse | JsonRpcErrorResponse> {
+  const protocolVersion = negotiateProtocolVersion(params.protocolVersion);
+  if (!protocolVersion) {
+    lifecycleLogger.info("Client requested unsupported protocol version", {
+      requested: params.protocolVersion,
+    });
+    return Promise.resolve(
+      createJsonRpcErrorResponse(
+        requestId,
+        -32602,
+        `Unsupported protocol version: ${
+          params.protocolVersion
+        }. Supported versions: ${SUPPORTED_PROTOCOL_VERSIONS.join(", ")}.`,
+        {
+          supported: SUPPORTED_PROTOCOL_VERSIONS,
+          requested: params.protocolVersion,
+        }
+      )
+    );
+  }
+
+  lifecycle.initialize(connectionKey, {
+    protocolVersion,
+    clientInfo: params.clientInfo,
+    clientCapabilities: params.capabilities,
+  });
+
+  const serverInfo = getServerInfo();
+  return Promise.resolve(
+    createJsonRpcResponse(requestId, {
+      protocolVersion,
+      capabilities: serverInfo.capabilities ?? {},
+      serverInfo: {
+        name: serverInfo.name,
+        version: serverInfo.version,
+      },
+      instructions: serverInfo.description,
+    })
+  );
+}
+
+/**
+ * Handles the 'notifications/initialized' MCP notification.
+ * Marks the connection as ready for normal operation.
+ */
+export function handleInitialized(connectionKey: string): void {
+  if (lifecycle.markReady(connectionKey)) {
+    lifecycleLogger.debug("Client signalled initialized", { connectionKey });
+  }
+}
+
+/**
+ * Handles the 'ping' MCP method.
+ * Allowed before initialization; always responds with an empty result.
+ */
+export function handlePing(
+  requestId: JsonRpcId
+): Promise<PingResponse | JsonRpcErrorResponse> {
+  return Promise.resolve(createJsonRpcResponse(requestId, {}));
+}
+
+registerNotificationHandler("notifications/initialized", (_params, context) =>
+  handleInitialized(context.connectionKey)
+);
+
+// Forget what a session negotiated once it ends
+sessions.onEnd((session) => {
+  lifecycle.reset(session.connectionKey);
+});
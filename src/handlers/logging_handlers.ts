@@ -0,0 +1,21 @@
+import { logForwarder } from "../mcp/logging";
+import type {
+  SetLogLevelRequestParams,
+  SetLogLevelResponse,
+} from "../mcp/types";
+import type { JsonRpcErrorResponse, JsonRpcId } from "../types/json-rpc";
+import { createJsonRpcResponse } from "../utils/jsonrpc_helpers";
+
+/**
+ * Handles the 'logging/setLevel' MCP method.
+ * Tool log output at or above the level is then sent to the session as
+ * `notifications/message`.
+ */
+export async function handleSetLogLevel(
+  params: SetLogLevelRequestParams,
+  requestId: JsonRpcId,
+  sessionId: string
+): Promise<SetLogLevelResponse | JsonRpcErrorResponse> {
+  await logForwarder.setLevel(sessionId, params.level);
+  return createJsonRpcResponse(requestId, {});
+}
@@ -0,0 +1,148 @@
+import { InvalidCursorError, paginate } from "../mcp/pagination";
+import type {
+  GetPromptRequestParams,
+  GetPromptResponse,
+  ListPromptsRequestParams,
+  ListPromptsResponse,
+  McpPrompt,
+} from "../mcp/types";
+import type { AuthContext } from "../middleware/auth";
+import { canAccess } from "../middleware/auth";
+import { promptRegistry } from "../registry";
+import type { JsonRpcErrorResponse, JsonRpcId } from "../types/json-rpc";
+import type { MCPPrompt } from "../types/mcp";
+import {
+  createJsonRpcErrorResponse,
+  createJsonRpcResponse,
+} from "../utils/jsonrpc_helpers";
+import { logger } from "../utils/logger";
+
+const promptLogger = logger.child({ component: "prompt-handlers" });
+
+/**
+ * Thrown by prompt handlers when an argument is well-formed but refers to
+ * something that does not exist (e.g. an unknown resource URI)
+ */
+export class InvalidPromptArgumentError extends Error {
+  public readonly code = -32602;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidPromptArgumentError";
+    Object.setPrototypeOf(this, InvalidPromptArgumentError.prototype);
+  }
+}
+
+/**
+ * Converts a registry prompt definition into the MCP `Prompt` shape
+ */
+export function toMcpPrompt(prompt: MCPPrompt): McpPrompt {
+  return {
+    name: prompt.name,
+    description: prompt.description,
+    arguments: prompt.arguments ?? [],
+  };
+}
+
+/**
+ * Handles the 'prompts/list' MCP method.
+ * Returns the enabled prompts the caller is allowed to use, paged by name.
+ */
+export function handleListPrompts(
+  params: ListPromptsRequestParams,
+  requestId: JsonRpcId,
+  auth?: AuthContext["auth"]
+): Promise<ListPromptsResponse | JsonRpcErrorResponse> {
+  const prompts = promptRegistry
+    .getAllPrompts()
+    .filter((prompt) =>
+      canAccess(auth, prompt.metadata?.permissionLevel || "public")
+    )
+    .map(toMcpPrompt);
+  try {
+    const page = paginate(
+      prompts,
+      (prompt) => prompt.name,
+      "prompts",
+      params.cursor
+    );
+    return Promise.resolve(
+      createJsonRpcResponse(requestId, {
+        prompts: page.items,
+        nextCursor: page.nextCursor,
+      })
+    );
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return Promise.resolve(
+        createJsonRpcErrorResponse(requestId, error.code, error.message)
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Handles the 'prompts/get' MCP method.
+ * Validates the arguments and renders the prompt into messages.
+ */
+export async function handleGetPrompt(
+  params: GetPromptRequestParams,
+  requestId: JsonRpcId,
+  auth?: AuthContext["auth"]
+): Promise<GetPromptResponse | JsonRpcErrorResponse> {
+  const { name, arguments: args } = params;
+  const prompt = promptRegistry.getPromptDefinition(name);
+  const handler = promptRegistry.getPromptHandler(name);
+  if (!prompt || !handler) {
+    return createJsonRpcErrorResponse(
+      requestId,
+      -32602,
+      `Unknown prompt: '${name}' is not available.`
+    );
+  }
+
+  const requiredPermission = prompt.metadata?.permissionLevel || "public";
+  if (!canAccess(auth, requiredPermission)) {
+    promptLogger.warn("Unauthorized prompt access attempt", {
+      promptName: name,
+      clientId: auth?.clientId,
+      requiredPermission,
+    });
+    return createJsonRpcErrorResponse(
+      requestId,
+      -32000,
+      `Access Denied: Insufficient permissions to use prompt '${name}'. Required: ${requiredPermission}.`
+    );
+  }
+
+  const missing = (prompt.arguments ?? [])
+    .filter((arg) => arg.required && args[arg.name] === undefined)
+    .map((arg) => arg.name);
+  if (missing.length > 0) {
+    return createJsonRpcErrorResponse(
+      requestId,
+      -32602,
+      `Missing required arguments for prompt '${name}': ${missing.join(", ")}`,
+      { missing }
+    );
+  }
+
+  try {
+    const result = await handler(args);
+    return createJsonRpcResponse(requestId, {
+      description: result.description ?? prompt.description,
+      messages: result.messages,
+    });
+  } catch (error: any) {
+    if (error instanceof InvalidPromptArgumentError) {
+      return createJsonRpcErrorResponse(requestId, error.code, error.message);
+    }
+    promptLogger.error(`Failed to render prompt '${name}'`, error);
+    return createJsonRpcErrorResponse(
+      requestId,
+      -32603,
+      `Failed to render prompt '${name}': ${error?.message}`
+    );
+  }
+}
@@ -1,113 +1,241 @@
+import { publishChangeEvent } from "../events";
+import { InvalidCursorError, paginate } from "../mcp/pagination";
+import { resourceSubscriptions } from "../mcp/resourceSubscriptions";
 import type {
   ListResourcesRequestParams,
   ListResourcesResponse,
+  ListResourceTemplatesRequestParams,
+  ListResourceTemplatesResponse,
   McpResource,
   McpResourceContent,
   ReadResourceRequestParams,
   ReadResourceResponse,
+  SubscribeResourceRequestParams,
+  SubscribeResourceResponse,
+  UnsubscribeResourceRequestParams,
 } from "../mcp/types";
+import type { AuthContext } from "../middleware/auth";
+import { canAccess } from "../middleware/auth";
+import { resourceProviderRegistry } from "../registry";
 import type { JsonRpcErrorResponse, JsonRpcId } from "../types/json-rpc";
+import type { ResourceProvider } from "../types/mcp";
 import {
   createJsonRpcErrorResponse,
   createJsonRpcResponse,
 } from "../utils/jsonrpc_helpers";
+import { logger } from "../utils/logger";
 
-//TODO: Replace with actual resources
-const mockResources: McpResource[] = [
-  {
-    uri: "file:///home/user/docs/example.txt",
-    name: "Example Document",
-    description: "A sample text document.",
-    mimeType: "text/plain",
-  },
-  {
-    uri: "config:///app/settings.json",
-    name: "Application Settings",
-    description: "Core configuration file for the application.",
-    mimeType: "application/json",
-  },
-  {
-    uri: "image:///logo.png",
-    name: "Company Logo",
-    mimeType: "image/png",
-  },
-];
+const resourceLogger = logger.child({ component: "resource-handlers" });
 
-const mockResourceContents: Record<string, McpResourceContent[]> = {
-  "file:///home/user/docs/example.txt": [
-    {
-      uri: "file:///home/user/docs/example.txt",
-      mimeType: "text/plain",
-      text: "This is the content of the example text document.\nIt has multiple lines.",
-    },
-  ],
-  "config:///app/settings.json": [
-    {
-      uri: "config:///app/settings.json",
-      mimeType: "application/json",
-      text: JSON.stringify(
-        { theme: "dark", fontSize: 14, autoSave: true },
-        null,
-        2
-      ),
-    },
-  ],
-  "image:///logo.png": [
-    {
-      uri: "image:///logo.png",
-      mimeType: "image/png",
-      //TODO: Placeholder base64 string for a small PNG
-      blob: "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=",
-    },
-  ],
-};
+function canAccessProvider(
+  provider: ResourceProvider,
+  auth?: AuthContext["auth"]
+): boolean {
+  return canAccess(auth, provider.permissionLevel || "public");
+}
+
+/**
+ * Look up the contents of a resource by URI through the provider whose
+ * template matches it. Resources the caller may not access are treated as
+ * not found.
+ * @returns The contents, or undefined if no such resource exists
+ */
+export async function getResourceContents(
+  uri: string,
+  auth?: AuthContext["auth"]
+): Promise<McpResourceContent[] | undefined> {
+  const match = resourceProviderRegistry.resolve(uri);
+  if (!match || !canAccessProvider(match.provider, auth)) {
+    return undefined;
+  }
+  return match.provider.read(uri, match.variables);
+}
 
 /**
  * Handles the 'resources/list' MCP method.
- * Returns a static list of available resources.
+ * Merges the resources of every provider the caller is allowed to use.
+ * A failing provider is logged and left out rather than failing the list.
+ * Results are paged by URI.
  */
-export function handleListResources(
-  params: ListResourcesRequestParams, // Currently unused
-  requestId: JsonRpcId
+export async function handleListResources(
+  params: ListResourcesRequestParams,
+  requestId: JsonRpcId,
+  auth?: AuthContext["auth"]
 ): Promise<ListResourcesResponse | JsonRpcErrorResponse> {
-  console.log(`Handling resources/list request (ID: ${requestId})`);
-  //TODO: Filter resources based on permissions or context
-  return Promise.resolve(
-    createJsonRpcResponse(requestId, {
-      resources: mockResources,
+  const providers = resourceProviderRegistry
+    .getAllProviders()
+    .filter((provider) => canAccessProvider(provider, auth));
+
+  const lists = await Promise.all(
+    providers.map(async (provider): Promise<McpResource[]> => {
+      try {
+        return await provider.list();
+      } catch (error: any) {
+        resourceLogger.error(
+          `Failed to list resources of provider '${provider.scheme}'`,
+          error
+        );
+        return [];
+      }
     })
   );
+
+  try {
+    const page = paginate(
+      lists.flat(),
+      (resource) => resource.uri,
+      "resources",
+      params.cursor
+    );
+    return createJsonRpcResponse(requestId, {
+      resources: page.items,
+      nextCursor: page.nextCursor,
+    });
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return createJsonRpcErrorResponse(requestId, error.code, error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Handles the 'resources/templates/list' MCP method.
+ * Returns the URI templates of the providers the caller is allowed to use,
+ * paged by template.
+ */
+export function handleListResourceTemplates(
+  params: ListResourceTemplatesRequestParams,
+  requestId: JsonRpcId,
+  auth?: AuthContext["auth"]
+): Promise<ListResourceTemplatesResponse | JsonRpcErrorResponse> {
+  const resourceTemplates = resourceProviderRegistry
+    .getAllProviders()
+    .filter((provider) => canAccessProvider(provider, auth))
+    .flatMap((provider) => provider.templates ?? []);
+  try {
+    const page = paginate(
+      resourceTemplates,
+      (template) => template.uriTemplate,
+      "resourceTemplates",
+      params.cursor
+    );
+    return Promise.resolve(
+      createJsonRpcResponse(requestId, {
+        resourceTemplates: page.items,
+        nextCursor: page.nextCursor,
+      })
+    );
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return Promise.resolve(
+        createJsonRpcErrorResponse(requestId, error.code, error.message)
+      );
+    }
+    throw error;
+  }
 }
 
 /**
  * Handles the 'resources/read' MCP method.
- * Returns the content for a requested resource URI.
+ * Returns the content for a requested resource URI from the provider whose
+ * template matches it; URIs that match no template are not found.
  */
-export function handleReadResource(
+export async function handleReadResource(
   params: ReadResourceRequestParams,
-  requestId: JsonRpcId
+  requestId: JsonRpcId,
+  auth?: AuthContext["auth"]
 ): Promise<ReadResourceResponse | JsonRpcErrorResponse> {
   const { uri } = params;
-  console.log(
-    `Handling resources/read request for URI: ${uri} (ID: ${requestId})`
-  );
+  resourceLogger.debug("Reading resource", { uri, requestId });
 
-  const content = mockResourceContents[uri];
+  const match = resourceProviderRegistry.resolve(uri);
+  const provider = match?.provider;
+  if (provider && !canAccessProvider(provider, auth)) {
+    const requiredPermission = provider.permissionLevel || "public";
+    resourceLogger.warn("Unauthorized resource access attempt", {
+      uri,
+      clientId: auth?.clientId,
+      requiredPermission,
+    });
+    return createJsonRpcErrorResponse(
+      requestId,
+      -32000,
+      `Access Denied: Insufficient permissions to read '${uri}'. Required: ${requiredPermission}.`
+    );
+  }
 
-  if (content) {
-    return Promise.resolve(
-      createJsonRpcResponse(requestId, {
-        contents: content,
-      })
+  let content: McpResourceContent[] | undefined;
+  try {
+    content = match
+      ? await match.provider.read(uri, match.variables)
+      : undefined;
+  } catch (error: any) {
+    resourceLogger.error(`Failed to read resource '${uri}'`, error);
+    return createJsonRpcErrorResponse(
+      requestId,
+      -32603,
+      `Failed to read resource '${uri}': ${error?.message}`
     );
+  }
+
+  if (content) {
+    return createJsonRpcResponse(requestId, {
+      contents: content,
+    });
   } else {
-    console.warn(`Resource not found for URI: ${uri} (ID: ${requestId})`);
-    return Promise.resolve(
-      createJsonRpcErrorResponse(
-        requestId,
-        -32602,
-        `Resource not found: ${uri}`
-      )
+    resourceLogger.warn("Resource not found", { uri, requestId });
+    return createJsonRpcErrorResponse(
+      requestId,
+      -32602,
+      `Resource not found: ${uri}`
     );
   }
 }
+
+/**
+ * Handles the 'resources/subscribe' MCP method.
+ * The resource must be readable by the caller; updates are then pushed to the
+ * session as `notifications/resources/updated`.
+ */
+export async function handleSubscribeResource(
+  params: SubscribeResourceRequestParams,
+  requestId: JsonRpcId,
+  sessionId: string,
+  auth?: AuthContext["auth"]
+): Promise<SubscribeResourceResponse | JsonRpcErrorResponse> {
+  const { uri } = params;
+  const read = await handleReadResource({ uri }, requestId, auth);
+  if ("error" in read) {
+    return read;
+  }
+
+  // The read succeeded, so the URI matched a provider's template
+  const { provider, variables } = resourceProviderRegistry.resolve(uri)!;
+  await resourceSubscriptions.subscribe(
+    sessionId,
+    uri,
+    provider.subscribe &&
+      (() =>
+        provider.subscribe!(
+          uri,
+          () => publishChangeEvent({ type: "resource_updated", uri }),
+          variables
+        ))
+  );
+  resourceLogger.debug("Resource subscribed", { uri, sessionId });
+  return createJsonRpcResponse(requestId, {});
+}
+
+/**
+ * Handles the 'resources/unsubscribe' MCP method.
+ * Unsubscribing from a resource that was not subscribed is not an error.
+ */
+export async function handleUnsubscribeResource(
+  params: UnsubscribeResourceRequestParams,
+  requestId: JsonRpcId,
+  sessionId: string
+): Promise<SubscribeResourceResponse | JsonRpcErrorResponse> {
+  await resourceSubscriptions.unsubscribe(sessionId, params.uri);
+  return createJsonRpcResponse(requestId, {});
+}
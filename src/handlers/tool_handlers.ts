@@ -0,0 +1,216 @@
+import { changeEvents } from "../events";
+import type { ProtocolFeatures } from "../mcp/lifecycle";
+import { UNNEGOTIATED_FEATURES } from "../mcp/lifecycle";
+import { isContentBlock, toContentBlocks } from "../mcp/content";
+import type { Page } from "../mcp/pagination";
+import { InvalidCursorError, paginate } from "../mcp/pagination";
+import type {
+  ListToolsRequestParams,
+  ListToolsResponse,
+  McpContentBlock,
+  McpTool,
+  McpToolResult,
+} from "../mcp/types";
+import { toolRegistry } from "../registry";
+import { sessions } from "../session";
+import type { JsonRpcErrorResponse, JsonRpcId } from "../types/json-rpc";
+import type { MCPTool, MCPToolResponse } from "../types/mcp";
+import { config } from "../utils/config";
+import {
+  createJsonRpcErrorResponse,
+  createJsonRpcResponse,
+} from "../utils/jsonrpc_helpers";
+import { validateJsonSchema } from "../utils/jsonSchema";
+import { logger } from "../utils/logger";
+
+const toolLogger = logger.child({ component: "tool-handlers" });
+
+/**
+ * Converts a registry tool definition into the MCP `Tool` shape
+ * (`parameters` is published as `inputSchema`).
+ */
+export function toMcpTool(tool: MCPTool): McpTool {
+  return {
+    name: tool.name,
+    description: tool.description,
+    inputSchema: tool.parameters,
+    ...(tool.outputSchema && { outputSchema: tool.outputSchema }),
+    ...(tool.annotations && { annotations: tool.annotations }),
+    metadata: tool.metadata,
+  };
+}
+
+/**
+ * Drops the tool fields a protocol revision doesn't know about
+ * @param tool The tool in MCP format
+ * @param features The features of the connection's protocol version
+ */
+export function adaptTool(tool: McpTool, features: ProtocolFeatures): McpTool {
+  const { annotations, outputSchema, ...rest } = tool;
+  return {
+    ...rest,
+    ...(features.structuredOutput && outputSchema && { outputSchema }),
+    ...(features.toolAnnotations && annotations && { annotations }),
+  };
+}
+
+/**
+ * Describes a content block in text, for revisions without its type
+ */
+function toTextBlock(block: McpContentBlock): McpContentBlock {
+  switch (block.type) {
+    case "resource_link":
+      return { type: "text", text: `Resource: ${block.name} (${block.uri})` };
+    case "audio":
+      return {
+        type: "text",
+        text: `[${block.mimeType} audio omitted: not supported by this protocol version]`,
+      };
+    default:
+      return { type: "text", text: JSON.stringify(block) };
+  }
+}
+
+/**
+ * Shapes a `CallToolResult` for a protocol revision: content blocks it
+ * doesn't support are described as text, and `structuredContent` is dropped
+ * where it isn't supported (the text content already carries the data)
+ * @param result The result built by `toCallToolResult`
+ * @param features The features of the connection's protocol version
+ */
+export function adaptToolResult(
+  result: McpToolResult,
+  features: ProtocolFeatures
+): McpToolResult {
+  const { structuredContent, ...rest } = result;
+  return {
+    ...rest,
+    content: result.content.map((block) =>
+      features.contentTypes.includes(block.type) ? block : toTextBlock(block)
+    ),
+    ...(features.structuredOutput &&
+      structuredContent !== undefined && { structuredContent }),
+  };
+}
+
+/**
+ * Picks the structured result of a tool with an output schema: the handler's
+ * `structuredContent`, or its content when that is a plain object
+ */
+function structuredResultOf(
+  response: MCPToolResponse
+): Record<string, any> | undefined {
+  if (response.structuredContent !== undefined) {
+    return response.structuredContent;
+  }
+  const { content } = response;
+  if (
+    typeof content === "object" &&
+    content !== null &&
+    !Array.isArray(content) &&
+    !isContentBlock(content)
+  ) {
+    return content;
+  }
+  return undefined;
+}
+
+/**
+ * Converts a handler response into an MCP `CallToolResult`.
+ * Content blocks are passed through, strings become a single text block and
+ * anything else is serialized as JSON (see `toContentBlocks`).
+ * For tools with an `outputSchema`, successful results also carry the
+ * validated `structuredContent`. A result that doesn't match the schema
+ * throws in development; elsewhere it is logged as a warning and sent without
+ * `structuredContent`.
+ * @param response The handler's response
+ * @param tool The definition of the tool that produced it
+ */
+export function toCallToolResult(
+  response: MCPToolResponse,
+  tool?: MCPTool
+): McpToolResult {
+  const { content, metadata } = response;
+  const isError = response.isError === true || metadata?.isError === true;
+  const result: McpToolResult = {
+    content: toContentBlocks(content),
+    isError,
+    metadata,
+  };
+  if (!tool?.outputSchema || isError) {
+    return result;
+  }
+
+  const structuredContent = structuredResultOf(response);
+  const problems =
+    structuredContent === undefined
+      ? ["no structured content returned"]
+      : validateJsonSchema(tool.outputSchema, structuredContent);
+  if (problems.length === 0) {
+    return { ...result, structuredContent };
+  }
+
+  const message = `Tool '${
+    tool.name
+  }' returned output that does not match its outputSchema: ${problems.join(
+    "; "
+  )}`;
+  if (config.server.environment === "development") {
+    throw new Error(message);
+  }
+  toolLogger.warn(message);
+  return result;
+}
+
+/**
+ * Returns one page of the enabled tools, ordered by name
+ * @param cursor The `nextCursor` of the previous page, if any
+ * @throws InvalidCursorError if the cursor can't be used for the tool list
+ */
+export function listToolsPage(cursor?: string): Page<MCPTool> {
+  return paginate(
+    toolRegistry.getAllTools(),
+    (tool) => tool.name,
+    "tools",
+    cursor
+  );
+}
+
+/**
+ * Handles the 'tools/list' MCP method.
+ * Returns the enabled tools from the registry in MCP format, paged by name
+ * and shaped to the protocol version negotiated for the connection.
+ * @param features The features of the connection's protocol version
+ */
+export function handleListTools(
+  params: ListToolsRequestParams,
+  requestId: JsonRpcId,
+  features: ProtocolFeatures = UNNEGOTIATED_FEATURES
+): Promise<ListToolsResponse | JsonRpcErrorResponse> {
+  try {
+    const page = listToolsPage(params.cursor);
+    return Promise.resolve(
+      createJsonRpcResponse(requestId, {
+        tools: page.items.map((tool) => adaptTool(toMcpTool(tool), features)),
+        nextCursor: page.nextCursor,
+      })
+    );
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return Promise.resolve(
+        createJsonRpcErrorResponse(requestId, error.code, error.message)
+      );
+    }
+    throw error;
+  }
+}
+
+// Tell connected clients to re-fetch tools/list whenever the registry changes
+changeEvents.subscribe((event) => {
+  if (event.type === "tool_list_changed") {
+    sessions.broadcast({
+      jsonrpc: "2.0",
+      method: "notifications/tools/list_changed",
+    });
+  }
+});
@@ -0,0 +1,116 @@
+import type { JsonRpcId } from "../types/json-rpc";
+import { logger } from "../utils/logger";
+import { registerNotificationHandler } from "./notifications";
+
+const cancellationLogger = logger.child({ component: "cancellation" });
+
+/**
+ * Tracks in-flight requests per connection so they can be aborted by
+ * `notifications/cancelled` or by the transport when the client disconnects.
+ * See: https://modelcontextprotocol.io/specification/2025-03-26/basic/utilities/cancellation
+ */
+export class InFlightRequests {
+  private controllers: Map<string, AbortController> = new Map();
+  // Removes a request's listener from its transport signal
+  private detachers: Map<string, () => void> = new Map();
+
+  private key(connectionKey: string, requestId: JsonRpcId): string {
+    return `${connectionKey}|${JSON.stringify(requestId)}`;
+  }
+
+  /**
+   * Start tracking a request
+   * @param connectionKey The connection the request arrived on
+   * @param requestId The JSON-RPC id of the request
+   * @param parent Optional transport signal (e.g. client disconnect) that also aborts the request
+   * @returns The controller whose signal is handed to the work
+   */
+  begin(
+    connectionKey: string,
+    requestId: JsonRpcId,
+    parent?: AbortSignal
+  ): AbortController {
+    const key = this.key(connectionKey, requestId);
+    if (this.controllers.has(key)) {
+      cancellationLogger.warn("Request id reused while still in flight", {
+        connectionKey,
+        requestId,
+      });
+    }
+
+    const controller = new AbortController();
+    this.controllers.set(key, controller);
+
+    if (parent) {
+      const onParentAbort = () =>
+        controller.abort(parent.reason ?? "Client disconnected");
+      if (parent.aborted) {
+        onParentAbort();
+      } else {
+        // Transport signals (e.g. a WebSocket's) outlive their requests, so
+        // the listener must go once the request ends either way
+        parent.addEventListener("abort", onParentAbort, { once: true });
+        this.detachers.set(key, () =>
+          parent.removeEventListener("abort", onParentAbort)
+        );
+      }
+    }
+    return controller;
+  }
+
+  /**
+   * Abort an in-flight request
+   * @returns true if the request was in flight
+   */
+  cancel(connectionKey: string, requestId: JsonRpcId, reason?: string) {
+    const key = this.key(connectionKey, requestId);
+    const controller = this.controllers.get(key);
+    if (!controller) {
+      return false;
+    }
+    this.controllers.delete(key);
+    this.detach(key);
+    controller.abort(reason ?? "Request cancelled");
+    return true;
+  }
+
+  /**
+   * Stop tracking a request that finished on its own
+   */
+  end(connectionKey: string, requestId: JsonRpcId): void {
+    const key = this.key(connectionKey, requestId);
+    this.controllers.delete(key);
+    this.detach(key);
+  }
+
+  private detach(key: string): void {
+    this.detachers.get(key)?.();
+    this.detachers.delete(key);
+  }
+
+  /**
+   * Number of requests currently in flight
+   */
+  get size(): number {
+    return this.controllers.size;
+  }
+}
+
+// Shared tracker used by the dispatcher
+export const inFlightRequests = new InFlightRequests();
+
+registerNotificationHandler("notifications/cancelled", (params, context) => {
+  const { requestId, reason } = params;
+  if (typeof requestId !== "string" && typeof requestId !== "number") {
+    cancellationLogger.warn("Ignoring cancellation without a valid requestId");
+    return;
+  }
+  // Unknown or already finished requests are ignored, as the spec requires
+  if (inFlightRequests.cancel(context.connectionKey, requestId, reason)) {
+    cancellationLogger.info("Request cancelled by client", {
+      connectionKey: context.connectionKey,
+      requestId,
+      reason,
+    });
+  }
+});
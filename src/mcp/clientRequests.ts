@@ -0,0 +1,200 @@
+import { sessions } from "../session";
+import type { JsonRpcId, JsonRpcResponse } from "../types/json-rpc";
+import type { ServerInitiatedMessage } from "../types/session";
+import { config } from "../utils/config";
+import { logger } from "../utils/logger";
+import { getRequestContext } from "./context";
+
+const clientRequestLogger = logger.child({ component: "client-requests" });
+
+/**
+ * Raised when a server-initiated request fails: the client answered with an
+ * error, could not be reached, or did not answer in time.
+ */
+export class ClientRequestError extends Error {
+  public readonly code: number;
+  public readonly data?: unknown;
+
+  constructor(message: string, code: number, data?: unknown) {
+    super(message);
+    this.name = "ClientRequestError";
+    this.code = code;
+    this.data = data;
+    Object.setPrototypeOf(this, ClientRequestError.prototype);
+  }
+}
+
+// Error codes for failures detected on the server side
+export const CLIENT_UNREACHABLE = -32002;
+export const CLIENT_REQUEST_TIMEOUT = -32001;
+export const CLIENT_REQUEST_CANCELLED = -32800;
+
+export interface ClientRequestOptions {
+  // Overrides `MCP_CLIENT_REQUEST_TIMEOUT_MS`
+  timeoutMs?: number;
+  // Abandons the request, e.g. when the tool call that made it is cancelled
+  signal?: AbortSignal;
+}
+
+/**
+ * Deliver a message to a session's client over the session's own channel,
+ * or else over the response of the request being handled for that session
+ * (e.g. a POST answered with SSE while no GET stream is open)
+ * @returns false if neither can carry the message
+ */
+function deliver(sessionId: string, message: ServerInitiatedMessage): boolean {
+  if (sessions.sendTo(sessionId, message)) return true;
+  const context = getRequestContext();
+  if (context?.sessionId !== sessionId || !context.notify) return false;
+  context.notify(message);
+  return true;
+}
+
+interface PendingRequest {
+  sessionId: string;
+  resolve: (result: unknown) => void;
+  reject: (error: ClientRequestError) => void;
+}
+
+/**
+ * Sends requests from the server to a session's client and matches the
+ * client's responses to them by id.
+ * A request that times out or is abandoned is followed by
+ * `notifications/cancelled` so the client can stop working on it.
+ */
+export class ClientRequests {
+  private pending: Map<string, PendingRequest> = new Map();
+  private nextId = 1;
+
+  private key(sessionId: string, requestId: JsonRpcId): string {
+    return `${sessionId}|${JSON.stringify(requestId)}`;
+  }
+
+  /**
+   * Send a request to the client of a session and wait for its result
+   * @param sessionId The session whose client should answer
+   * @param method The JSON-RPC method (e.g. "sampling/createMessage")
+   * @param params The request parameters
+   * @returns The `result` of the client's response
+   * @throws ClientRequestError on an error response, timeout or cancellation
+   */
+  request<Result>(
+    sessionId: string,
+    method: string,
+    params: Record<string, unknown>,
+    options: ClientRequestOptions = {}
+  ): Promise<Result> {
+    const { signal } = options;
+    const timeoutMs = options.timeoutMs ?? config.mcp.clientRequestTimeoutMs;
+    if (signal?.aborted) {
+      return Promise.reject(
+        new ClientRequestError("Request cancelled", CLIENT_REQUEST_CANCELLED)
+      );
+    }
+
+    const requestId = `server-${this.nextId++}`;
+    const key = this.key(sessionId, requestId);
+
+    return new Promise<Result>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const settle = () => {
+        this.pending.delete(key);
+        if (timer) clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+      };
+      const abandon = (reason: string, code: number) => {
+        settle();
+        deliver(sessionId, {
+          jsonrpc: "2.0",
+          method: "notifications/cancelled",
+          params: { requestId, reason },
+        });
+        reject(new ClientRequestError(reason, code));
+      };
+      const onAbort = () =>
+        abandon("Request cancelled", CLIENT_REQUEST_CANCELLED);
+
+      this.pending.set(key, {
+        sessionId,
+        resolve: (result) => {
+          settle();
+          resolve(result as Result);
+        },
+        reject: (error) => {
+          settle();
+          reject(error);
+        },
+      });
+      signal?.addEventListener("abort", onAbort, { once: true });
+      if (timeoutMs > 0) {
+        timer = setTimeout(
+          () =>
+            abandon(
+              `Client did not answer ${method} within ${timeoutMs}ms`,
+              CLIENT_REQUEST_TIMEOUT
+            ),
+          timeoutMs
+        );
+      }
+
+      const delivered = deliver(sessionId, {
+        jsonrpc: "2.0",
+        id: requestId,
+        method,
+        params,
+      });
+      if (!delivered) {
+        settle();
+        reject(
+          new ClientRequestError(
+            `Cannot send ${method}: the session has no open channel to its client`,
+            CLIENT_UNREACHABLE
+          )
+        );
+      }
+    });
+  }
+
+  /**
+   * Settle the pending request a client response belongs to
+   * @returns false if no request of the session is waiting for it
+   */
+  handleResponse(sessionId: string, response: JsonRpcResponse): boolean {
+    const pending = this.pending.get(this.key(sessionId, response.id));
+    if (!pending) {
+      clientRequestLogger.warn("Response to unknown server request", {
+        sessionId,
+        requestId: response.id,
+      });
+      return false;
+    }
+    if ("error" in response) {
+      const { code, message, data } = response.error;
+      pending.reject(new ClientRequestError(message, code, data));
+    } else {
+      pending.resolve(response.result);
+    }
+    return true;
+  }
+
+  /**
+   * Fail every request still waiting on a session's client
+   * @returns The number of requests rejected
+   */
+  rejectAll(sessionId: string, reason: string): number {
+    let rejected = 0;
+    for (const pending of [...this.pending.values()]) {
+      if (pending.sessionId === sessionId) {
+        pending.reject(new ClientRequestError(reason, CLIENT_UNREACHABLE));
+        rejected++;
+      }
+    }
+    return rejected;
+  }
+}
+
+// Creates a global shared tracker; requests die with their session
+export const clientRequests = new ClientRequests();
+sessions.onEnd((session) =>
+  clientRequests.rejectAll(session.id, "Session ended")
+);
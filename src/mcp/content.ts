@@ -0,0 +1,132 @@
+import type { MCPToolResponse } from "../types/mcp";
+import type {
+  McpAudioContent,
+  McpContentBlock,
+  McpEmbeddedResource,
+  McpImageContent,
+  McpResource,
+  McpResourceContent,
+  McpResourceLink,
+  McpTextContent,
+} from "./types";
+
+type BinaryData = string | Uint8Array | ArrayBuffer;
+
+function toBase64(data: BinaryData): string {
+  if (typeof data === "string") return data;
+  const bytes = data instanceof ArrayBuffer ? new Uint8Array(data) : data;
+  return Buffer.from(bytes).toString("base64");
+}
+
+/**
+ * Create a text content block
+ */
+export function createTextContent(text: string): McpTextContent {
+  return { type: "text", text };
+}
+
+/**
+ * Create an image content block
+ * @param data Raw bytes, or a string that is already base64 encoded
+ * @param mimeType e.g. "image/png"
+ */
+export function createImageContent(
+  data: BinaryData,
+  mimeType: string
+): McpImageContent {
+  return { type: "image", data: toBase64(data), mimeType };
+}
+
+/**
+ * Create an audio content block
+ * @param data Raw bytes, or a string that is already base64 encoded
+ * @param mimeType e.g. "audio/wav"
+ */
+export function createAudioContent(
+  data: BinaryData,
+  mimeType: string
+): McpAudioContent {
+  return { type: "audio", data: toBase64(data), mimeType };
+}
+
+/**
+ * Create a link to a resource the client can read with resources/read
+ */
+export function createResourceLink(resource: McpResource): McpResourceLink {
+  return { type: "resource_link", ...resource };
+}
+
+/**
+ * Create a block that embeds the contents of a resource
+ */
+export function createEmbeddedResource(
+  resource: McpResourceContent
+): McpEmbeddedResource {
+  return { type: "resource", resource };
+}
+
+/**
+ * Create a tool response that reports a failure to the model (`isError`)
+ * instead of as a protocol error
+ * @param content A message, or the content blocks describing the failure
+ */
+export function createToolErrorResponse(
+  content: string | McpContentBlock[],
+  metadata?: Record<string, any>
+): MCPToolResponse {
+  return {
+    content:
+      typeof content === "string" ? [createTextContent(content)] : content,
+    isError: true,
+    metadata,
+  };
+}
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+/**
+ * Whether a value is a well-formed MCP content block
+ */
+export function isContentBlock(value: unknown): value is McpContentBlock {
+  if (typeof value !== "object" || value === null) return false;
+  const block = value as Record<string, any>;
+  switch (block.type) {
+    case "text":
+      return isString(block.text);
+    case "image":
+    case "audio":
+      return isString(block.data) && isString(block.mimeType);
+    case "resource_link":
+      return isString(block.uri) && isString(block.name);
+    case "resource":
+      return (
+        typeof block.resource === "object" &&
+        block.resource !== null &&
+        isString(block.resource.uri) &&
+        (isString(block.resource.text) || isString(block.resource.blob))
+      );
+    default:
+      return false;
+  }
+}
+
+/**
+ * Converts the content of a tool response into content blocks.
+ * Blocks (or a non-empty array of blocks) are kept as they are, strings
+ * become a single text block and anything else is serialized as JSON.
+ */
+export function toContentBlocks(content: unknown): McpContentBlock[] {
+  if (
+    Array.isArray(content) &&
+    content.length > 0 &&
+    content.every(isContentBlock)
+  ) {
+    return content;
+  }
+  if (isContentBlock(content)) {
+    return [content];
+  }
+  const text =
+    typeof content === "string" ? content : JSON.stringify(content ?? null);
+  return [createTextContent(text)];
+}
@@ -0,0 +1,50 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { Session } from "../types/session";
+import type { DispatchContext } from "./dispatcher";
+import type { ProgressReporter, ProgressToken } from "./progress";
+
+/**
+ * Values visible to everything running on behalf of one dispatched message.
+ * Code outside the dispatcher (e.g. direct `executeTool` calls) may only
+ * provide some of them.
+ */
+export interface RequestContext extends Partial<DispatchContext> {
+  // The session as read when the message arrived; changes go through `sessions`
+  session?: Session;
+  // Aborted when the client cancels the request or disconnects
+  signal?: AbortSignal;
+  // Token from the request's `_meta.progressToken`, if any
+  progressToken?: ProgressToken;
+  // Where `reportProgress` sends updates for this request
+  progress?: ProgressReporter;
+}
+
+const requestContextStorage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run a function with the context of the message being handled.
+ * Everything the function awaits or schedules (including tool handlers and
+ * their streaming work) can read the context through `getRequestContext`.
+ */
+export function runWithRequestContext<T>(
+  context: RequestContext,
+  fn: () => T
+): T {
+  return requestContextStorage.run(context, fn);
+}
+
+/**
+ * Get the context of the message currently being handled
+ * @returns The context, or undefined outside of a dispatched message
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return requestContextStorage.getStore();
+}
+
+/**
+ * Get the abort signal of the request currently being handled.
+ * Tool handlers pass it to outbound `fetch` calls and long-running loops.
+ */
+export function getAbortSignal(): AbortSignal | undefined {
+  return requestContextStorage.getStore()?.signal;
+}
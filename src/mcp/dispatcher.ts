@@ -0,0 +1,1004 @@
+import { z } from "zod";
+import { handleComplete } from "../handlers/completion_handlers";
+import { handleInitialize, handlePing } from "../handlers/lifecycle_handlers";
+import { handleSetLogLevel } from "../handlers/logging_handlers";
+import {
+  handleGetPrompt,
+  handleListPrompts,
+} from "../handlers/prompt_handlers";
+import {
+  handleListResources,
+  handleListResourceTemplates,
+  handleReadResource,
+  handleSubscribeResource,
+  handleUnsubscribeResource,
+} from "../handlers/resource_handlers";
+import {
+  adaptToolResult,
+  handleListTools,
+  toCallToolResult,
+} from "../handlers/tool_handlers";
+import type { AuthContext } from "../middleware/auth";
+import {
+  executeTool as executeToolFunction,
+  RequestCancelledError,
+  toolRegistry,
+} from "../registry";
+import { sessions } from "../session";
+import type { JsonRpcId, JsonRpcResponse } from "../types/json-rpc";
+import type { ServerInitiatedMessage } from "../types/session";
+import { authService } from "../utils/auth";
+import { config } from "../utils/config";
+import { createJsonRpcErrorResponse } from "../utils/jsonrpc_helpers";
+import { logger as serverLogger } from "../utils/logger";
+import { metrics } from "../utils/metrics";
+import { inFlightRequests } from "./cancellation";
+import { clientRequests } from "./clientRequests";
+import type { RequestContext } from "./context";
+import { getRequestContext, runWithRequestContext } from "./context";
+import type { ProtocolFeatures } from "./lifecycle";
+import { lifecycle, UNNEGOTIATED_FEATURES } from "./lifecycle";
+import { notificationRouter } from "./notifications";
+import type { ProgressToken } from "./progress";
+import { createProgressNotification, createProgressReporter } from "./progress";
+import {
+  CallToolRequestSchema,
+  CompleteRequestSchema,
+  GetPromptRequestSchema,
+  InitializeRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SetLogLevelRequestSchema,
+  SubscribeResourceRequestSchema,
+  UnsubscribeResourceRequestSchema,
+} from "./types";
+
+const dispatcherLogger = serverLogger.child({ component: "dispatcher" });
+
+/**
+ * Per-message information supplied by the transport that received it.
+ */
+export interface DispatchContext {
+  // Identifies the client connection for lifecycle tracking
+  connectionKey: string;
+  // Session the message belongs to, for transports that carry one
+  sessionId?: string;
+  // Present when the transport ran the authentication middleware
+  auth?: AuthContext["auth"];
+  // Server-side correlation ID for logs
+  internalRequestId?: string;
+  // Whether the transport can carry a streamed (JSONL) tool response
+  allowStreaming?: boolean;
+  // Protocol version the transport identified for this message, used when
+  // the session has no negotiated version on record
+  protocolVersion?: string;
+  // Aborted by the transport when the client goes away
+  signal?: AbortSignal;
+  // Delivers a server-initiated message related to this request, when the
+  // transport can carry one before the response (STDIO, SSE)
+  notify?: (message: ServerInitiatedMessage) => void;
+}
+
+/**
+ * Outcome of dispatching a single JSON-RPC message.
+ * `status` is the HTTP status the HTTP transport should use; other transports ignore it.
+ */
+export type DispatchResult =
+  | { kind: "response"; response: JsonRpcResponse; status: number }
+  | { kind: "stream"; stream: ReadableStream<Uint8Array>; requestId: JsonRpcId }
+  | { kind: "accepted" };
+
+/**
+ * Protocol features for the connection a message arrived on.
+ * Only session transports negotiate a version; sessionless `/invoke`
+ * requests get every feature.
+ */
+function featuresFor(context: DispatchContext): ProtocolFeatures {
+  if (!context.sessionId) {
+    return UNNEGOTIATED_FEATURES;
+  }
+  return lifecycle.featuresOf(context.connectionKey, context.protocolVersion);
+}
+
+function respond(response: JsonRpcResponse, status: number = 200) {
+  return { kind: "response", response, status } as const;
+}
+
+/**
+ * Error response for list params (e.g. a cursor that isn't a string)
+ */
+function invalidListParams(
+  method: string,
+  requestId: JsonRpcId | undefined,
+  error: z.ZodError
+) {
+  return createJsonRpcErrorResponse(
+    requestId ?? null,
+    -32602,
+    `Invalid parameters for ${method}: ${error.errors
+      .map((e) => `${e.path.join(".")} - ${e.message}`)
+      .join(", ")}`,
+    error.format()
+  );
+}
+
+/**
+ * HTTP status of a list response: an invalid cursor (-32602) is a bad request
+ */
+function listStatus(response: JsonRpcResponse): number {
+  return "error" in response && response.error.code === -32602 ? 400 : 200;
+}
+
+/**
+ * Wraps a tool's JSONL stream so that the reader going away (client
+ * disconnect) aborts the tool, and `onDone` runs however the stream ends.
+ */
+function trackStream(
+  readable: ReadableStream<Uint8Array>,
+  onCancel: () => void,
+  onDone: () => void
+): ReadableStream<Uint8Array> {
+  const reader = readable.getReader();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) {
+        onDone();
+        controller.close();
+        return;
+      }
+      controller.enqueue(value);
+    },
+    cancel(reason) {
+      onCancel();
+      onDone();
+      return reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * Whether a message is a response from the client rather than a request
+ */
+function isClientResponse(message: unknown): message is JsonRpcResponse {
+  return (
+    typeof message === "object" &&
+    message !== null &&
+    "id" in message &&
+    !("method" in message) &&
+    ("result" in message || "error" in message)
+  );
+}
+
+/**
+ * Dispatches one JSON-RPC message (already parsed from JSON) to the
+ * lifecycle, resource or tool handlers.
+ * Handlers run inside the request context, so session-scoped lookups
+ * (roots, auth, log level) work for every method, not just tools/call.
+ * The session is read once per message and is visible to handlers as
+ * `getRequestContext().session`.
+ * @param message The decoded JSON-RPC message
+ * @param context Transport-provided context for the message
+ */
+export async function dispatchMessage(
+  message: unknown,
+  context: DispatchContext
+): Promise<DispatchResult> {
+  const session = context.sessionId
+    ? await sessions.get(context.sessionId)
+    : undefined;
+  return runWithRequestContext({ ...context, session }, () =>
+    routeMessage(message, context)
+  );
+}
+
+async function routeMessage(
+  message: unknown,
+  context: DispatchContext
+): Promise<DispatchResult> {
+  if (isClientResponse(message)) {
+    // Answers to server-initiated requests (e.g. sampling) get no reply
+    if (context.sessionId) {
+      clientRequests.handleResponse(context.sessionId, message);
+    }
+    return { kind: "accepted" };
+  }
+
+  let jsonRpcId: JsonRpcId | undefined = undefined;
+  if (typeof message === "object" && message !== null && "id" in message) {
+    jsonRpcId = (message as { id: JsonRpcId }).id;
+  }
+
+  if (jsonRpcId === null) {
+    return respond(
+      createJsonRpcErrorResponse(
+        null,
+        -32600,
+        "Invalid Request: MCP requires non-null 'id' for requests."
+      ),
+      400
+    );
+  }
+
+  const JsonRpcIdSchema = z.union([z.string(), z.number(), z.null()]);
+  const JsonRpcRequestSchema = z.object({
+    jsonrpc: z.literal("2.0"),
+    method: z.string().min(1, "Method (tool name) is required"),
+    params: z.record(z.any()).optional().default({}),
+    id: JsonRpcIdSchema.optional(),
+  });
+
+  const parsedRequest = JsonRpcRequestSchema.safeParse(message);
+
+  if (!parsedRequest.success) {
+    return respond(
+      createJsonRpcErrorResponse(
+        jsonRpcId === undefined ? null : jsonRpcId,
+        -32600,
+        `Invalid JSON-RPC Request: ${parsedRequest.error.errors
+          .map((e) => `${e.path.join(".")} - ${e.message}`)
+          .join(", ")}`,
+        parsedRequest.error.format()
+      ),
+      400
+    );
+  }
+
+  const { method, params, id: requestId } = parsedRequest.data;
+  const serverRequestId = context.internalRequestId;
+
+  const logger = serverLogger.child({
+    method,
+    internalRequestId: serverRequestId,
+    jsonRpcId: requestId,
+  });
+
+  const { connectionKey } = context;
+
+  // Messages without an `id` are notifications: route them, never respond
+  if (requestId === undefined) {
+    logger.debug("Routing notification");
+    await notificationRouter.route(method, params, context);
+    return { kind: "accepted" };
+  }
+
+  if (method === "initialize") {
+    logger.info("Handling initialize request");
+    const validatedParams = InitializeRequestSchema.safeParse(params);
+    if (!validatedParams.success) {
+      return respond(
+        createJsonRpcErrorResponse(
+          requestId ?? null,
+          -32602,
+          `Invalid parameters for initialize: ${validatedParams.error.errors
+            .map((e) => `${e.path.join(".")} - ${e.message}`)
+            .join(", ")}`,
+          validatedParams.error.format()
+        ),
+        400
+      );
+    }
+    const response = await handleInitialize(
+      validatedParams.data,
+      requestId ?? null,
+      connectionKey
+    );
+    return respond(response, "error" in response ? 400 : 200);
+  }
+  if (method === "ping") {
+    return respond(await handlePing(requestId ?? null));
+  }
+
+  if (method === "resources/list") {
+    logger.info("Handling resources/list request");
+    const validatedParams = ListResourcesRequestSchema.safeParse(params);
+    if (!validatedParams.success) {
+      return respond(
+        invalidListParams(method, requestId, validatedParams.error),
+        400
+      );
+    }
+    try {
+      const response = await handleListResources(
+        validatedParams.data,
+        requestId!,
+        context.auth
+      );
+      return respond(response, listStatus(response));
+    } catch (error: any) {
+      logger.error("Error handling resources/list", error);
+      return respond(
+        createJsonRpcErrorResponse(
+          requestId!,
+          -32603,
+          `Internal server error handling resources/list: ${error.message}`
+        ),
+        500
+      );
+    }
+  }
+  if (method === "resources/read") {
+    logger.info("Handling resources/read request");
+    try {
+      const validatedParams = ReadResourceRequestSchema.parse(params);
+      const response = await handleReadResource(
+        validatedParams,
+        requestId!,
+        context.auth
+      );
+      const status =
+        "error" in response
+          ? response.error.code === -32000
+            ? 403
+            : response.error.code === -32603
+            ? 500
+            : 200
+          : 200;
+      return respond(response, status);
+    } catch (error: any) {
+      logger.error("Error handling resources/read", error);
+      const errorCode = error instanceof z.ZodError ? -32602 : -32603;
+      const errorMessage =
+        error instanceof z.ZodError
+          ? `Invalid parameters for resources/read: ${error.errors
+              .map((e) => `${e.path.join(".")} - ${e.message}`)
+              .join(", ")}`
+          : `Internal server error handling resources/read: ${error.message}`;
+      return respond(
+        createJsonRpcErrorResponse(
+          requestId!,
+          errorCode,
+          errorMessage,
+          error instanceof z.ZodError ? error.format() : undefined
+        ),
+        errorCode === -32602 ? 400 : 500
+      );
+    }
+  }
+
+  if (method === "resources/subscribe" || method === "resources/unsubscribe") {
+    logger.info(`Handling ${method} request`);
+    const schema =
+      method === "resources/subscribe"
+        ? SubscribeResourceRequestSchema
+        : UnsubscribeResourceRequestSchema;
+    const validatedParams = schema.safeParse(params);
+    if (!validatedParams.success) {
+      return respond(
+        createJsonRpcErrorResponse(
+          requestId ?? null,
+          -32602,
+          `Invalid parameters for ${method}: ${validatedParams.error.errors
+            .map((e) => `${e.path.join(".")} - ${e.message}`)
+            .join(", ")}`,
+          validatedParams.error.format()
+        ),
+        400
+      );
+    }
+    // Updates are pushed to the session, so sessionless callers can't subscribe
+    if (!context.sessionId) {
+      return respond(
+        createJsonRpcErrorResponse(
+          requestId!,
+          -32600,
+          `Invalid Request: ${method} requires a session (use /mcp or STDIO).`
+        ),
+        400
+      );
+    }
+    const response =
+      method === "resources/subscribe"
+        ? await handleSubscribeResource(
+            validatedParams.data,
+            requestId!,
+            context.sessionId,
+            context.auth
+          )
+        : await handleUnsubscribeResource(
+            validatedParams.data,
+            requestId!,
+            context.sessionId
+          );
+    return respond(response);
+  }
+
+  if (method === "resources/templates/list") {
+    logger.info("Handling resources/templates/list request");
+    const validatedParams =
+      ListResourceTemplatesRequestSchema.safeParse(params);
+    if (!validatedParams.success) {
+      return respond(
+        invalidListParams(method, requestId, validatedParams.error),
+        400
+      );
+    }
+    const response = await handleListResourceTemplates(
+      validatedParams.data,
+      requestId!,
+      context.auth
+    );
+    return respond(response, listStatus(response));
+  }
+
+  if (method === "tools/list") {
+    logger.info("Handling tools/list request");
+    const validatedParams = ListToolsRequestSchema.safeParse(params);
+    if (!validatedParams.success) {
+      return respond(
+        invalidListParams(method, requestId, validatedParams.error),
+        400
+      );
+    }
+    const response = await handleListTools(
+      validatedParams.data,
+      requestId!,
+      featuresFor(context)
+    );
+    return respond(response, listStatus(response));
+  }
+
+  if (method === "prompts/list") {
+    logger.info("Handling prompts/list request");
+    const validatedParams = ListPromptsRequestSchema.safeParse(params);
+    if (!validatedParams.success) {
+      return respond(
+        invalidListParams(method, requestId, validatedParams.error),
+        400
+      );
+    }
+    const response = await handleListPrompts(
+      validatedParams.data,
+      requestId!,
+      context.auth
+    );
+    return respond(response, listStatus(response));
+  }
+  if (method === "prompts/get") {
+    logger.info("Handling prompts/get request");
+    const validatedParams = GetPromptRequestSchema.safeParse(params);
+    if (!validatedParams.success) {
+      return respond(
+        createJsonRpcErrorResponse(
+          requestId ?? null,
+          -32602,
+          `Invalid parameters for prompts/get: ${validatedParams.error.errors
+            .map((e) => `${e.path.join(".")} - ${e.message}`)
+            .join(", ")}`,
+          validatedParams.error.format()
+        ),
+        400
+      );
+    }
+    const response = await handleGetPrompt(
+      validatedParams.data,
+      requestId!,
+      context.auth
+    );
+    const status =
+      "error" in response
+        ? response.error.code === -32000
+          ? 403
+          : response.error.code === -32602
+          ? 400
+          : 500
+        : 200;
+    return respond(response, status);
+  }
+
+  if (method === "completion/complete") {
+    logger.info("Handling completion/complete request");
+    const validatedParams = CompleteRequestSchema.safeParse(params);
+    if (!validatedParams.success) {
+      return respond(
+        createJsonRpcErrorResponse(
+          requestId ?? null,
+          -32602,
+          `Invalid parameters for completion/complete: ${validatedParams.error.errors
+            .map((e) => `${e.path.join(".")} - ${e.message}`)
+            .join(", ")}`,
+          validatedParams.error.format()
+        ),
+        400
+      );
+    }
+    const response = await handleComplete(
+      validatedParams.data,
+      requestId!,
+      context.auth
+    );
+    const status =
+      "error" in response
+        ? response.error.code === -32000
+          ? 403
+          : response.error.code === -32602
+          ? 400
+          : 500
+        : 200;
+    return respond(response, status);
+  }
+
+  if (method === "logging/setLevel") {
+    logger.info("Handling logging/setLevel request");
+    const validatedParams = SetLogLevelRequestSchema.safeParse(params);
+    if (!validatedParams.success) {
+      return respond(
+        createJsonRpcErrorResponse(
+          requestId ?? null,
+          -32602,
+          `Invalid parameters for logging/setLevel: ${validatedParams.error.errors
+            .map((e) => `${e.path.join(".")} - ${e.message}`)
+            .join(", ")}`,
+          validatedParams.error.format()
+        ),
+        400
+      );
+    }
+    // Log messages are pushed to the session, like resource updates
+    if (!context.sessionId) {
+      return respond(
+        createJsonRpcErrorResponse(
+          requestId!,
+          -32600,
+          `Invalid Request: ${method} requires a session (use /mcp or STDIO).`
+        ),
+        400
+      );
+    }
+    return respond(
+      await handleSetLogLevel(
+        validatedParams.data,
+        requestId!,
+        context.sessionId
+      )
+    );
+  }
+
+  let toolName: string;
+  let parameters: Record<string, any>;
+  let progressToken: ProgressToken | undefined;
+  const isLegacyToolCall = method !== "tools/call";
+
+  if (method === "tools/call") {
+    const validatedParams = CallToolRequestSchema.safeParse(params);
+    if (!validatedParams.success) {
+      return respond(
+        createJsonRpcErrorResponse(
+          requestId ?? null,
+          -32602,
+          `Invalid parameters for tools/call: ${validatedParams.error.errors
+            .map((e) => `${e.path.join(".")} - ${e.message}`)
+            .join(", ")}`,
+          validatedParams.error.format()
+        ),
+        400
+      );
+    }
+    toolName = validatedParams.data.name;
+    parameters = validatedParams.data.arguments;
+    progressToken = validatedParams.data._meta?.progressToken;
+  } else {
+    toolName = method;
+    // Legacy calls carry `_meta` alongside the tool parameters
+    const { _meta, ...rest } = params;
+    parameters = rest;
+    const legacyToken = _meta?.progressToken;
+    if (typeof legacyToken === "string" || typeof legacyToken === "number") {
+      progressToken = legacyToken;
+    }
+  }
+  const toolLogger = logger.child({ toolName });
+
+  const isKnownLegacyTool =
+    config.mcp.legacyToolMethods && toolRegistry.isToolRegistered(toolName);
+  if (isLegacyToolCall && !isKnownLegacyTool) {
+    toolLogger.warn("Unknown method/tool requested");
+    return respond(
+      createJsonRpcErrorResponse(
+        requestId!,
+        -32601,
+        `Method not found: Method or Tool '${toolName}' is not available.`,
+        {
+          availableMethods: [
+            "initialize",
+            "ping",
+            "tools/list",
+            "tools/call",
+            "resources/list",
+            "resources/read",
+            "resources/templates/list",
+            "resources/subscribe",
+            "resources/unsubscribe",
+            "prompts/list",
+            "prompts/get",
+            "logging/setLevel",
+            "completion/complete",
+            ...(config.mcp.legacyToolMethods
+              ? toolRegistry.getAllTools().map((t) => t.name)
+              : []),
+          ],
+        }
+      ),
+      404
+    );
+  }
+  if (!isLegacyToolCall && !toolRegistry.isToolRegistered(toolName)) {
+    toolLogger.warn("Unknown tool requested via tools/call");
+    return respond(
+      createJsonRpcErrorResponse(
+        requestId!,
+        -32602,
+        `Unknown tool: '${toolName}' is not available.`
+      ),
+      404
+    );
+  }
+
+  // Legacy callers predate the lifecycle and are not required to initialize.
+  // Sessionless `/invoke` requests are exempt too: they have nothing to
+  // remember an earlier `initialize` by (see the `/invoke` route)
+  if (
+    !isLegacyToolCall &&
+    context.sessionId &&
+    !lifecycle.isInitialized(connectionKey)
+  ) {
+    toolLogger.warn("Tool call received before initialization", {
+      connectionKey,
+    });
+    return respond(
+      createJsonRpcErrorResponse(
+        requestId!,
+        -32002,
+        "Server not initialized: send 'initialize' before calling tools."
+      ),
+      400
+    );
+  }
+
+  if (config.auth.enableAuth) {
+    const auth = context.auth;
+    if (!auth) {
+      toolLogger.error(
+        "Auth context missing despite auth being enabled. Check middleware order."
+      );
+      return respond(
+        createJsonRpcErrorResponse(
+          requestId!,
+          -32603,
+          "Internal Server Error: Auth context missing."
+        ),
+        500
+      );
+    }
+    const tool = toolRegistry.getToolDefinition(toolName);
+    if (!tool) {
+      toolLogger.error(
+        `Tool definition not found for '${toolName}' despite being registered.`
+      );
+      return respond(
+        createJsonRpcErrorResponse(
+          requestId!,
+          -32603,
+          "Internal Server Error: Tool definition missing."
+        ),
+        500
+      );
+    }
+    const requiredPermission = tool.metadata?.permissionLevel || "public";
+    const clientInfo = auth.isAuthenticated
+      ? {
+          id: auth.clientId!,
+          name: auth.clientName!,
+          permissions: auth.permissions as any,
+        }
+      : null;
+    const hasPermission = authService.hasPermission(
+      clientInfo,
+      requiredPermission
+    );
+    if (!hasPermission) {
+      toolLogger.warn("Unauthorized tool access attempt (JSON-RPC)", {
+        toolName,
+        clientId: auth.clientId,
+        requiredPermission,
+      });
+      return respond(
+        createJsonRpcErrorResponse(
+          requestId!,
+          -32000,
+          `Access Denied: Insufficient permissions to use tool '${toolName}'. Required: ${requiredPermission}.`
+        ),
+        403
+      );
+    }
+    toolLogger.debug("Authorization successful for tool", {
+      toolName,
+      clientId: auth.clientId,
+    });
+  }
+
+  const wantsStreaming = isLegacyToolCall && parameters?.stream === true;
+  const toolParameters = { ...parameters };
+  if (wantsStreaming) delete toolParameters.stream;
+
+  if (wantsStreaming && context.allowStreaming === false) {
+    return respond(
+      createJsonRpcErrorResponse(
+        requestId ?? null,
+        -32600,
+        "Invalid Request: streaming is not supported on this transport."
+      ),
+      400
+    );
+  }
+
+  toolLogger.info(
+    `JSON-RPC tool execution ${
+      wantsStreaming ? "started (streaming)" : "started"
+    }`,
+    { parameters: toolParameters }
+  );
+
+  const cancellation = inFlightRequests.begin(
+    connectionKey,
+    requestId!,
+    context.signal
+  );
+  const { signal } = cancellation;
+  signal.addEventListener(
+    "abort",
+    () => {
+      metrics.trackCancellation(toolName);
+      toolLogger.info("JSON-RPC tool execution cancelled", {
+        reason: String(signal.reason),
+      });
+    },
+    { once: true }
+  );
+  const endInFlight = () => inFlightRequests.end(connectionKey, requestId!);
+
+  // Streamed calls report progress into their stream (see executeTool);
+  // other calls need a transport that can deliver notifications
+  const { notify } = context;
+  const executionContext: RequestContext = {
+    ...getRequestContext(),
+    ...context,
+    progressToken,
+    progress:
+      progressToken !== undefined && notify && !wantsStreaming
+        ? createProgressReporter((update) =>
+            notify(createProgressNotification(progressToken!, update))
+          )
+        : undefined,
+  };
+
+  if (wantsStreaming) {
+    toolLogger.debug("Initiating streaming response for JSON-RPC request", {
+      toolName,
+      requestId,
+    });
+    try {
+      const stream = new TransformStream();
+      const writer = stream.writable.getWriter();
+      const encoder = new TextEncoder();
+      runWithRequestContext(executionContext, () =>
+        executeToolFunction(
+          toolName,
+          toolParameters,
+          writer,
+          encoder,
+          requestId,
+          signal
+        )
+      ).catch((err) => {
+        toolLogger.error(
+          `Error during executeTool setup for streaming: ${
+            err instanceof Error ? err.message : String(err)
+          }`,
+          err instanceof Error ? err : undefined
+        );
+        try {
+          const errorPayload =
+            JSON.stringify({
+              jsonrpc: "2.0",
+              error: {
+                code: -32603,
+                message: "Server error during streaming setup.",
+              },
+              id: requestId === undefined ? null : requestId,
+            }) + "\n";
+          writer.write(encoder.encode(errorPayload));
+          writer.close();
+        } catch (writeError) {
+          toolLogger.error(
+            "Failed to close writer after setup error",
+            writeError instanceof Error ? writeError : undefined
+          );
+        }
+      });
+      return {
+        kind: "stream",
+        requestId: requestId!,
+        stream: trackStream(
+          stream.readable,
+          () => cancellation.abort("Client disconnected"),
+          endInFlight
+        ),
+      };
+    } catch (error: any) {
+      endInFlight();
+      toolLogger.error(`Error setting up streaming response`, error);
+      return respond(
+        createJsonRpcErrorResponse(
+          requestId!,
+          -32603,
+          "Internal server error setting up stream.",
+          undefined
+        ),
+        500
+      );
+    }
+  } else {
+    const endToolMetricTracker = metrics.trackTool(toolName);
+    try {
+      const result = await runWithRequestContext(executionContext, () =>
+        executeToolFunction(
+          toolName,
+          toolParameters || {},
+          undefined,
+          undefined,
+          requestId,
+          signal
+        )
+      );
+      toolLogger.info(
+        "JSON-RPC tool execution completed successfully (non-streaming)"
+      );
+      return respond({
+        jsonrpc: "2.0",
+        result: isLegacyToolCall
+          ? result
+          : adaptToolResult(
+              toCallToolResult(
+                result,
+                toolRegistry.getToolDefinition(toolName)
+              ),
+              featuresFor(context)
+            ),
+        id: requestId!,
+      });
+    } catch (error: any) {
+      if (error instanceof RequestCancelledError) {
+        // Clients ignore responses to cancelled requests, but HTTP still needs one
+        return respond(
+          createJsonRpcErrorResponse(requestId!, error.code, error.message),
+          499
+        );
+      }
+      toolLogger.error(`JSON-RPC tool execution failed (non-streaming)`, error);
+      let jsonRpcErrorCode = -32603;
+      let jsonRpcErrorMessage = "Internal server error during tool execution.";
+      if (error.message?.includes("Access denied")) {
+        jsonRpcErrorCode = -32000;
+        jsonRpcErrorMessage =
+          "Access Denied: Insufficient permissions to use tool.";
+      } else if (error instanceof z.ZodError) {
+        jsonRpcErrorCode = -32602;
+        jsonRpcErrorMessage = "Invalid tool parameters.";
+      } else {
+        jsonRpcErrorMessage = error.message || jsonRpcErrorMessage;
+      }
+      return respond(
+        createJsonRpcErrorResponse(
+          requestId!,
+          jsonRpcErrorCode,
+          jsonRpcErrorMessage,
+          config.server.environment === "development" ? error.stack : undefined
+        ),
+        jsonRpcErrorCode === -32602 ? 400 : 500
+      );
+    } finally {
+      endInFlight();
+      endToolMetricTracker();
+    }
+  }
+}
+
+/**
+ * Dispatches a JSON-RPC batch. Items run concurrently and each item's
+ * failure is isolated to its own response. Notifications produce no response,
+ * so a batch made only of notifications yields an empty array.
+ * @param messages The decoded batch array
+ * @param context Transport-provided context shared by all items
+ */
+export async function dispatchBatch(
+  messages: unknown[],
+  context: DispatchContext
+): Promise<JsonRpcResponse[]> {
+  if (messages.length === 0) {
+    return [
+      createJsonRpcErrorResponse(
+        null,
+        -32600,
+        "Invalid Request: batch must contain at least one message."
+      ),
+    ];
+  }
+  if (!featuresFor(context).batching) {
+    const protocolVersion =
+      lifecycle.get(context.connectionKey)?.protocolVersion ??
+      context.protocolVersion;
+    return [
+      createJsonRpcErrorResponse(
+        null,
+        -32600,
+        `Invalid Request: JSON-RPC batches are not supported in protocol version ${protocolVersion}.`
+      ),
+    ];
+  }
+  if (messages.length > config.mcp.maxBatchSize) {
+    return [
+      createJsonRpcErrorResponse(
+        null,
+        -32600,
+        `Invalid Request: batch exceeds the maximum of ${config.mcp.maxBatchSize} messages.`
+      ),
+    ];
+  }
+
+  dispatcherLogger.debug("Dispatching batch", {
+    size: messages.length,
+    internalRequestId: context.internalRequestId,
+  });
+
+  const results = await Promise.all(
+    messages.map(async (message): Promise<JsonRpcResponse | null> => {
+      const isNotification =
+        typeof message === "object" &&
+        message !== null &&
+        !Array.isArray(message) &&
+        !("id" in message);
+      const id =
+        !isNotification && typeof message === "object" && message !== null
+          ? (message as { id?: JsonRpcId }).id ?? null
+          : null;
+
+      try {
+        if (Array.isArray(message)) {
+          return createJsonRpcErrorResponse(
+            null,
+            -32600,
+            "Invalid Request: nested batches are not allowed."
+          );
+        }
+        const result = await dispatchMessage(message, {
+          ...context,
+          allowStreaming: false,
+        });
+        if (isNotification || result.kind !== "response") {
+          return null;
+        }
+        return result.response;
+      } catch (error: any) {
+        dispatcherLogger.error(
+          "Unhandled error dispatching batch item",
+          error instanceof Error ? error : undefined
+        );
+        return isNotification
+          ? null
+          : createJsonRpcErrorResponse(
+              id,
+              -32603,
+              `Internal error: ${error?.message ?? String(error)}`
+            );
+      }
+    })
+  );
+
+  return results.filter(
+    (response): response is JsonRpcResponse => response !== null
+  );
+}
@@ -0,0 +1,181 @@
+import type { ClientRequestOptions } from "./clientRequests";
+import { clientRequests, ClientRequestError } from "./clientRequests";
+import { getRequestContext } from "./context";
+import { lifecycle } from "./lifecycle";
+import type {
+  ElicitRequestParams,
+  ElicitResult,
+  McpElicitationProperty,
+  McpElicitationSchema,
+} from "./types";
+
+// Timeout used when none is given: the user fills in a form, so this is
+// longer than the default for other client requests
+const DEFAULT_ELICITATION_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Whether the client of a connection declared the `elicitation` capability
+ */
+export function clientSupportsElicitation(connectionKey?: string): boolean {
+  if (!connectionKey) return false;
+  return !!lifecycle.get(connectionKey)?.clientCapabilities?.elicitation;
+}
+
+/**
+ * Whether the request currently being handled can ask its user for input
+ */
+export function canElicit(): boolean {
+  const context = getRequestContext();
+  return (
+    !!context?.sessionId && clientSupportsElicitation(context.connectionKey)
+  );
+}
+
+function checkValue(
+  name: string,
+  schema: McpElicitationProperty,
+  value: unknown
+): string | undefined {
+  switch (schema.type) {
+    case "string":
+      if (typeof value !== "string") return `'${name}' must be a string`;
+      if (schema.enum && !schema.enum.includes(value)) {
+        return `'${name}' must be one of: ${schema.enum.join(", ")}`;
+      }
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        return `'${name}' must be at least ${schema.minLength} characters`;
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        return `'${name}' must be at most ${schema.maxLength} characters`;
+      }
+      return undefined;
+    case "number":
+    case "integer":
+      if (typeof value !== "number" || Number.isNaN(value)) {
+        return `'${name}' must be a number`;
+      }
+      if (schema.type === "integer" && !Number.isInteger(value)) {
+        return `'${name}' must be an integer`;
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        return `'${name}' must be at least ${schema.minimum}`;
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        return `'${name}' must be at most ${schema.maximum}`;
+      }
+      return undefined;
+    case "boolean":
+      return typeof value === "boolean"
+        ? undefined
+        : `'${name}' must be a boolean`;
+  }
+}
+
+/**
+ * Check submitted form content against the requested schema
+ * @returns The content limited to the requested fields
+ * @throws ClientRequestError (-32602) if the content doesn't match
+ */
+export function validateElicitedContent(
+  schema: McpElicitationSchema,
+  content: unknown
+): NonNullable<ElicitResult["content"]> {
+  if (typeof content !== "object" || content === null) {
+    throw new ClientRequestError(
+      "Invalid elicitation response: accepted without content",
+      -32602
+    );
+  }
+  const submitted = content as Record<string, unknown>;
+  const problems: string[] = [];
+  const result: NonNullable<ElicitResult["content"]> = {};
+
+  for (const name of schema.required ?? []) {
+    if (submitted[name] === undefined) problems.push(`'${name}' is required`);
+  }
+  for (const [name, property] of Object.entries(schema.properties)) {
+    const value = submitted[name];
+    if (value === undefined) continue;
+    const problem = checkValue(name, property, value);
+    if (problem) {
+      problems.push(problem);
+    } else {
+      result[name] = value as string | number | boolean;
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new ClientRequestError(
+      `Invalid elicitation response: ${problems.join(", ")}`,
+      -32602,
+      { problems }
+    );
+  }
+  return result;
+}
+
+/**
+ * Ask the user of the connected client for input (`elicitation/create`).
+ * Intended for tool handlers, e.g. to fill in a missing argument or confirm
+ * a destructive operation. Sensitive data must not be requested this way.
+ * @param message What to ask the user
+ * @param requestedSchema The flat form of primitive fields to fill in
+ * @param options Optional timeout (default 10 minutes)
+ * @returns The user's answer, with `content` validated against the schema
+ * when accepted; undefined if the client can't be asked (no session or no
+ * `elicitation` capability), so the tool can fall back to its usual behavior
+ * @throws ClientRequestError if the request fails, times out or the content
+ * doesn't match the schema
+ */
+export async function elicit(
+  message: string,
+  requestedSchema: McpElicitationSchema,
+  options: Pick<ClientRequestOptions, "timeoutMs"> = {}
+): Promise<ElicitResult | undefined> {
+  const context = getRequestContext();
+  if (!context?.sessionId || !canElicit()) {
+    return undefined;
+  }
+
+  const params: ElicitRequestParams = { message, requestedSchema };
+  const result = await clientRequests.request<ElicitResult>(
+    context.sessionId,
+    "elicitation/create",
+    { ...params },
+    {
+      timeoutMs: options.timeoutMs ?? DEFAULT_ELICITATION_TIMEOUT_MS,
+      signal: context.signal,
+    }
+  );
+
+  if (result?.action === "accept") {
+    return {
+      action: "accept",
+      content: validateElicitedContent(requestedSchema, result.content),
+    };
+  }
+  return { action: result?.action === "decline" ? "decline" : "cancel" };
+}
+
+/**
+ * Ask the user to confirm an operation before it is carried out
+ * @param message What is about to happen
+ * @returns true if the user confirmed, false if they refused or dismissed
+ * the question; undefined if the client can't be asked
+ */
+export async function confirm(message: string): Promise<boolean | undefined> {
+  const answer = await elicit(message, {
+    type: "object",
+    properties: {
+      confirm: {
+        type: "boolean",
+        title: "Confirm",
+        description: "Proceed with this operation",
+        default: false,
+      },
+    },
+    required: ["confirm"],
+  });
+  if (!answer) return undefined;
+  return answer.action === "accept" && answer.content?.confirm === true;
+}
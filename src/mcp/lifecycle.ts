@@ -0,0 +1,174 @@
+import { logger } from "../utils/logger";
+import type { McpContentBlock } from "./types";
+
+const lifecycleLogger = logger.child({ component: "lifecycle" });
+
+/**
+ * What a protocol revision allows in the responses we send
+ */
+export interface ProtocolFeatures {
+  // Content block types tool results may contain
+  contentTypes: McpContentBlock["type"][];
+  // Tool `annotations` in tools/list
+  toolAnnotations: boolean;
+  // Tool `outputSchema` and `structuredContent` in results
+  structuredOutput: boolean;
+  // JSON-RPC batch requests
+  batching: boolean;
+}
+
+/**
+ * Protocol revisions this server can speak, newest first.
+ * Responses are shaped to the revision negotiated for each connection.
+ * See: https://modelcontextprotocol.io/specification/2025-06-18/changelog
+ */
+export const PROTOCOL_VERSIONS: Record<string, ProtocolFeatures> = {
+  "2025-06-18": {
+    contentTypes: ["text", "image", "audio", "resource_link", "resource"],
+    toolAnnotations: true,
+    structuredOutput: true,
+    batching: false, // Removed in this revision
+  },
+  "2025-03-26": {
+    contentTypes: ["text", "image", "audio", "resource"],
+    toolAnnotations: true,
+    structuredOutput: false,
+    batching: true,
+  },
+  "2024-11-05": {
+    contentTypes: ["text", "image", "resource"],
+    toolAnnotations: false,
+    structuredOutput: false,
+    batching: false,
+  },
+};
+
+export const SUPPORTED_PROTOCOL_VERSIONS = Object.keys(PROTOCOL_VERSIONS);
+export const LATEST_PROTOCOL_VERSION = SUPPORTED_PROTOCOL_VERSIONS[0];
+
+// Version assumed for a Streamable HTTP request without an
+// `MCP-Protocol-Version` header when none was negotiated (per the spec)
+export const DEFAULT_PROTOCOL_VERSION = "2025-03-26";
+
+// Connections that never negotiated a version (e.g. sessionless /invoke
+// requests) get every feature, as before negotiation existed
+export const UNNEGOTIATED_FEATURES: ProtocolFeatures = {
+  contentTypes: ["text", "image", "audio", "resource_link", "resource"],
+  toolAnnotations: true,
+  structuredOutput: true,
+  batching: true,
+};
+
+/**
+ * Information recorded about a client once it has completed `initialize`.
+ */
+export interface ClientLifecycleState {
+  protocolVersion: string;
+  clientInfo: {
+    name: string;
+    version: string;
+  };
+  clientCapabilities: Record<string, any>;
+  // Set once the client has sent `notifications/initialized`
+  ready: boolean;
+  initializedAt: string;
+}
+
+/**
+ * Picks the protocol version to use for a connection
+ * @returns The client's version when supported, undefined otherwise
+ */
+export function negotiateProtocolVersion(
+  requested: string
+): string | undefined {
+  return SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+    ? requested
+    : undefined;
+}
+
+/**
+ * Tracks the initialization phase per connection.
+ * Connections are identified by an opaque key chosen by the transport.
+ */
+export class LifecycleTracker {
+  private states: Map<string, ClientLifecycleState> = new Map();
+
+  /**
+   * Record a successful `initialize` exchange for a connection
+   * @param connectionKey The connection identifier
+   * @param state The negotiated details (without `ready`/`initializedAt`)
+   */
+  initialize(
+    connectionKey: string,
+    state: Omit<ClientLifecycleState, "ready" | "initializedAt">
+  ): ClientLifecycleState {
+    const newState: ClientLifecycleState = {
+      ...state,
+      ready: false,
+      initializedAt: new Date().toISOString(),
+    };
+    this.states.set(connectionKey, newState);
+    lifecycleLogger.debug("Connection initialized", {
+      connectionKey,
+      protocolVersion: state.protocolVersion,
+      client: state.clientInfo.name,
+    });
+    return newState;
+  }
+
+  /**
+   * Mark a connection as ready after `notifications/initialized`
+   * @returns true if the connection had been initialized, false otherwise
+   */
+  markReady(connectionKey: string): boolean {
+    const state = this.states.get(connectionKey);
+    if (!state) {
+      lifecycleLogger.warn(
+        "Received initialized notification for unknown connection",
+        { connectionKey }
+      );
+      return false;
+    }
+    state.ready = true;
+    return true;
+  }
+
+  /**
+   * Check whether `initialize` has completed for a connection
+   */
+  isInitialized(connectionKey: string): boolean {
+    return this.states.has(connectionKey);
+  }
+
+  /**
+   * Get the recorded lifecycle state for a connection
+   */
+  get(connectionKey: string): ClientLifecycleState | undefined {
+    return this.states.get(connectionKey);
+  }
+
+  /**
+   * Get the features of the protocol version negotiated for a connection.
+   * Connections that haven't negotiated one get the features of
+   * `assumedVersion` (e.g. from a transport header), or every feature.
+   */
+  featuresOf(
+    connectionKey?: string,
+    assumedVersion?: string
+  ): ProtocolFeatures {
+    const version =
+      (connectionKey && this.states.get(connectionKey)?.protocolVersion) ||
+      assumedVersion;
+    return (version && PROTOCOL_VERSIONS[version]) || UNNEGOTIATED_FEATURES;
+  }
+
+  /**
+   * Forget a connection (e.g. on shutdown or disconnect)
+   */
+  reset(connectionKey: string): boolean {
+    return this.states.delete(connectionKey);
+  }
+}
+
+// Shared tracker used by all transports
+export const lifecycle = new LifecycleTracker();
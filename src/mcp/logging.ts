@@ -0,0 +1,96 @@
+import { sessions } from "../session";
+import type { JsonRpcNotification } from "../types/json-rpc";
+import type { LogLevel, LogRecord } from "../utils/logger";
+import { addLogSink } from "../utils/logger";
+import { redactSecrets } from "../utils/redact";
+import { getRequestContext } from "./context";
+import type { McpLogLevel } from "./types";
+import { MCP_LOG_LEVELS } from "./types";
+
+/**
+ * MCP logging: clients pick a minimum level per session with
+ * `logging/setLevel`, and log output of tool loggers (children created with a
+ * `tool` context key) is forwarded to them as `notifications/message`.
+ * Based on: https://modelcontextprotocol.io/specification/2025-03-26/server/utilities/logging
+ */
+
+const FROM_LOG_LEVEL: Record<LogLevel, McpLogLevel> = {
+  debug: "debug",
+  info: "info",
+  warn: "warning",
+  error: "error",
+};
+
+function severity(level: McpLogLevel): number {
+  return MCP_LOG_LEVELS.indexOf(level);
+}
+
+/**
+ * Build a `notifications/message` notification
+ */
+export function createLogNotification(
+  level: McpLogLevel,
+  loggerName: string,
+  data: unknown
+): JsonRpcNotification {
+  return {
+    jsonrpc: "2.0",
+    method: "notifications/message",
+    params: { level, logger: loggerName, data },
+  };
+}
+
+// Session data key holding the level a session asked for
+const LOG_LEVEL_KEY = "logLevel";
+
+/**
+ * Keeps the log level each session asked for in its session data and forwards
+ * tool log records to the session of the request they were logged in.
+ * Sessions that never called `logging/setLevel` receive nothing.
+ */
+export class LogForwarder {
+  /**
+   * @returns false if the session does not exist
+   */
+  setLevel(sessionId: string, level: McpLogLevel): Promise<boolean> {
+    return sessions.setData(sessionId, LOG_LEVEL_KEY, level);
+  }
+
+  async getLevel(sessionId: string): Promise<McpLogLevel | undefined> {
+    const session = await sessions.get(sessionId);
+    return session?.data[LOG_LEVEL_KEY] as McpLogLevel | undefined;
+  }
+
+  /**
+   * Forward a log record if it came from a tool logger while handling a
+   * request of a session whose level lets it through.
+   * The level is read from the session as it was when the request arrived.
+   */
+  forward(record: LogRecord): void {
+    const loggerName = record.context.tool;
+    if (typeof loggerName !== "string") return;
+
+    const context = getRequestContext();
+    const session = context?.session;
+    if (!session) return;
+
+    const minLevel = session.data[LOG_LEVEL_KEY] as McpLogLevel | undefined;
+    const level = FROM_LOG_LEVEL[record.level];
+    if (!minLevel || severity(level) < severity(minLevel)) return;
+
+    const notification = createLogNotification(
+      level,
+      loggerName,
+      redactSecrets({ message: record.message, ...record.data })
+    );
+    if (context.notify) {
+      context.notify(notification);
+    } else {
+      sessions.sendTo(session.id, notification);
+    }
+  }
+}
+
+// Creates a global shared forwarder fed by every logger
+export const logForwarder = new LogForwarder();
+addLogSink((record) => logForwarder.forward(record));
@@ -0,0 +1,92 @@
+import { logger } from "../utils/logger";
+import type { DispatchContext } from "./dispatcher";
+
+const notificationLogger = logger.child({ component: "notification-router" });
+
+/**
+ * Handler for an incoming JSON-RPC notification.
+ * Notifications never produce a response, so handlers return nothing.
+ */
+export type NotificationHandler = (
+  params: Record<string, any>,
+  context: DispatchContext
+) => void | Promise<void>;
+
+/**
+ * Routes client notifications (`notifications/*`) to the modules
+ * that registered interest in them.
+ */
+export class NotificationRouter {
+  private handlers: Map<string, NotificationHandler[]> = new Map();
+
+  /**
+   * Register a handler for a notification method
+   * @param method The notification method (e.g. "notifications/initialized")
+   * @param handler The function to run when the notification arrives
+   * @returns A function that removes the handler again
+   */
+  register(method: string, handler: NotificationHandler): () => void {
+    const handlers = this.handlers.get(method) ?? [];
+    handlers.push(handler);
+    this.handlers.set(method, handlers);
+
+    return () => {
+      const current = this.handlers.get(method);
+      if (!current) return;
+      const remaining = current.filter((h) => h !== handler);
+      if (remaining.length > 0) {
+        this.handlers.set(method, remaining);
+      } else {
+        this.handlers.delete(method);
+      }
+    };
+  }
+
+  /**
+   * Check whether any handler is registered for a method
+   */
+  hasHandler(method: string): boolean {
+    return this.handlers.has(method);
+  }
+
+  /**
+   * Run every handler registered for a notification.
+   * Handler failures are logged and never propagated to the sender.
+   * @returns true if at least one handler was registered for the method
+   */
+  async route(
+    method: string,
+    params: Record<string, any>,
+    context: DispatchContext
+  ): Promise<boolean> {
+    const handlers = this.handlers.get(method);
+    if (!handlers) {
+      notificationLogger.debug("Ignoring unhandled notification", { method });
+      return false;
+    }
+
+    await Promise.all(
+      handlers.map(async (handler) => {
+        try {
+          await handler(params, context);
+        } catch (error) {
+          notificationLogger.error(
+            `Notification handler for '${method}' failed`,
+            error instanceof Error ? error : undefined
+          );
+        }
+      })
+    );
+    return true;
+  }
+}
+
+// Creates a global shared instance of the notification router
+export const notificationRouter = new NotificationRouter();
+
+export function registerNotificationHandler(
+  method: string,
+  handler: NotificationHandler
+): () => void {
+  return notificationRouter.register(method, handler);
+}
@@ -0,0 +1,82 @@
+import { config } from "../utils/config";
+
+/**
+ * Raised for a cursor that wasn't issued by this server for the same list
+ * (reported as JSON-RPC error -32602)
+ */
+export class InvalidCursorError extends Error {
+  public readonly code = -32602;
+
+  constructor() {
+    super("Invalid params: invalid cursor");
+    this.name = "InvalidCursorError";
+    Object.setPrototypeOf(this, InvalidCursorError.prototype);
+  }
+}
+
+export interface Page<T> {
+  items: T[];
+  nextCursor?: string;
+}
+
+interface CursorData {
+  list: string;
+  after: string;
+}
+
+function encodeCursor(data: CursorData): string {
+  return Buffer.from(JSON.stringify(data)).toString("base64url");
+}
+
+function decodeCursor(list: string, cursor: string): string {
+  let data: Partial<CursorData>;
+  try {
+    data = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new InvalidCursorError();
+  }
+  if (data?.list !== list || typeof data.after !== "string") {
+    throw new InvalidCursorError();
+  }
+  return data.after;
+}
+
+const compareKeys = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+/**
+ * Returns one page of a list, ordered by a unique key.
+ * Cursors are opaque to clients and hold the key of the last item returned,
+ * not an offset, so paging stays consistent while items are added or
+ * removed: nothing is repeated and items present throughout are all
+ * returned, but items added before the cursor's key are not seen.
+ * @param items All items of the list
+ * @param keyOf The key to order and resume by (e.g. tool name, resource URI)
+ * @param list Name of the list (e.g. "tools"); cursors only work for their own list
+ * @param cursor The cursor of the previous page, if any
+ * @param pageSize Maximum number of items per page
+ * @returns The page, with `nextCursor` when more items follow
+ * @throws InvalidCursorError if the cursor can't be used for this list
+ */
+export function paginate<T>(
+  items: T[],
+  keyOf: (item: T) => string,
+  list: string,
+  cursor?: string,
+  pageSize: number = config.mcp.pageSize
+): Page<T> {
+  const after = cursor === undefined ? undefined : decodeCursor(list, cursor);
+  const sorted = [...items].sort((a, b) => compareKeys(keyOf(a), keyOf(b)));
+  const remaining =
+    after === undefined
+      ? sorted
+      : sorted.filter((item) => compareKeys(keyOf(item), after) > 0);
+
+  if (pageSize <= 0 || remaining.length <= pageSize) {
+    return { items: remaining };
+  }
+  const page = remaining.slice(0, pageSize);
+  return {
+    items: page,
+    nextCursor: encodeCursor({ list, after: keyOf(page[page.length - 1]) }),
+  };
+}
@@ -0,0 +1,76 @@
+import type { JsonRpcNotification } from "../types/json-rpc";
+import { logger } from "../utils/logger";
+import { getRequestContext } from "./context";
+
+const progressLogger = logger.child({ component: "progress" });
+
+export type ProgressToken = string | number;
+
+/**
+ * One progress report from a running request.
+ * See: https://modelcontextprotocol.io/specification/2025-03-26/basic/utilities/progress
+ */
+export interface ProgressUpdate {
+  // Must increase with every report, even if the total is unknown
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+export type ProgressReporter = (update: ProgressUpdate) => void;
+
+/**
+ * Builds the `notifications/progress` message for a token
+ */
+export function createProgressNotification(
+  progressToken: ProgressToken,
+  update: ProgressUpdate
+): JsonRpcNotification {
+  return {
+    jsonrpc: "2.0",
+    method: "notifications/progress",
+    params: { progressToken, ...update },
+  };
+}
+
+/**
+ * Wraps an emitter so that only increasing progress values are delivered
+ */
+export function createProgressReporter(
+  emit: (update: ProgressUpdate) => void
+): ProgressReporter {
+  let last = -Infinity;
+  return (update) => {
+    if (!(update.progress > last)) {
+      progressLogger.debug("Dropping non-increasing progress report", {
+        progress: update.progress,
+        last,
+      });
+      return;
+    }
+    last = update.progress;
+    emit(update);
+  };
+}
+
+/**
+ * Report progress for the request currently being handled.
+ * Sends `notifications/progress` when the client supplied a `progressToken`,
+ * or a partial chunk on legacy JSONL streams; otherwise does nothing.
+ * @param progress Current progress; must increase with every call
+ * @param total Total amount of work, if known
+ * @param message Optional human-readable status
+ * @returns true if the report was delivered somewhere
+ */
+export function reportProgress(
+  progress: number,
+  total?: number,
+  message?: string
+): boolean {
+  const reporter = getRequestContext()?.progress;
+  if (!reporter) {
+    return false;
+  }
+  reporter({ progress, total, message });
+  return true;
+}
@@ -0,0 +1,159 @@
+import { changeEvents } from "../events";
+import { sessions } from "../session";
+import type { ChangeEvent } from "../types/events";
+import type { Session } from "../types/session";
+import { logger } from "../utils/logger";
+
+const subscriptionLogger = logger.child({
+  component: "resource-subscriptions",
+});
+
+/**
+ * Starts watching a resource for changes on behalf of its subscribers.
+ * Returns a function that stops watching again.
+ */
+export type ResourceWatchStarter = () => () => void;
+
+// Session data key holding the URIs a session subscribed to
+const SUBSCRIPTIONS_KEY = "resourceSubscriptions";
+
+function subscribedUris(session: Session): string[] {
+  return (session.data[SUBSCRIPTIONS_KEY] as string[] | undefined) ?? [];
+}
+
+/**
+ * Keeps the resource URIs each session subscribed to in its session data and
+ * turns change events into `notifications/resources/updated` and
+ * `notifications/resources/list_changed` for their clients.
+ * Watchers run in this process and are shared by its sessions.
+ */
+export class ResourceSubscriptions {
+  private watchers: Map<string, { stop: () => void; sessionIds: Set<string> }> =
+    new Map();
+
+  /**
+   * Subscribe a session to updates of a resource
+   * @param watch Starts a watcher for resources that need one to notice changes;
+   *   called for the first subscriber of a URI only
+   * @returns false if the session does not exist
+   */
+  async subscribe(
+    sessionId: string,
+    uri: string,
+    watch?: ResourceWatchStarter
+  ): Promise<boolean> {
+    const session = await sessions.update(sessionId, (session) => {
+      const uris = subscribedUris(session);
+      if (!uris.includes(uri)) {
+        session.data[SUBSCRIPTIONS_KEY] = [...uris, uri];
+      }
+    });
+    if (!session) return false;
+    if (watch) this.retainWatcher(sessionId, uri, watch);
+    return true;
+  }
+
+  /**
+   * Remove a session's subscription to a resource
+   * @returns false if the session was not subscribed
+   */
+  async unsubscribe(sessionId: string, uri: string): Promise<boolean> {
+    let removed = false;
+    await sessions.update(sessionId, (session) => {
+      const uris = subscribedUris(session);
+      removed = uris.includes(uri);
+      session.data[SUBSCRIPTIONS_KEY] = uris.filter((other) => other !== uri);
+    });
+    this.releaseWatcher(sessionId, uri);
+    return removed;
+  }
+
+  /**
+   * Stop the watchers held for a session that ended; its subscriptions end
+   * with its session data
+   */
+  releaseAll(sessionId: string): void {
+    for (const uri of [...this.watchers.keys()]) {
+      this.releaseWatcher(sessionId, uri);
+    }
+  }
+
+  /**
+   * Get the IDs of the sessions connected to this process that subscribed to
+   * a resource
+   */
+  async subscribersOf(uri: string): Promise<string[]> {
+    const subscribers: string[] = [];
+    for (const sessionId of sessions.connectedIds()) {
+      const session = await sessions.get(sessionId);
+      if (session && subscribedUris(session).includes(uri)) {
+        subscribers.push(sessionId);
+      }
+    }
+    return subscribers;
+  }
+
+  /**
+   * Notify the clients affected by a change event
+   */
+  async handleChange(event: ChangeEvent): Promise<void> {
+    switch (event.type) {
+      case "resource_updated":
+        for (const sessionId of await this.subscribersOf(event.uri)) {
+          sessions.sendTo(sessionId, {
+            jsonrpc: "2.0",
+            method: "notifications/resources/updated",
+            params: { uri: event.uri },
+          });
+        }
+        return;
+      case "resource_list_changed":
+        sessions.broadcast({
+          jsonrpc: "2.0",
+          method: "notifications/resources/list_changed",
+        });
+        return;
+    }
+  }
+
+  private retainWatcher(
+    sessionId: string,
+    uri: string,
+    watch: ResourceWatchStarter
+  ) {
+    const watcher = this.watchers.get(uri);
+    if (watcher) {
+      watcher.sessionIds.add(sessionId);
+      return;
+    }
+    try {
+      this.watchers.set(uri, {
+        stop: watch(),
+        sessionIds: new Set([sessionId]),
+      });
+    } catch (error) {
+      subscriptionLogger.warn("Could not watch resource for changes", {
+        uri,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private releaseWatcher(sessionId: string, uri: string) {
+    const watcher = this.watchers.get(uri);
+    if (!watcher?.sessionIds.delete(sessionId) || watcher.sessionIds.size > 0) {
+      return;
+    }
+    this.watchers.delete(uri);
+    try {
+      watcher.stop();
+    } catch (error) {
+      subscriptionLogger.warn("Failed to stop resource watcher", { uri });
+    }
+  }
+}
+
+// Creates a global shared subscription tracker fed by the change event bus
+export const resourceSubscriptions = new ResourceSubscriptions();
+changeEvents.subscribe((event) => resourceSubscriptions.handleChange(event));
+sessions.onEnd((session) => resourceSubscriptions.releaseAll(session.id));
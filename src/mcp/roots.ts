@@ -0,0 +1,134 @@
+import path from "path";
+import { fileURLToPath } from "url";
+import { sessions } from "../session";
+import { logger } from "../utils/logger";
+import { clientRequests } from "./clientRequests";
+import { getRequestContext } from "./context";
+import { lifecycle } from "./lifecycle";
+import { registerNotificationHandler } from "./notifications";
+import type { ListRootsResult, McpRoot } from "./types";
+
+const rootsLogger = logger.child({ component: "client-roots" });
+
+/**
+ * Whether the client of a connection declared the `roots` capability
+ */
+export function clientSupportsRoots(connectionKey?: string): boolean {
+  if (!connectionKey) return false;
+  return !!lifecycle.get(connectionKey)?.clientCapabilities?.roots;
+}
+
+/**
+ * Converts roots to absolute file system paths; non-file roots are dropped
+ */
+export function toRootPaths(roots: McpRoot[]): string[] {
+  const paths: string[] = [];
+  for (const root of roots) {
+    try {
+      if (root.uri.startsWith("file:")) {
+        paths.push(path.resolve(fileURLToPath(root.uri)));
+      }
+    } catch (error) {
+      rootsLogger.warn("Ignoring malformed root URI", { uri: root.uri });
+    }
+  }
+  return paths;
+}
+
+// Session data key holding the roots last fetched from the client
+const ROOTS_KEY = "roots";
+
+/**
+ * Keeps each session's roots in its session data, fetched from its client
+ * with `roots/list` on first use and again after
+ * `notifications/roots/list_changed`.
+ */
+export class ClientRoots {
+  // Fetches in flight in this process, so concurrent uses ask only once
+  private pending: Map<string, Promise<McpRoot[]>> = new Map();
+
+  /**
+   * Get the roots of a session's client
+   * @throws ClientRequestError if the client can't be asked or fails to answer
+   */
+  async get(sessionId: string): Promise<McpRoot[]> {
+    const session = await sessions.get(sessionId);
+    const stored = session?.data[ROOTS_KEY] as McpRoot[] | undefined;
+    if (stored) return stored;
+    return this.pending.get(sessionId) ?? this.fetch(sessionId);
+  }
+
+  /**
+   * Forget a session's roots so the next use fetches them again
+   */
+  async invalidate(sessionId: string): Promise<void> {
+    this.pending.delete(sessionId);
+    await sessions.setData(sessionId, ROOTS_KEY, undefined);
+  }
+
+  private fetch(sessionId: string): Promise<McpRoot[]> {
+    const roots: Promise<McpRoot[]> = clientRequests
+      .request<ListRootsResult>(sessionId, "roots/list", {})
+      .then(async (result) => {
+        const fetched = Array.isArray(result?.roots) ? result.roots : [];
+        // Roots invalidated while being fetched are not stored
+        await sessions.update(sessionId, (session) => {
+          if (this.pending.get(sessionId) === roots) {
+            session.data[ROOTS_KEY] = fetched;
+          }
+        });
+        return fetched;
+      })
+      .finally(() => {
+        if (this.pending.get(sessionId) === roots) {
+          this.pending.delete(sessionId);
+        }
+      });
+    this.pending.set(sessionId, roots);
+    return roots;
+  }
+}
+
+// Creates a global shared instance; stored roots end with their session
+export const clientRoots = new ClientRoots();
+sessions.onEnd((session) => clientRoots.invalidate(session.id));
+
+registerNotificationHandler(
+  "notifications/roots/list_changed",
+  async (_params, context) => {
+    if (context.sessionId) {
+      rootsLogger.debug("Client roots changed", {
+        sessionId: context.sessionId,
+      });
+      await clientRoots.invalidate(context.sessionId);
+    }
+  }
+);
+
+/**
+ * Get the file system roots that limit the request currently being handled.
+ * @returns Absolute root paths, or undefined when the request is not limited
+ * (no session, or a client without the `roots` capability)
+ * @throws ClientRequestError if the client's roots can't be fetched
+ */
+export async function getCurrentRootPaths(): Promise<string[] | undefined> {
+  const context = getRequestContext();
+  if (!context?.sessionId || !clientSupportsRoots(context.connectionKey)) {
+    return undefined;
+  }
+  return toRootPaths(await clientRoots.get(context.sessionId));
+}
+
+/**
+ * Whether an absolute path lies inside (or is) one of the given roots
+ */
+export function isWithinRoots(
+  targetPath: string,
+  rootPaths: string[]
+): boolean {
+  return rootPaths.some(
+    (root) =>
+      targetPath === root ||
+      targetPath.startsWith(root.endsWith(path.sep) ? root : root + path.sep)
+  );
+}
@@ -0,0 +1,53 @@
+import type { ClientRequestOptions } from "./clientRequests";
+import {
+  CLIENT_UNREACHABLE,
+  clientRequests,
+  ClientRequestError,
+} from "./clientRequests";
+import { getRequestContext } from "./context";
+import { lifecycle } from "./lifecycle";
+import type { CreateMessageRequestParams, CreateMessageResult } from "./types";
+
+/**
+ * Whether the client of a connection declared the `sampling` capability
+ */
+export function clientSupportsSampling(connectionKey?: string): boolean {
+  if (!connectionKey) return false;
+  return !!lifecycle.get(connectionKey)?.clientCapabilities?.sampling;
+}
+
+/**
+ * Ask the connected client's model for a completion (`sampling/createMessage`).
+ * Intended for tool handlers: the request goes to the session of the call
+ * being handled, and is abandoned when that call is cancelled.
+ * The client may show the request to its user, change it or refuse it.
+ * @param params Messages, token limit and optional model preferences
+ * @param options Optional timeout (default `MCP_CLIENT_REQUEST_TIMEOUT_MS`)
+ * @returns The client's sampled message
+ * @throws ClientRequestError if the client can't sample, refuses or times out
+ */
+export async function createMessage(
+  params: CreateMessageRequestParams,
+  options: Pick<ClientRequestOptions, "timeoutMs"> = {}
+): Promise<CreateMessageResult> {
+  const context = getRequestContext();
+  if (!context?.sessionId) {
+    throw new ClientRequestError(
+      "Sampling requires a session (use /mcp or STDIO).",
+      CLIENT_UNREACHABLE
+    );
+  }
+  if (!clientSupportsSampling(context.connectionKey)) {
+    throw new ClientRequestError(
+      "The client does not support sampling.",
+      CLIENT_UNREACHABLE
+    );
+  }
+
+  return clientRequests.request<CreateMessageResult>(
+    context.sessionId,
+    "sampling/createMessage",
+    { ...params },
+    { timeoutMs: options.timeoutMs, signal: context.signal }
+  );
+}
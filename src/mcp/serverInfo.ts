@@ -0,0 +1,34 @@
+import { toolRegistry } from "../registry";
+import type { MCPServerInfo } from "../types/mcp";
+import { LATEST_PROTOCOL_VERSION } from "./lifecycle";
+
+/**
+ * Builds the server description used for discovery (`GET /`, `/docs`)
+ * and as the source of `serverInfo`/`capabilities` during `initialize`.
+ */
+export const getServerInfo = (): MCPServerInfo => ({
+  name: "hyperion-mcp",
+  version: "0.1.0",
+  description:
+    "High-performance Model Context Protocol (MCP) server built with Node.js and Hono",
+  vendor: "hyperion-mcp",
+  contact: "https://github.com/hyperion-mcp",
+  specs: {
+    mcp: LATEST_PROTOCOL_VERSION,
+  },
+  capabilities: {
+    tools: {
+      listChanged: true,
+    },
+    resources: {
+      subscribe: true,
+      listChanged: true,
+    },
+    prompts: {
+      listChanged: false,
+    },
+    logging: {},
+    completions: {},
+  },
+  tools: toolRegistry.getAllTools(),
+});
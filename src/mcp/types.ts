@@ -16,6 +16,18 @@ export interface McpResource {
   mimeType?: string; // Optional MIME type (e.g., "text/plain", "application/pdf")
 }
 
+/**
+ * Describes a family of resources addressed by an RFC 6570 URI template
+ * (e.g., tasks://{id}).
+ * Based on: https://modelcontextprotocol.io/specification/2025-03-26/server/resources#resource-templates
+ */
+export interface McpResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
 /**
  * Represents the content of a resource read via MCP.
  * Based on: https://spec.modelcontextprotocol.io/specification/latest/feature/resources/
@@ -29,24 +41,72 @@ export interface McpResourceContent {
   blob?: string; // For binary resources (base64 encoded)
 }
 
+// --- Pagination ---
+// Based on: https://modelcontextprotocol.io/specification/2025-03-26/server/utilities/pagination
+
+// List requests take the opaque `nextCursor` of the previous page
+export const PaginatedRequestSchema = z
+  .object({
+    cursor: z.string().optional(),
+  })
+  .optional()
+  .default({});
+
+// --- Request/Response Structures for Lifecycle Methods ---
+
+// initialize
+export const InitializeRequestSchema = z.object({
+  protocolVersion: z.string().min(1, "protocolVersion is required"),
+  capabilities: z.record(z.any()).optional().default({}),
+  clientInfo: z.object({
+    name: z.string(),
+    version: z.string(),
+  }),
+});
+export type InitializeRequestParams = z.infer<typeof InitializeRequestSchema>;
+
+export interface InitializeResponseResult {
+  protocolVersion: string;
+  capabilities: McpCapabilities;
+  serverInfo: {
+    name: string;
+    version: string;
+  };
+  instructions?: string;
+}
+export type InitializeResponse = JsonRpcResponse<InitializeResponseResult>;
+
+// ping
+export type PingResponse = JsonRpcResponse<Record<string, never>>;
+
 // --- Request/Response Structures for Resource Methods ---
 
 // resources/list
-export const ListResourcesRequestSchema = z.object({
-  // No parameters expected for list request
-});
+export const ListResourcesRequestSchema = PaginatedRequestSchema;
 export type ListResourcesRequestParams = z.infer<
   typeof ListResourcesRequestSchema
 >;
 
 export interface ListResourcesResponseResult {
   resources: McpResource[];
-  // TODO: Add support for resourceTemplates if needed later
-  // resourceTemplates?: McpResourceTemplate[];
+  nextCursor?: string;
 }
 export type ListResourcesResponse =
   JsonRpcResponse<ListResourcesResponseResult>;
 
+// resources/templates/list
+export const ListResourceTemplatesRequestSchema = PaginatedRequestSchema;
+export type ListResourceTemplatesRequestParams = z.infer<
+  typeof ListResourceTemplatesRequestSchema
+>;
+
+export interface ListResourceTemplatesResponseResult {
+  resourceTemplates: McpResourceTemplate[];
+  nextCursor?: string;
+}
+export type ListResourceTemplatesResponse =
+  JsonRpcResponse<ListResourceTemplatesResponseResult>;
+
 // resources/read
 export const ReadResourceRequestSchema = z.object({
   uri: z.string().url(), // Validate that the uri is a string (basic validation)
@@ -60,12 +120,269 @@ export interface ReadResourceResponseResult {
 }
 export type ReadResourceResponse = JsonRpcResponse<ReadResourceResponseResult>;
 
+// resources/subscribe, resources/unsubscribe
+export const SubscribeResourceRequestSchema = z.object({
+  uri: z.string().url(),
+});
+export type SubscribeResourceRequestParams = z.infer<
+  typeof SubscribeResourceRequestSchema
+>;
+export const UnsubscribeResourceRequestSchema = SubscribeResourceRequestSchema;
+export type UnsubscribeResourceRequestParams = SubscribeResourceRequestParams;
+
+export type SubscribeResourceResponse = JsonRpcResponse<Record<string, never>>;
+
+// --- Request/Response Structures for Tool Methods ---
+
+// tools/list
+export const ListToolsRequestSchema = PaginatedRequestSchema;
+export type ListToolsRequestParams = z.infer<typeof ListToolsRequestSchema>;
+
+export interface ListToolsResponseResult {
+  tools: McpTool[];
+  nextCursor?: string;
+}
+export type ListToolsResponse = JsonRpcResponse<ListToolsResponseResult>;
+
+// tools/call
+export const RequestMetaSchema = z
+  .object({
+    progressToken: z.union([z.string(), z.number()]).optional(),
+  })
+  .passthrough();
+
+export const CallToolRequestSchema = z.object({
+  name: z.string().min(1, "Tool name is required"),
+  arguments: z.record(z.any()).optional().default({}),
+  _meta: RequestMetaSchema.optional(),
+});
+export type CallToolRequestParams = z.infer<typeof CallToolRequestSchema>;
+
+export type CallToolResponse = JsonRpcResponse<McpToolResult>;
+
+// --- Request/Response Structures for Prompt Methods ---
+
+/**
+ * Describes an argument a prompt accepts. Argument values are always strings.
+ * Based on: https://modelcontextprotocol.io/specification/2025-03-26/server/prompts
+ */
+export interface McpPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface McpPrompt {
+  name: string;
+  description?: string;
+  arguments?: McpPromptArgument[];
+}
+
+export type McpPromptContent =
+  | { type: "text"; text: string }
+  | { type: "image"; data: string; mimeType: string }
+  | { type: "resource"; resource: McpResourceContent };
+
+export interface McpPromptMessage {
+  role: "user" | "assistant";
+  content: McpPromptContent;
+}
+
+// prompts/list
+export const ListPromptsRequestSchema = PaginatedRequestSchema;
+export type ListPromptsRequestParams = z.infer<typeof ListPromptsRequestSchema>;
+
+export interface ListPromptsResponseResult {
+  prompts: McpPrompt[];
+  nextCursor?: string;
+}
+export type ListPromptsResponse = JsonRpcResponse<ListPromptsResponseResult>;
+
+// prompts/get
+export const GetPromptRequestSchema = z.object({
+  name: z.string().min(1, "Prompt name is required"),
+  arguments: z.record(z.string()).optional().default({}),
+});
+export type GetPromptRequestParams = z.infer<typeof GetPromptRequestSchema>;
+
+export interface GetPromptResponseResult {
+  description?: string;
+  messages: McpPromptMessage[];
+}
+export type GetPromptResponse = JsonRpcResponse<GetPromptResponseResult>;
+
+// --- Server-Initiated Sampling ---
+// Based on: https://modelcontextprotocol.io/specification/2025-03-26/client/sampling
+
+export type McpSamplingContent =
+  | { type: "text"; text: string }
+  | { type: "image"; data: string; mimeType: string }
+  | { type: "audio"; data: string; mimeType: string };
+
+export interface McpSamplingMessage {
+  role: "user" | "assistant";
+  content: McpSamplingContent;
+}
+
+/**
+ * Hints for the client's model selection. Priorities range from 0 to 1;
+ * hint names are matched loosely (e.g. "claude-3-sonnet", "sonnet").
+ */
+export interface McpModelPreferences {
+  hints?: { name?: string }[];
+  costPriority?: number;
+  speedPriority?: number;
+  intelligencePriority?: number;
+}
+
+// sampling/createMessage (sent by the server)
+export interface CreateMessageRequestParams {
+  messages: McpSamplingMessage[];
+  maxTokens: number;
+  modelPreferences?: McpModelPreferences;
+  systemPrompt?: string;
+  includeContext?: "none" | "thisServer" | "allServers";
+  temperature?: number;
+  stopSequences?: string[];
+  metadata?: Record<string, unknown>;
+}
+
+export interface CreateMessageResult {
+  role: "user" | "assistant";
+  content: McpSamplingContent;
+  model: string;
+  stopReason?: "endTurn" | "stopSequence" | "maxTokens" | string;
+}
+
+// --- Client Roots ---
+// Based on: https://modelcontextprotocol.io/specification/2025-03-26/client/roots
+
+/**
+ * A location the client allows the server to work in (e.g. file:///home/me/project)
+ */
+export interface McpRoot {
+  uri: string;
+  name?: string;
+}
+
+// roots/list (sent by the server)
+export interface ListRootsResult {
+  roots: McpRoot[];
+}
+
+// --- Elicitation ---
+// Based on: https://modelcontextprotocol.io/specification/2025-06-18/client/elicitation
+
+/**
+ * Schema of one requested field. Elicitation only supports flat objects of
+ * primitive fields, so clients can render them as a simple form.
+ */
+export type McpElicitationProperty =
+  | {
+      type: "string";
+      title?: string;
+      description?: string;
+      minLength?: number;
+      maxLength?: number;
+      format?: "email" | "uri" | "date" | "date-time";
+      enum?: string[];
+      enumNames?: string[];
+    }
+  | {
+      type: "number" | "integer";
+      title?: string;
+      description?: string;
+      minimum?: number;
+      maximum?: number;
+    }
+  | {
+      type: "boolean";
+      title?: string;
+      description?: string;
+      default?: boolean;
+    };
+
+export interface McpElicitationSchema {
+  type: "object";
+  properties: Record<string, McpElicitationProperty>;
+  required?: string[];
+}
+
+// elicitation/create (sent by the server)
+export interface ElicitRequestParams {
+  message: string;
+  requestedSchema: McpElicitationSchema;
+}
+
+export interface ElicitResult {
+  // accept: submitted the form, decline: refused, cancel: dismissed it
+  action: "accept" | "decline" | "cancel";
+  content?: Record<string, string | number | boolean>;
+}
+
+// --- Request/Response Structures for Completion ---
+
+// completion/complete
+// `ref/tool` is an extension of this server for completing tool arguments
+export const CompleteRequestSchema = z.object({
+  ref: z.discriminatedUnion("type", [
+    z.object({ type: z.literal("ref/prompt"), name: z.string().min(1) }),
+    z.object({ type: z.literal("ref/resource"), uri: z.string().min(1) }),
+    z.object({ type: z.literal("ref/tool"), name: z.string().min(1) }),
+  ]),
+  argument: z.object({
+    name: z.string().min(1, "Argument name is required"),
+    value: z.string(),
+  }),
+  context: z
+    .object({
+      arguments: z.record(z.string()).optional().default({}),
+    })
+    .optional()
+    .default({}),
+});
+export type CompleteRequestParams = z.infer<typeof CompleteRequestSchema>;
+
+export interface CompleteResponseResult {
+  completion: {
+    values: string[]; // At most 100 values
+    total?: number;
+    hasMore?: boolean;
+  };
+}
+export type CompleteResponse = JsonRpcResponse<CompleteResponseResult>;
+
+// --- Request/Response Structures for Logging ---
+
+// Syslog severities (RFC 5424), from least to most severe
+export const MCP_LOG_LEVELS = [
+  "debug",
+  "info",
+  "notice",
+  "warning",
+  "error",
+  "critical",
+  "alert",
+  "emergency",
+] as const;
+export type McpLogLevel = (typeof MCP_LOG_LEVELS)[number];
+
+// logging/setLevel
+export const SetLogLevelRequestSchema = z.object({
+  level: z.enum(MCP_LOG_LEVELS),
+});
+export type SetLogLevelRequestParams = z.infer<typeof SetLogLevelRequestSchema>;
+
+export type SetLogLevelResponse = JsonRpcResponse<Record<string, never>>;
+
 // --- General MCP Capability Type ---
 // Placeholder - This will likely expand
 export interface McpCapabilities {
   resources?: Record<string, unknown>; // Presence indicates support, value could hold options
   tools?: Record<string, unknown>; // Existing capability
-  // prompts?: Record<string, unknown>; // Future capability
+  prompts?: Record<string, unknown>;
+  logging?: Record<string, unknown>;
+  completions?: Record<string, unknown>;
 }
 
 //TODO: Refactor to use JSON Schema types
@@ -74,22 +391,89 @@ export type McpHandler<ParamsSchema extends z.ZodTypeAny, Result> = (
   requestId: JsonRpcId
 ) => Promise<JsonRpcResponse<Result> | JsonRpcErrorResponse>;
 
+/**
+ * Hints about a tool's behavior, used by clients e.g. to decide when to ask
+ * the user for confirmation. They are not guarantees.
+ * Based on: https://modelcontextprotocol.io/specification/2025-03-26/server/tools#tool-annotations
+ */
+export interface McpToolAnnotations {
+  title?: string; // Human-readable name for display
+  readOnlyHint?: boolean; // Does not modify its environment (default: false)
+  destructiveHint?: boolean; // May delete or overwrite data (default: true)
+  idempotentHint?: boolean; // Repeating a call has no additional effect (default: false)
+  openWorldHint?: boolean; // Interacts with external entities (default: true)
+}
+
 //TODO: Refactor to use JSON Schema types
 export interface McpTool {
   name: string;
   description: string;
   inputSchema: Record<string, any>; //FIXME: Stricter JSON Schema type
+  outputSchema?: Record<string, any>;
+  annotations?: McpToolAnnotations;
   metadata?: Record<string, any>;
 }
 
-//TODO: Add other types as needed
-export interface McpToolResultContent {
-  type: "text" | "image" | "embedded_resource";
-  text?: string;
+// --- Content Blocks ---
+// Based on: https://modelcontextprotocol.io/specification/2025-06-18/server/tools#tool-result
+
+/**
+ * Optional hints for the client about who a block is for and how important it is
+ */
+export interface McpContentAnnotations {
+  audience?: ("user" | "assistant")[];
+  priority?: number; // 0 (least) to 1 (most important)
 }
 
+export interface McpTextContent {
+  type: "text";
+  text: string;
+  annotations?: McpContentAnnotations;
+}
+
+export interface McpImageContent {
+  type: "image";
+  data: string; // base64 encoded
+  mimeType: string;
+  annotations?: McpContentAnnotations;
+}
+
+export interface McpAudioContent {
+  type: "audio";
+  data: string; // base64 encoded
+  mimeType: string;
+  annotations?: McpContentAnnotations;
+}
+
+/**
+ * A pointer to a resource the client can fetch with resources/read
+ */
+export interface McpResourceLink extends McpResource {
+  type: "resource_link";
+  annotations?: McpContentAnnotations;
+}
+
+/**
+ * A resource whose contents are included in the result
+ */
+export interface McpEmbeddedResource {
+  type: "resource";
+  resource: McpResourceContent;
+  annotations?: McpContentAnnotations;
+}
+
+export type McpContentBlock =
+  | McpTextContent
+  | McpImageContent
+  | McpAudioContent
+  | McpResourceLink
+  | McpEmbeddedResource;
+
+export type McpToolResultContent = McpContentBlock;
+
 export interface McpToolResult {
   content: McpToolResultContent[];
+  structuredContent?: Record<string, unknown>;
   isError?: boolean;
   metadata?: Record<string, any>;
 }
@@ -0,0 +1,121 @@
+/**
+ * URI templates as described by RFC 6570, used for parameterized resources.
+ * See: https://www.rfc-editor.org/rfc/rfc6570
+ *
+ * Only matching is implemented (URI -> variables), for the expression
+ * operators MCP servers commonly use: `{var}`, `{+var}`, `{#var}`,
+ * `{/var}`, `{.var}`, `{?var}` and `{&var}`. Explode and prefix modifiers
+ * (`{var*}`, `{var:3}`) are not supported.
+ */
+
+type Operator = "" | "+" | "#" | "/" | "." | "?" | "&";
+
+interface Expression {
+  operator: Operator;
+  names: string[];
+}
+
+const OPERATORS = new Set(["+", "#", "/", ".", "?", "&"]);
+const VARIABLE_NAME = /^[A-Za-z0-9_]+$/;
+
+function escapeRegExp(literal: string): string {
+  return literal.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function parseExpression(body: string, template: string): Expression {
+  const operator = (OPERATORS.has(body[0]) ? body[0] : "") as Operator;
+  const names = body.slice(operator.length).split(",");
+  for (const name of names) {
+    if (!VARIABLE_NAME.test(name)) {
+      throw new Error(
+        `Unsupported URI template expression '{${body}}' in '${template}'`
+      );
+    }
+  }
+  return { operator, names };
+}
+
+/**
+ * Builds the regular expression fragment for one expression.
+ * Query expressions capture the whole query string, which is split later.
+ */
+function expressionPattern({ operator, names }: Expression): string {
+  switch (operator) {
+    case "":
+      return names.map(() => "([^/?#,]+)").join(",");
+    case "+":
+      return names.map(() => "([^?#,]+?)").join(",");
+    case "#":
+      return `(?:#${names.map(() => "([^,]*?)").join(",")})?`;
+    case "/":
+      return names.map(() => "(?:/([^/?#]*))?").join("");
+    case ".":
+      return names.map(() => "(?:\\.([^/?#.]*))?").join("");
+    case "?":
+      return "(?:\\?([^#]*))?";
+    case "&":
+      return "(?:&([^#]*))?";
+  }
+}
+
+export class UriTemplate {
+  readonly template: string;
+  readonly variableNames: string[];
+  private readonly expressions: Expression[] = [];
+  private readonly pattern: RegExp;
+
+  constructor(template: string) {
+    this.template = template;
+
+    let source = "";
+    let lastIndex = 0;
+    for (const match of template.matchAll(/\{([^}]*)\}/g)) {
+      source += escapeRegExp(template.slice(lastIndex, match.index));
+      const expression = parseExpression(match[1], template);
+      this.expressions.push(expression);
+      source += expressionPattern(expression);
+      lastIndex = match.index! + match[0].length;
+    }
+    source += escapeRegExp(template.slice(lastIndex));
+
+    this.pattern = new RegExp(`^${source}$`);
+    this.variableNames = this.expressions.flatMap((e) => e.names);
+  }
+
+  /**
+   * Match a URI against the template
+   * @param uri The concrete URI
+   * @returns The (percent-decoded) variable values, or null if it doesn't match
+   */
+  match(uri: string): Record<string, string> | null {
+    const result = this.pattern.exec(uri);
+    if (!result) {
+      return null;
+    }
+
+    const variables: Record<string, string> = {};
+    let group = 1;
+    try {
+      for (const { operator, names } of this.expressions) {
+        if (operator === "?" || operator === "&") {
+          const query = new URLSearchParams(result[group++] ?? "");
+          for (const name of names) {
+            const value = query.get(name);
+            if (value !== null) variables[name] = value;
+          }
+          continue;
+        }
+        for (const name of names) {
+          const value = result[group++];
+          if (value !== undefined) {
+            variables[name] = decodeURIComponent(value);
+          }
+        }
+      }
+    } catch (e) {
+      // Malformed percent-encoding
+      return null;
+    }
+    return variables;
+  }
+}
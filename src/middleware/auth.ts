@@ -1,6 +1,7 @@
 import type { Context, MiddlewareHandler, Next } from "hono";
 import type { PermissionLevel } from "../utils/auth";
 import { authService } from "../utils/auth";
+import { config } from "../utils/config";
 import { logger } from "../utils/logger";
 
 const authLogger = logger.child({ component: "auth-middleware" });
@@ -17,6 +18,27 @@ export interface AuthContext {
   };
 }
 
+/**
+ * Whether a request's auth context grants the required permission level.
+ * Always true when auth is disabled.
+ */
+export function canAccess(
+  auth: AuthContext["auth"] | undefined,
+  requiredLevel: PermissionLevel
+): boolean {
+  if (!config.auth.enableAuth) {
+    return true;
+  }
+  const client = auth?.isAuthenticated
+    ? {
+        id: auth.clientId!,
+        name: auth.clientName!,
+        permissions: auth.permissions as PermissionLevel,
+      }
+    : null;
+  return authService.hasPermission(client, requiredLevel);
+}
+
 /**
  * Extracts credentials (API Key/Bearer Token and Client ID) from headers.
  */
@@ -0,0 +1,58 @@
+import { InvalidPromptArgumentError } from "../handlers/prompt_handlers";
+import { getResourceContents } from "../handlers/resource_handlers";
+import { getRequestContext } from "../mcp/context";
+import type { GetPromptResponseResult } from "../mcp/types";
+import { registerPrompt } from "../registry";
+
+/**
+ * Explain resource prompt implementation
+ * Embeds a resource's contents and asks the model to explain them.
+ * The resource is read with the caller's permissions.
+ */
+export async function explainResource(
+  args: Record<string, string>
+): Promise<GetPromptResponseResult> {
+  const contents = await getResourceContents(
+    args.uri,
+    getRequestContext()?.auth
+  );
+  if (!contents) {
+    throw new InvalidPromptArgumentError(`Resource not found: ${args.uri}`);
+  }
+
+  return {
+    description: `Explain ${args.uri}`,
+    messages: [
+      ...contents.map((resource) => ({
+        role: "user" as const,
+        content: { type: "resource" as const, resource },
+      })),
+      {
+        role: "user",
+        content: {
+          type: "text",
+          text: "Explain what the resource above contains and what it is used for.",
+        },
+      },
+    ],
+  };
+}
+
+// Register the prompt with the registry
+registerPrompt(
+  "explain_resource",
+  "Explain the contents of a server resource",
+  [
+    {
+      name: "uri",
+      description: "URI of the resource to explain",
+      required: true,
+    },
+  ],
+  explainResource,
+  "public",
+  {
+    category: "resources",
+    tags: ["explain", "resource"],
+  }
+);
@@ -0,0 +1,59 @@
+import type { GetPromptResponseResult } from "../mcp/types";
+import { registerPrompt } from "../registry";
+
+const STYLES: Record<string, string> = {
+  brief: "in one or two sentences",
+  bullet: "as a short bulleted list of the key points",
+  detailed: "in a few paragraphs, keeping all important details",
+};
+
+/**
+ * Summarize text prompt implementation
+ * Asks the model to summarize the given text in the requested style
+ */
+export async function summarizeText(
+  args: Record<string, string>
+): Promise<GetPromptResponseResult> {
+  const style = STYLES[args.style] ? args.style : "brief";
+
+  return {
+    description: `Summarize text (${style})`,
+    messages: [
+      {
+        role: "user",
+        content: {
+          type: "text",
+          text: `Summarize the following text ${STYLES[style]}:\n\n${args.text}`,
+        },
+      },
+    ],
+  };
+}
+
+// Register the prompt with the registry
+registerPrompt(
+  "summarize_text",
+  "Summarize a piece of text",
+  [
+    {
+      name: "text",
+      description: "The text to summarize",
+      required: true,
+    },
+    {
+      name: "style",
+      description: "Summary style: brief (default), bullet or detailed",
+      required: false,
+    },
+  ],
+  summarizeText,
+  "public",
+  {
+    category: "writing",
+    tags: ["summarize", "text"],
+    completions: {
+      style: async (value) =>
+        Object.keys(STYLES).filter((style) => style.startsWith(value)),
+    },
+  }
+);
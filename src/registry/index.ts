@@ -1,13 +1,39 @@
 import { z } from "zod";
-import type { MCPToolResponse } from "../types/mcp";
+import type { RequestContext } from "../mcp/context";
+import { getRequestContext, runWithRequestContext } from "../mcp/context";
+import {
+  createProgressNotification,
+  createProgressReporter,
+} from "../mcp/progress";
+import type {
+  CompletionHandler,
+  MCPToolResponse,
+  PromptHandler,
+  PromptRegistrationOptions,
+  ResourceProvider,
+  ToolHandler,
+  ToolOutputSchema,
+} from "../types/mcp";
+import type { McpToolAnnotations } from "../mcp/types";
 import type { PermissionLevel } from "../utils/auth";
+import { config } from "../utils/config";
 import { logger } from "../utils/logger";
+import { InMemoryPromptRegistry } from "./promptRegistry";
+import { InMemoryResourceProviderRegistry } from "./resourceProviderRegistry";
 import { InMemoryToolRegistry } from "./toolRegistry";
 
 // Creates a global shared instance of the tool registry
 export const toolRegistry = new InMemoryToolRegistry();
 export { InMemoryToolRegistry } from "./toolRegistry";
 
+// Creates a global shared instance of the prompt registry
+export const promptRegistry = new InMemoryPromptRegistry();
+export { InMemoryPromptRegistry } from "./promptRegistry";
+
+// Creates a global shared instance of the resource provider registry
+export const resourceProviderRegistry = new InMemoryResourceProviderRegistry();
+export { InMemoryResourceProviderRegistry } from "./resourceProviderRegistry";
+
 const registryLogger = logger.child({ component: "tool-registry" });
 
 /**
@@ -26,6 +52,129 @@ export class ToolExecutionError extends Error {
   }
 }
 
+/**
+ * Raised when a tool execution is aborted because the client cancelled the
+ * request or disconnected. Reported as JSON-RPC error -32800.
+ */
+export class RequestCancelledError extends Error {
+  public readonly code = -32800;
+
+  constructor(reason?: unknown) {
+    super(typeof reason === "string" ? reason : "Request cancelled");
+    this.name = "RequestCancelledError";
+    Object.setPrototypeOf(this, RequestCancelledError.prototype);
+  }
+}
+
+/**
+ * Raised by tool handlers for failures that may go away on a second attempt
+ * (e.g. a rate limit or an upstream 503). Such calls are retried, but only
+ * for tools annotated as read-only or idempotent.
+ */
+export class TransientToolError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "TransientToolError";
+    Object.setPrototypeOf(this, TransientToolError.prototype);
+  }
+}
+
+// Network failures thrown by fetch and sockets that are worth retrying
+const TRANSIENT_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "EPIPE",
+  "ConnectionRefused",
+  "ConnectionClosed",
+]);
+
+const RETRY_BASE_DELAY_MS = 100;
+
+function isTransientError(error: unknown): boolean {
+  if (error instanceof TransientToolError) return true;
+  if (!(error instanceof Error)) return false;
+  const code = (error as { code?: unknown }).code;
+  return (
+    error.name === "TimeoutError" ||
+    (typeof code === "string" && TRANSIENT_ERROR_CODES.has(code))
+  );
+}
+
+/**
+ * Whether a tool may run again after a failed attempt: only tools that don't
+ * change anything, or whose repeated calls have no additional effect
+ * @param annotations The tool's annotations
+ */
+export function isRetryableTool(annotations?: McpToolAnnotations): boolean {
+  return (
+    annotations?.readOnlyHint === true || annotations?.idempotentHint === true
+  );
+}
+
+/**
+ * Run the work, trying again with exponential backoff after transient failures
+ */
+async function withRetries<T>(
+  name: string,
+  work: () => Promise<T>,
+  retries: number,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await work();
+    } catch (error) {
+      if (attempt >= retries || signal?.aborted || !isTransientError(error)) {
+        throw error;
+      }
+      registryLogger.warn(`Tool '${name}' failed transiently, retrying`, {
+        attempt: attempt + 1,
+        error: (error as Error).message,
+      });
+      await backoff(RETRY_BASE_DELAY_MS * 2 ** attempt, signal);
+    }
+  }
+}
+
+/**
+ * Wait before the next attempt, rejecting as soon as the signal aborts
+ */
+function backoff(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) {
+    return Promise.reject(new RequestCancelledError(signal.reason));
+  }
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestCancelledError(signal!.reason));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Settle with the work's result, or reject as soon as the signal aborts
+ */
+function abortable<T>(work: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return work;
+  if (signal.aborted) {
+    return Promise.reject(new RequestCancelledError(signal.reason));
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new RequestCancelledError(signal.reason));
+    signal.addEventListener("abort", onAbort, { once: true });
+    work
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
 export function registerTool(
   name: string,
   description: string,
@@ -36,6 +185,9 @@ export function registerTool(
     tags?: string[];
     category?: string;
     enabled?: boolean;
+    completions?: Record<string, CompletionHandler>;
+    outputSchema?: ToolOutputSchema;
+    annotations?: McpToolAnnotations;
   }
 ) {
   toolRegistry.register({
@@ -48,6 +200,33 @@ export function registerTool(
   });
 }
 
+export function registerPrompt(
+  name: string,
+  description: string,
+  args: PromptRegistrationOptions["arguments"],
+  handler: PromptHandler,
+  permissionLevel?: PermissionLevel,
+  options?: {
+    tags?: string[];
+    category?: string;
+    enabled?: boolean;
+    completions?: Record<string, CompletionHandler>;
+  }
+) {
+  promptRegistry.register({
+    name,
+    description,
+    arguments: args,
+    handler,
+    permissionLevel,
+    ...options,
+  });
+}
+
+export function registerResourceProvider(provider: ResourceProvider) {
+  resourceProviderRegistry.register(provider);
+}
+
 /**
  * Execute a registered tool function. Handles both streaming and non-streaming.
  * @param name The name of the tool
@@ -55,6 +234,7 @@ export function registerTool(
  * @param writer Optional writer for streaming responses
  * @param encoder Optional encoder for streaming responses
  * @param jsonRpcId Optional original request ID for streaming JSON-RPC responses
+ * @param signal Optional abort signal; handlers read it with `getAbortSignal()`
  * @returns The tool response (if not streaming or for final result structure)
  */
 export async function executeTool(
@@ -62,7 +242,8 @@ export async function executeTool(
   parameters: Record<string, any>,
   writer?: WritableStreamDefaultWriter,
   encoder?: TextEncoder,
-  jsonRpcId?: string | number | null
+  jsonRpcId?: string | number | null,
+  signal?: AbortSignal
 ): Promise<MCPToolResponse> {
   const handler = toolRegistry.getToolHandler(name);
   if (!handler) {
@@ -71,7 +252,48 @@ export async function executeTool(
     );
     throw new Error(`Tool '${name}' not found or disabled`);
   }
+  if (signal?.aborted) {
+    throw new RequestCancelledError(signal.reason);
+  }
 
+  // Everything the handler runs, including detached streaming work, sees the signal
+  const context: RequestContext = { ...getRequestContext(), signal };
+  // On MCP transports (which carry a session), streamed progress goes into the
+  // JSONL stream as notifications. Legacy `/invoke` streams only carry the
+  // tool's own chunks, which report progress in their metadata.
+  const { progressToken } = context;
+  if (writer && encoder && progressToken !== undefined && context.sessionId) {
+    context.progress = createProgressReporter((update) => {
+      const notification = createProgressNotification(progressToken, update);
+      writer
+        .write(encoder.encode(JSON.stringify(notification) + "\n"))
+        .catch(() => {
+          // Stream already closed; late progress is dropped
+        });
+    });
+  }
+  return runWithRequestContext(context, () =>
+    runToolHandler(
+      name,
+      handler,
+      parameters,
+      writer,
+      encoder,
+      jsonRpcId,
+      signal
+    )
+  );
+}
+
+async function runToolHandler(
+  name: string,
+  handler: ToolHandler,
+  parameters: Record<string, any>,
+  writer?: WritableStreamDefaultWriter,
+  encoder?: TextEncoder,
+  jsonRpcId?: string | number | null,
+  signal?: AbortSignal
+): Promise<MCPToolResponse> {
   if (writer && encoder) {
     registryLogger.debug(`Executing tool '${name}' in streaming mode`, {
       jsonRpcId,
@@ -85,8 +307,8 @@ export async function executeTool(
         if (this._closed) return;
         this._writer.write(chunk).catch((err) => {
           registryLogger.error(
-            `Stream write error for tool '${name}': ${err.message}`,
-            err
+            `Stream write error for tool '${name}': ${err?.message}`,
+            err instanceof Error ? err : undefined
           );
           this._closed = true;
         });
@@ -98,20 +320,25 @@ export async function executeTool(
           JSON.stringify({
             jsonrpc: "2.0",
             error: {
-              code: -32000, // Generic tool execution error for stream
+              code: err instanceof RequestCancelledError ? err.code : -32000, // Generic tool execution error for stream
               message: err.message || "Streaming Error",
             },
             id: jsonRpcId === undefined ? null : jsonRpcId,
           }) + "\n";
-        this._writer.write(this._encoder.encode(errorPayload)).finally(() => {
-          this._writer
-            .close()
-            .catch((closeErr) =>
-              registryLogger.warn(
-                `Error closing writer after stream error: ${closeErr.message}`
-              )
-            );
-        });
+        this._writer
+          .write(this._encoder.encode(errorPayload))
+          .catch(() => {
+            // The reader is gone (e.g. client disconnected)
+          })
+          .finally(() => {
+            this._writer
+              .close()
+              .catch((closeErr) =>
+                registryLogger.warn(
+                  `Error closing writer after stream error: ${closeErr?.message}`
+                )
+              );
+          });
       },
       terminate: function () {
         if (this._closed) return;
@@ -120,24 +347,55 @@ export async function executeTool(
           .close()
           .catch((closeErr) =>
             registryLogger.warn(
-              `Error closing writer on terminate: ${closeErr.message}`
+              `Error closing writer on terminate: ${closeErr?.message}`
             )
           );
       },
     };
 
+    // A cancelled stream ends with a -32800 error; the handler is expected to
+    // stop on its own once it sees the aborted signal
+    const onAbort = () => {
+      registryLogger.info(`Streaming tool '${name}' cancelled`, {
+        jsonRpcId,
+      });
+      streamControllerForHandler.error(
+        new RequestCancelledError(signal!.reason)
+      );
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+    // However the stream ends, a later abort has nothing left to cancel
+    writer.closed
+      .catch(() => {
+        // Errored streams are reported where they fail
+      })
+      .finally(() => signal?.removeEventListener("abort", onAbort));
+
+    // Streaming handlers report failures through the stream and then rethrow;
+    // the rejection has nowhere else to go once the response is streaming
+    const onDetachedFailure = (err: unknown) => {
+      registryLogger.debug(`Streaming handler for '${name}' rejected`, {
+        error: err instanceof Error ? err.message : String(err),
+        cancelled: signal?.aborted === true,
+      });
+    };
+
     (async () => {
       try {
         if ((handler as any).length > 2) {
           registryLogger.debug(
             `Handler for '${name}' expects controller and ID, passing them.`
           );
-          (handler as any)(parameters, streamControllerForHandler, jsonRpcId);
+          Promise.resolve(
+            (handler as any)(parameters, streamControllerForHandler, jsonRpcId)
+          ).catch(onDetachedFailure);
         } else if ((handler as any).length > 1) {
           registryLogger.debug(
             `Handler for '${name}' expects controller, passing shim.`
           );
-          (handler as any)(parameters, streamControllerForHandler);
+          Promise.resolve(
+            (handler as any)(parameters, streamControllerForHandler)
+          ).catch(onDetachedFailure);
         } else {
           registryLogger.warn(
             `Handler for '${name}' called in streaming mode but doesn't accept controller. Sending single result.`
@@ -181,16 +439,31 @@ export async function executeTool(
     });
   } else {
     registryLogger.debug(`Executing tool '${name}' in non-streaming mode`);
+    // Tools that may have changed something before failing are never re-run
+    const retries = isRetryableTool(
+      toolRegistry.getToolDefinition(name)?.annotations
+    )
+      ? config.mcp.toolRetries
+      : 0;
     try {
-      return await handler(parameters);
+      return await abortable(
+        withRetries(name, () => handler(parameters), retries, signal),
+        signal
+      );
     } catch (error: any) {
-      if (error instanceof ToolExecutionError) {
+      if (error instanceof RequestCancelledError) {
+        registryLogger.info(`Tool '${name}' cancelled (non-streaming)`, {
+          reason: error.message,
+        });
+        throw error;
+      } else if (error instanceof ToolExecutionError) {
         registryLogger.warn(
           `Tool '${name}' execution failed (ToolExecutionError - non-streaming)`,
           error
         );
         return {
           content: error.content,
+          isError: true,
           metadata: { isError: true },
         };
       } else if (error instanceof z.ZodError) {
@@ -206,6 +479,7 @@ export async function executeTool(
               message: e.message,
             })),
           },
+          isError: true,
           metadata: { isError: true },
         };
       } else {
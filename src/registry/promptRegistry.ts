@@ -0,0 +1,121 @@
+import type {
+  CompletionHandler,
+  MCPPrompt,
+  PromptHandler,
+  PromptRegistrationOptions,
+  PromptRegistry,
+} from "../types/mcp";
+
+/**
+ * In-memory implementation of the PromptRegistry interface
+ * Provides a central registry for prompt templates, parallel to the tool registry
+ */
+export class InMemoryPromptRegistry implements PromptRegistry {
+  private prompts: Map<
+    string,
+    PromptRegistrationOptions & { enabled: boolean }
+  > = new Map();
+
+  /**
+   * Register a new prompt with the registry
+   * @param options The prompt configuration and handler
+   */
+  register(options: PromptRegistrationOptions): void {
+    if (this.prompts.has(options.name)) {
+      throw new Error(
+        `Prompt with name '${options.name}' is already registered`
+      );
+    }
+
+    this.prompts.set(options.name, {
+      ...options,
+      enabled: options.enabled !== false,
+      permissionLevel: options.permissionLevel || "public",
+    });
+  }
+
+  /**
+   * Unregister a prompt from the registry
+   * @param name The name of the prompt to unregister
+   * @returns true if the prompt was unregistered, false if it wasn't found
+   */
+  unregister(name: string): boolean {
+    return this.prompts.delete(name);
+  }
+
+  /**
+   * Get the render function for a specific prompt
+   * @param name The name of the prompt
+   * @returns The handler function or undefined if the prompt is not found
+   */
+  getPromptHandler(name: string): PromptHandler | undefined {
+    const prompt = this.prompts.get(name);
+    return prompt?.enabled ? prompt.handler : undefined;
+  }
+
+  /**
+   * Get the prompt definition for a specific prompt
+   * @param name The name of the prompt
+   * @returns The prompt definition or undefined if the prompt is not found
+   */
+  getPromptDefinition(name: string): MCPPrompt | undefined {
+    const prompt = this.prompts.get(name);
+    if (!prompt || !prompt.enabled) {
+      return undefined;
+    }
+    return this.toDefinition(prompt);
+  }
+
+  /**
+   * Get all registered and enabled prompts
+   * @returns Array of prompt definitions
+   */
+  getAllPrompts(): MCPPrompt[] {
+    const result: MCPPrompt[] = [];
+
+    for (const prompt of this.prompts.values()) {
+      if (prompt.enabled) {
+        result.push(this.toDefinition(prompt));
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Check if a prompt is registered
+   * @param name The name of the prompt
+   * @returns true if the prompt is registered, false otherwise
+   */
+  isPromptRegistered(name: string): boolean {
+    const prompt = this.prompts.get(name);
+    return !!prompt && prompt.enabled;
+  }
+
+  /**
+   * Get the custom completer for one of a prompt's arguments
+   * @param name The name of the prompt
+   * @param argument The name of the argument
+   * @returns The completer or undefined if the prompt or completer is not found
+   */
+  getPromptCompleter(
+    name: string,
+    argument: string
+  ): CompletionHandler | undefined {
+    const prompt = this.prompts.get(name);
+    return prompt?.enabled ? prompt.completions?.[argument] : undefined;
+  }
+
+  private toDefinition(prompt: PromptRegistrationOptions): MCPPrompt {
+    return {
+      name: prompt.name,
+      description: prompt.description,
+      arguments: prompt.arguments,
+      metadata: {
+        permissionLevel: prompt.permissionLevel || "public",
+        category: prompt.category,
+        tags: prompt.tags,
+      },
+    };
+  }
+}
@@ -0,0 +1,106 @@
+import { publishChangeEvent } from "../events";
+import { UriTemplate } from "../mcp/uriTemplate";
+import type {
+  ResourceMatch,
+  ResourceProvider,
+  ResourceProviderRegistry,
+} from "../types/mcp";
+
+/**
+ * In-memory implementation of the ResourceProviderRegistry interface
+ * Each URI scheme is served by exactly one provider. Registering or removing
+ * a provider publishes `resource_list_changed`.
+ */
+export class InMemoryResourceProviderRegistry
+  implements ResourceProviderRegistry
+{
+  private providers: Map<string, ResourceProvider> = new Map();
+  // Compiled templates of each provider, by scheme
+  private templates: Map<string, UriTemplate[]> = new Map();
+
+  /**
+   * Register a provider for its URI scheme
+   * @param provider The provider to register
+   */
+  register(provider: ResourceProvider): void {
+    const scheme = provider.scheme.toLowerCase();
+    if (this.providers.has(scheme)) {
+      throw new Error(
+        `Resource provider for scheme '${scheme}' is already registered`
+      );
+    }
+
+    this.providers.set(scheme, provider);
+    this.templates.set(
+      scheme,
+      (provider.templates ?? []).map(
+        (template) => new UriTemplate(template.uriTemplate)
+      )
+    );
+    publishChangeEvent({ type: "resource_list_changed" });
+  }
+
+  /**
+   * Unregister the provider of a URI scheme
+   * @param scheme The scheme the provider was registered for
+   * @returns true if the provider was unregistered, false if it wasn't found
+   */
+  unregister(scheme: string): boolean {
+    const removed = this.providers.delete(scheme.toLowerCase());
+    this.templates.delete(scheme.toLowerCase());
+    if (removed) {
+      publishChangeEvent({ type: "resource_list_changed" });
+    }
+    return removed;
+  }
+
+  /**
+   * Get the provider registered for a URI scheme
+   */
+  getProvider(scheme: string): ResourceProvider | undefined {
+    return this.providers.get(scheme.toLowerCase());
+  }
+
+  /**
+   * Get the provider responsible for a resource URI, based on its scheme
+   */
+  getProviderForUri(uri: string): ResourceProvider | undefined {
+    const separator = uri.indexOf(":");
+    if (separator <= 0) {
+      return undefined;
+    }
+    return this.getProvider(uri.slice(0, separator));
+  }
+
+  /**
+   * Find the provider of a resource URI and match the URI against the
+   * provider's templates. Providers without templates serve every URI of
+   * their scheme.
+   * @returns The provider and template variables, or undefined if no
+   *   provider or template matches
+   */
+  resolve(uri: string): ResourceMatch | undefined {
+    const provider = this.getProviderForUri(uri);
+    if (!provider) {
+      return undefined;
+    }
+    const templates = this.templates.get(provider.scheme.toLowerCase()) ?? [];
+    if (templates.length === 0) {
+      return { provider, variables: {} };
+    }
+    for (const template of templates) {
+      const variables = template.match(uri);
+      if (variables) {
+        return { provider, variables };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Get all registered providers
+   */
+  getAllProviders(): ResourceProvider[] {
+    return [...this.providers.values()];
+  }
+}
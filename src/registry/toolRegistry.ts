@@ -1,4 +1,6 @@
+import { publishChangeEvent } from "../events";
 import type {
+  CompletionHandler,
   MCPTool,
   ToolHandler,
   ToolRegistrationOptions,
@@ -9,6 +11,7 @@ import type { PermissionLevel } from "../utils/auth";
 /**
  * In-memory implementation of the ToolRegistry interface
  * Provides a central registry for tools that can be dynamically registered and used
+ * Changes to the set of enabled tools publish `tool_list_changed`.
  */
 export class InMemoryToolRegistry implements ToolRegistry {
   private tools: Map<string, ToolRegistrationOptions & { enabled: boolean }> =
@@ -30,6 +33,9 @@ export class InMemoryToolRegistry implements ToolRegistry {
     };
 
     this.tools.set(options.name, registrationOptions);
+    if (registrationOptions.enabled) {
+      this.notifyListChanged();
+    }
   }
 
   /**
@@ -38,7 +44,15 @@ export class InMemoryToolRegistry implements ToolRegistry {
    * @returns true if the tool was unregistered, false if it wasn't found
    */
   unregister(name: string): boolean {
-    return this.tools.delete(name);
+    const tool = this.tools.get(name);
+    if (!tool) {
+      return false;
+    }
+    this.tools.delete(name);
+    if (tool.enabled) {
+      this.notifyListChanged();
+    }
+    return true;
   }
 
   /**
@@ -66,6 +80,8 @@ export class InMemoryToolRegistry implements ToolRegistry {
       name: tool.name,
       description: tool.description,
       parameters: tool.parameters,
+      outputSchema: tool.outputSchema,
+      annotations: tool.annotations,
       metadata: {
         permissionLevel: tool.permissionLevel || "public",
         category: tool.category,
@@ -87,6 +103,8 @@ export class InMemoryToolRegistry implements ToolRegistry {
           name: tool.name,
           description: tool.description,
           parameters: tool.parameters,
+          outputSchema: tool.outputSchema,
+          annotations: tool.annotations,
           metadata: {
             permissionLevel: tool.permissionLevel || "public",
             category: tool.category,
@@ -116,6 +134,8 @@ export class InMemoryToolRegistry implements ToolRegistry {
           name: tool.name,
           description: tool.description,
           parameters: tool.parameters,
+          outputSchema: tool.outputSchema,
+          annotations: tool.annotations,
           metadata: {
             permissionLevel: tool.permissionLevel || "public",
             category: tool.category,
@@ -138,6 +158,20 @@ export class InMemoryToolRegistry implements ToolRegistry {
     return !!tool && tool.enabled;
   }
 
+  /**
+   * Get the custom completer for one of a tool's parameters
+   * @param name The name of the tool
+   * @param argument The name of the parameter
+   * @returns The completer or undefined if the tool or completer is not found
+   */
+  getToolCompleter(
+    name: string,
+    argument: string
+  ): CompletionHandler | undefined {
+    const tool = this.tools.get(name);
+    return tool?.enabled ? tool.completions?.[argument] : undefined;
+  }
+
   /**
    * Enable a tool
    * @param name The name of the tool to enable
@@ -149,8 +183,10 @@ export class InMemoryToolRegistry implements ToolRegistry {
       return false;
     }
 
-    tool.enabled = true;
-    this.tools.set(name, tool);
+    if (!tool.enabled) {
+      tool.enabled = true;
+      this.notifyListChanged();
+    }
     return true;
   }
 
@@ -165,8 +201,10 @@ export class InMemoryToolRegistry implements ToolRegistry {
       return false;
     }
 
-    tool.enabled = false;
-    this.tools.set(name, tool);
+    if (tool.enabled) {
+      tool.enabled = false;
+      this.notifyListChanged();
+    }
     return true;
   }
 
@@ -184,6 +222,8 @@ export class InMemoryToolRegistry implements ToolRegistry {
           name: tool.name,
           description: tool.description,
           parameters: tool.parameters,
+          outputSchema: tool.outputSchema,
+          annotations: tool.annotations,
           metadata: {
             permissionLevel: tool.permissionLevel || "public",
             category: tool.category,
@@ -210,6 +250,8 @@ export class InMemoryToolRegistry implements ToolRegistry {
           name: tool.name,
           description: tool.description,
           parameters: tool.parameters,
+          outputSchema: tool.outputSchema,
+          annotations: tool.annotations,
           metadata: {
             permissionLevel: tool.permissionLevel || "public",
             category: tool.category,
@@ -221,4 +263,8 @@ export class InMemoryToolRegistry implements ToolRegistry {
 
     return result;
   }
+
+  private notifyListChanged() {
+    publishChangeEvent({ type: "tool_list_changed" });
+  }
 }
@@ -0,0 +1,167 @@
+import { watch } from "fs";
+import path from "path";
+import type { McpResource, McpResourceContent } from "../mcp/types";
+import { getCurrentRootPaths, isWithinRoots } from "../mcp/roots";
+import { UriTemplate } from "../mcp/uriTemplate";
+import { registerResourceProvider } from "../registry";
+import {
+  completeSandboxPath,
+  fsPromises as fs,
+  resolveSandboxPath,
+  resolveScopedPath,
+} from "../tools/connectors/fileSystem";
+import { config } from "../utils/config";
+
+const FILE_URI = new UriTemplate("file:///{+path}");
+const MAX_RESOURCE_SIZE = 20000;
+// Upper bound on files returned by resources/list for large sandboxes
+const MAX_LISTED_FILES = 200;
+const SKIPPED_DIRECTORIES = new Set(["node_modules"]);
+
+const MIME_TYPES: Record<string, string> = {
+  ".json": "application/json",
+  ".md": "text/markdown",
+  ".csv": "text/csv",
+  ".html": "text/html",
+};
+
+function mimeTypeOf(filePath: string): string {
+  return MIME_TYPES[path.extname(filePath).toLowerCase()] || "text/plain";
+}
+
+/**
+ * Builds the resource URI of a path relative to the sandbox
+ */
+export function toFileUri(relativePath: string): string {
+  return `file:///${relativePath
+    .split(path.sep)
+    .map(encodeURIComponent)
+    .join("/")}`;
+}
+
+/**
+ * Whether a directory may hold files inside the roots: it lies inside one, or
+ * one lies inside it
+ */
+function mayContainRoots(directoryPath: string, rootPaths: string[]): boolean {
+  return (
+    isWithinRoots(directoryPath, rootPaths) ||
+    rootPaths.some((root) => isWithinRoots(root, [directoryPath]))
+  );
+}
+
+/**
+ * Lists the files in the sandbox, breadth first, skipping hidden entries.
+ * Only files within the roots of the current session's client are listed.
+ */
+export async function listFileResources(): Promise<McpResource[]> {
+  const basePath = path.resolve(config.fsTool.basePath);
+  const rootPaths = await getCurrentRootPaths();
+  const inRoots = (absolutePath: string, isDirectory: boolean) =>
+    !rootPaths ||
+    (isDirectory
+      ? mayContainRoots(absolutePath, rootPaths)
+      : isWithinRoots(absolutePath, rootPaths));
+  const resources: McpResource[] = [];
+  const pending = ["."];
+
+  while (pending.length > 0 && resources.length < MAX_LISTED_FILES) {
+    const directory = pending.shift()!;
+    const dirents = await fs.readdir(path.join(basePath, directory), {
+      withFileTypes: true,
+    });
+    for (const dirent of dirents) {
+      if (dirent.name.startsWith(".")) continue;
+      const relativePath = path.join(directory, dirent.name);
+      const absolutePath = path.join(basePath, relativePath);
+      if (dirent.isDirectory()) {
+        if (
+          !SKIPPED_DIRECTORIES.has(dirent.name) &&
+          inRoots(absolutePath, true)
+        ) {
+          pending.push(relativePath);
+        }
+      } else if (
+        dirent.isFile() &&
+        resources.length < MAX_LISTED_FILES &&
+        inRoots(absolutePath, false)
+      ) {
+        resources.push({
+          uri: toFileUri(relativePath),
+          name: relativePath,
+          mimeType: mimeTypeOf(relativePath),
+        });
+      }
+    }
+  }
+  return resources;
+}
+
+/**
+ * Reads a text file relative to the file system sandbox, within the roots of
+ * the current session's client (like the file system tools)
+ */
+export async function readFileResource(
+  uri: string,
+  variables: Record<string, string>
+): Promise<McpResourceContent[] | undefined> {
+  const targetPath = await resolveScopedPath(variables.path);
+
+  let stats;
+  try {
+    stats = await fs.stat(targetPath);
+  } catch (error: any) {
+    if (error?.code === "ENOENT") return undefined;
+    throw error;
+  }
+  if (!stats.isFile()) {
+    return undefined;
+  }
+  if (stats.size > MAX_RESOURCE_SIZE) {
+    throw new Error(
+      `File is too large to read (max ${MAX_RESOURCE_SIZE} bytes).`
+    );
+  }
+
+  return [
+    {
+      uri,
+      mimeType: mimeTypeOf(targetPath),
+      text: await fs.readFile(targetPath, { encoding: "utf8" }),
+    },
+  ];
+}
+
+/**
+ * Watches a sandbox file so subscribers hear about edits made on disk.
+ * One watcher serves every session subscribed to the file; each session's
+ * roots were already checked by the read that `resources/subscribe` does
+ * before watching.
+ */
+export function watchFileResource(
+  uri: string,
+  onChange: () => void,
+  variables: Record<string, string>
+): () => void {
+  const watcher = watch(resolveSandboxPath(variables.path), () => onChange());
+  // The file may disappear while watched; subscribers simply stop hearing
+  watcher.on("error", () => watcher.close());
+  return () => watcher.close();
+}
+
+// Register the provider with the registry
+registerResourceProvider({
+  scheme: "file",
+  permissionLevel: "admin", // Same level as the file system tools
+  templates: [
+    {
+      uriTemplate: FILE_URI.template,
+      name: "Sandbox File",
+      description: "A text file in the file system sandbox, by relative path",
+    },
+  ],
+  completions: { path: (value) => completeSandboxPath(value) },
+  list: listFileResources,
+  read: readFileResource,
+  subscribe: watchFileResource,
+});
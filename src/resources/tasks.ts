@@ -0,0 +1,54 @@
+import { db } from "../db/memory";
+import type { McpResource, McpResourceContent } from "../mcp/types";
+import { UriTemplate } from "../mcp/uriTemplate";
+import { registerResourceProvider } from "../registry";
+
+const TASK_URI = new UriTemplate("tasks://{id}");
+
+/**
+ * Lists every task as a resource
+ */
+export async function listTaskResources(): Promise<McpResource[]> {
+  const tasks = await db.listTasks();
+  return tasks.map((task) => ({
+    uri: `tasks://${task.id}`,
+    name: task.title,
+    description: task.description ?? undefined,
+    mimeType: "application/json",
+  }));
+}
+
+/**
+ * Reads a single task by the ID matched from its URI, as JSON
+ */
+export async function readTaskResource(
+  uri: string,
+  variables: Record<string, string>
+): Promise<McpResourceContent[] | undefined> {
+  const task = await db.getTask(variables.id);
+  if (!task) {
+    return undefined;
+  }
+  return [
+    {
+      uri,
+      mimeType: "application/json",
+      text: JSON.stringify(task, null, 2),
+    },
+  ];
+}
+
+// Register the provider with the registry; task tools publish change events
+registerResourceProvider({
+  scheme: "tasks",
+  templates: [
+    {
+      uriTemplate: TASK_URI.template,
+      name: "Task",
+      description: "A task from the task list, by ID",
+      mimeType: "application/json",
+    },
+  ],
+  list: listTaskResources,
+  read: readTaskResource,
+});
@@ -0,0 +1,36 @@
+import { getRequestContext } from "../mcp/context";
+import type { Session } from "../types/session";
+import { config } from "../utils/config";
+import { SessionManager } from "./sessionManager";
+
+// Creates a global shared session manager backed by the in-memory store
+export const sessions = new SessionManager(config.mcp.sessionTtlMs);
+if (config.mcp.sessionTtlMs > 0) {
+  sessions.startSweeper(Math.min(config.mcp.sessionTtlMs, 60_000));
+}
+
+export { SessionManager } from "./sessionManager";
+export type { SessionEndListener } from "./sessionManager";
+export { InMemorySessionStore } from "./sessionStore";
+
+/**
+ * Get the session of the request currently being handled.
+ * Intended for tool handlers; returns undefined for sessionless transports
+ * such as the legacy `/invoke` endpoint.
+ */
+export async function getCurrentSession(): Promise<Session | undefined> {
+  const sessionId = getRequestContext()?.sessionId;
+  return sessionId ? sessions.get(sessionId) : undefined;
+}
+
+/**
+ * Store a value in the current request's session data
+ * @returns false when there is no current session
+ */
+export async function setCurrentSessionData(
+  key: string,
+  value: unknown
+): Promise<boolean> {
+  const sessionId = getRequestContext()?.sessionId;
+  return sessionId ? sessions.setData(sessionId, key, value) : false;
+}
@@ -0,0 +1,246 @@
+import { lifecycle } from "../mcp/lifecycle";
+import type { JsonRpcNotification } from "../types/json-rpc";
+import type {
+  CreateSessionOptions,
+  ServerInitiatedMessage,
+  Session,
+  SessionChange,
+  SessionEndReason,
+  SessionSender,
+  SessionStore,
+} from "../types/session";
+import { logger } from "../utils/logger";
+import { InMemorySessionStore } from "./sessionStore";
+
+const sessionLogger = logger.child({ component: "session-manager" });
+
+export type SessionEndListener = (
+  session: Session,
+  reason: SessionEndReason
+) => void;
+
+/**
+ * Creates, refreshes and ends sessions on top of a pluggable SessionStore.
+ * Sessions expire after `ttlMs` without activity; expiry is detected lazily on
+ * access and by a periodic sweep.
+ */
+export class SessionManager {
+  private store: SessionStore;
+  private listeners: Set<SessionEndListener> = new Set();
+  // Outbound channels bound by transports; process-local, never stored
+  private senders: Map<string, SessionSender> = new Map();
+  private sweepTimer?: ReturnType<typeof setInterval>;
+
+  /**
+   * @param ttlMs Default idle time-to-live in milliseconds (0 disables expiry)
+   * @param store Backend used to persist sessions
+   */
+  constructor(
+    private readonly ttlMs: number,
+    store: SessionStore = new InMemorySessionStore()
+  ) {
+    this.store = store;
+  }
+
+  /**
+   * Replace the backing store (e.g. with a shared one for multi-instance deployments).
+   * Sessions held by the previous store are not migrated.
+   */
+  setStore(store: SessionStore): void {
+    this.store = store;
+  }
+
+  /**
+   * Create and persist a new session
+   */
+  async create(options: CreateSessionOptions): Promise<Session> {
+    const id = crypto.randomUUID();
+    const now = Date.now();
+    const ttlMs = options.ttlMs ?? this.ttlMs;
+    const session: Session = {
+      id,
+      transport: options.transport,
+      connectionKey: `${options.transport}:${id}`,
+      clientId: options.clientId,
+      createdAt: new Date(now).toISOString(),
+      lastActiveAt: new Date(now).toISOString(),
+      ttlMs,
+      expiresAt: ttlMs > 0 ? now + ttlMs : null,
+      data: {},
+    };
+    await this.store.set(session);
+    sessionLogger.debug("Session created", {
+      sessionId: id,
+      transport: options.transport,
+      clientId: options.clientId,
+    });
+    return session;
+  }
+
+  /**
+   * Get a live session without refreshing its expiry
+   * @returns The session, or undefined if unknown or expired
+   */
+  async get(id: string): Promise<Session | undefined> {
+    const session = await this.store.get(id);
+    if (!session) return undefined;
+    if (session.expiresAt !== null && session.expiresAt <= Date.now()) {
+      await this.end(session, "expired");
+      return undefined;
+    }
+    return session;
+  }
+
+  /**
+   * Get a live session and extend its expiry, recording activity
+   * @returns The refreshed session, or undefined if unknown or expired
+   */
+  async touch(id: string): Promise<Session | undefined> {
+    if (!(await this.get(id))) return undefined;
+    return this.store.touch(id, Date.now());
+  }
+
+  /**
+   * Change a live session atomically (see SessionStore.update)
+   * @returns The updated session, or undefined if unknown or expired
+   */
+  async update(
+    id: string,
+    change: SessionChange
+  ): Promise<Session | undefined> {
+    if (!(await this.get(id))) return undefined;
+    return this.store.update(id, change);
+  }
+
+  /**
+   * Set one value in a session's data; `undefined` removes the key
+   * @returns false if the session does not exist
+   */
+  async setData(id: string, key: string, value: unknown): Promise<boolean> {
+    const session = await this.update(id, (session) => {
+      if (value === undefined) {
+        delete session.data[key];
+      } else {
+        session.data[key] = value;
+      }
+    });
+    return session !== undefined;
+  }
+
+  /**
+   * End a session explicitly (client DELETE or transport shutdown)
+   * @returns false if the session did not exist
+   */
+  async terminate(
+    id: string,
+    reason: SessionEndReason = "deleted"
+  ): Promise<boolean> {
+    const session = await this.store.get(id);
+    if (!session) return false;
+    await this.end(session, reason);
+    return true;
+  }
+
+  /**
+   * Remove every expired session from the store
+   * @returns The number of sessions that expired
+   */
+  async sweep(): Promise<number> {
+    const expired = await this.store.purgeExpired(Date.now());
+    for (const session of expired) {
+      this.notifyEnd(session, "expired");
+    }
+    return expired.length;
+  }
+
+  /**
+   * Periodically sweep expired sessions. The timer does not keep the process alive.
+   */
+  startSweeper(intervalMs: number): void {
+    this.stopSweeper();
+    this.sweepTimer = setInterval(() => {
+      this.sweep().catch((error) =>
+        sessionLogger.error(
+          "Session sweep failed",
+          error instanceof Error ? error : undefined
+        )
+      );
+    }, intervalMs);
+    this.sweepTimer.unref?.();
+  }
+
+  stopSweeper(): void {
+    if (this.sweepTimer) clearInterval(this.sweepTimer);
+    this.sweepTimer = undefined;
+  }
+
+  /**
+   * Bind the transport channel that carries server-initiated messages to a
+   * session's client. The binding is dropped when the session ends.
+   * @returns A function that removes the binding again
+   */
+  bindSender(id: string, sender: SessionSender): () => void {
+    this.senders.set(id, sender);
+    return () => {
+      if (this.senders.get(id) === sender) this.senders.delete(id);
+    };
+  }
+
+  /**
+   * Send a server-initiated message to one session's client
+   * @returns false if the session has no bound channel or delivery failed
+   */
+  sendTo(id: string, message: ServerInitiatedMessage): boolean {
+    const sender = this.senders.get(id);
+    return sender ? sender(message) : false;
+  }
+
+  /**
+   * Send a server-initiated message to every session with a bound channel
+   * @returns The number of sessions the message was delivered to
+   */
+  broadcast(message: JsonRpcNotification): number {
+    let delivered = 0;
+    for (const sender of this.senders.values()) {
+      if (sender(message)) delivered++;
+    }
+    return delivered;
+  }
+
+  /**
+   * IDs of the sessions with a channel bound in this process
+   */
+  connectedIds(): string[] {
+    return [...this.senders.keys()];
+  }
+
+  /**
+   * Listen for sessions ending, for whatever reason
+   * @returns A function that removes the listener again
+   */
+  onEnd(listener: SessionEndListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private async end(session: Session, reason: SessionEndReason) {
+    await this.store.delete(session.id);
+    this.notifyEnd(session, reason);
+  }
+
+  private notifyEnd(session: Session, reason: SessionEndReason) {
+    lifecycle.reset(session.connectionKey);
+    this.senders.delete(session.id);
+    sessionLogger.debug("Session ended", { sessionId: session.id, reason });
+    for (const listener of this.listeners) {
+      try {
+        listener(session, reason);
+      } catch (error) {
+        sessionLogger.error(
+          "Session end listener failed",
+          error instanceof Error ? error : undefined
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import type { Session, SessionChange, SessionStore } from "../types/session";
+
+/**
+ * In-memory implementation of the SessionStore interface.
+ * Sessions are lost on restart and are not shared between server instances.
+ */
+export class InMemorySessionStore implements SessionStore {
+  private sessions: Map<string, Session> = new Map();
+
+  /**
+   * Get a session by ID
+   * @param id The session ID
+   * @returns A copy of the stored session, or undefined if unknown
+   */
+  async get(id: string): Promise<Session | undefined> {
+    const session = this.sessions.get(id);
+    return session ? { ...session, data: { ...session.data } } : undefined;
+  }
+
+  /**
+   * Insert or replace a session
+   * @param session The session to store
+   */
+  async set(session: Session): Promise<void> {
+    this.sessions.set(session.id, { ...session, data: { ...session.data } });
+  }
+
+  /**
+   * Apply a change to a stored session. The change runs synchronously on the
+   * stored copy, so concurrent updates never overwrite each other.
+   * @param id The session ID
+   * @param change Mutates the session in place
+   * @returns A copy of the updated session, or undefined if unknown
+   */
+  async update(
+    id: string,
+    change: SessionChange
+  ): Promise<Session | undefined> {
+    const session = this.sessions.get(id);
+    if (!session) return undefined;
+    change(session);
+    return { ...session, data: { ...session.data } };
+  }
+
+  /**
+   * Record activity on a session and extend its expiry
+   * @param id The session ID
+   * @param now Current time in epoch milliseconds
+   * @returns A copy of the refreshed session, or undefined if unknown
+   */
+  async touch(id: string, now: number): Promise<Session | undefined> {
+    return this.update(id, (session) => {
+      session.lastActiveAt = new Date(now).toISOString();
+      if (session.ttlMs > 0) {
+        session.expiresAt = now + session.ttlMs;
+      }
+    });
+  }
+
+  /**
+   * Delete a session
+   * @param id The session ID
+   * @returns true if the session existed
+   */
+  async delete(id: string): Promise<boolean> {
+    return this.sessions.delete(id);
+  }
+
+  /**
+   * Remove expired sessions
+   * @param now Current time in epoch milliseconds
+   * @returns The sessions that were removed
+   */
+  async purgeExpired(now: number): Promise<Session[]> {
+    const expired: Session[] = [];
+    for (const session of this.sessions.values()) {
+      if (session.expiresAt !== null && session.expiresAt <= now) {
+        expired.push(session);
+        this.sessions.delete(session.id);
+      }
+    }
+    return expired;
+  }
+}
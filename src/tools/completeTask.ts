@@ -1,4 +1,5 @@
 import { db } from "../db/memory";
+import { publishChangeEvent } from "../events";
 import { registerTool } from "../registry";
 import type { MCPToolResponse } from "../types/mcp";
 import { logger } from "../utils/logger";
@@ -17,10 +18,11 @@ export async function completeTask(
       throw new Error("Task ID is required");
     }
 
-    const task = db.completeTask(params.id);
+    const task = await db.completeTask(params.id);
     if (!task) {
       throw new Error(`Task with ID ${params.id} not found`);
     }
+    publishChangeEvent({ type: "resource_updated", uri: `tasks://${task.id}` });
 
     return {
       content: task,
@@ -60,5 +62,12 @@ registerTool(
   {
     category: "tasks",
     tags: ["write", "update"],
+    annotations: {
+      title: "Complete Task",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
   }
 );
@@ -1,13 +1,14 @@
 import fs from "fs/promises";
 import path from "path";
 import { z } from "zod";
+import { getCurrentRootPaths, isWithinRoots } from "../../mcp/roots";
 import { registerTool } from "../../registry";
 import type { MCPToolResponse } from "../../types/mcp";
 import { config } from "../../utils/config";
 import { logger } from "../../utils/logger";
 
 export { fs as fsPromises };
-const fsLogger = logger.child({ component: "file-system-tool" });
+const fsLogger = logger.child({ tool: "file-system-tool" });
 
 const MAX_READ_LENGTH = 10000;
 
@@ -43,6 +44,64 @@ export function resolveSandboxPath(relativePath: string): string {
   return requestedPath;
 }
 
+/**
+ * Resolves a path like `resolveSandboxPath`, and additionally confines it to
+ * the roots of the current session's client when the client declared roots:
+ * tools may then only touch the intersection of the sandbox and those roots.
+ * @param relativePath The user-provided path.
+ * @returns The absolute, sanitized path.
+ * @throws If the path is outside the sandbox or the client's roots, or the
+ * client's roots can't be fetched.
+ */
+export async function resolveScopedPath(relativePath: string): Promise<string> {
+  const targetPath = resolveSandboxPath(relativePath);
+  const rootPaths = await getCurrentRootPaths();
+  if (rootPaths && !isWithinRoots(targetPath, rootPaths)) {
+    fsLogger.warn("Path outside the client's roots", {
+      relativePath,
+      rootPaths,
+    });
+    throw new Error("Access denied: Path is outside the client's roots.");
+  }
+  return targetPath;
+}
+
+/**
+ * Suggests sandbox paths that start with a partially typed path.
+ * Directories are suggested with a trailing "/" so the next completion
+ * descends into them; hidden entries only show up once "." is typed.
+ * @param value The partial relative path
+ * @param directoriesOnly Whether to leave files out
+ * @returns Matching relative paths, or none if the directory can't be read
+ */
+export async function completeSandboxPath(
+  value: string,
+  directoriesOnly = false
+): Promise<string[]> {
+  const slash = value.lastIndexOf("/");
+  const directory = value.slice(0, slash + 1);
+  const prefix = value.slice(slash + 1);
+
+  let dirents;
+  try {
+    dirents = await fs.readdir(await resolveScopedPath(directory || "."), {
+      withFileTypes: true,
+    });
+  } catch (error) {
+    return [];
+  }
+
+  return dirents
+    .filter(
+      (d) =>
+        d.name.startsWith(prefix) &&
+        (prefix.startsWith(".") || !d.name.startsWith(".")) &&
+        (d.isDirectory() || (!directoriesOnly && d.isFile()))
+    )
+    .map((d) => `${directory}${d.name}${d.isDirectory() ? "/" : ""}`)
+    .sort();
+}
+
 const ListDirectoryParamsSchema = z.object({
   path: z.string().optional().default("."),
 });
@@ -67,7 +126,7 @@ export async function listDirectoryHandler(
   const { path: relativePath } = validationResult.data;
 
   try {
-    const targetPath = resolveSandboxPath(relativePath);
+    const targetPath = await resolveScopedPath(relativePath);
     fsLogger.info(`Listing directory: ${targetPath}`);
 
     const dirents = await fs.readdir(targetPath, { withFileTypes: true });
@@ -113,7 +172,7 @@ export async function readFileHandler(
   const { path: relativePath } = validationResult.data;
 
   try {
-    const targetPath = resolveSandboxPath(relativePath);
+    const targetPath = await resolveScopedPath(relativePath);
     fsLogger.info(`Reading file: ${targetPath}`);
 
     // Check if it's actually a file first (prevents reading directories)
@@ -176,6 +235,12 @@ registerTool(
   {
     category: "connectors",
     tags: ["filesystem", "files", "list"],
+    annotations: {
+      title: "List Directory",
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
+    completions: { path: (value) => completeSandboxPath(value, true) },
   }
 );
 
@@ -198,5 +263,11 @@ registerTool(
   {
     category: "connectors",
     tags: ["filesystem", "files", "read"],
+    annotations: {
+      title: "Read File",
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
+    completions: { path: (value) => completeSandboxPath(value) },
   }
 );
@@ -1,9 +1,10 @@
+import { getAbortSignal } from "../../mcp/context";
 import { registerTool } from "../../registry";
 import type { MCPToolResponse } from "../../types/mcp";
 import { config } from "../../utils/config";
 import { logger } from "../../utils/logger";
 
-const toolLogger = logger.child({ component: "github-list-issues" });
+const toolLogger = logger.child({ tool: "github-list-issues" });
 
 /**
  * Calls the GitHub API to list issues for a repository.
@@ -37,7 +38,10 @@ async function callGitHubIssuesApi(
   toolLogger.info(`Fetching issues from ${url}`);
 
   try {
-    const response = await fetch(url, { headers });
+    const response = await fetch(url, {
+      headers,
+      signal: getAbortSignal(),
+    });
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -150,5 +154,10 @@ registerTool(
   {
     category: "connectors",
     tags: ["github", "issues", "api", "read"],
+    annotations: {
+      title: "List GitHub Issues",
+      readOnlyHint: true,
+      openWorldHint: true,
+    },
   }
 );
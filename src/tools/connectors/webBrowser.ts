@@ -1,9 +1,10 @@
 import { z } from "zod";
+import { getAbortSignal } from "../../mcp/context";
 import { registerTool } from "../../registry";
 import type { MCPToolResponse } from "../../types/mcp";
 import { logger } from "../../utils/logger";
 
-const webLogger = logger.child({ component: "web-browser-tool" });
+const webLogger = logger.child({ tool: "web-browser-tool" });
 
 const MAX_CONTENT_LENGTH = 5000; // Limit content size for LLM context
 
@@ -56,6 +57,7 @@ export async function fetchWebpageHandler(
           "text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8",
       },
       redirect: "follow",
+      signal: getAbortSignal(),
     });
 
     if (!response.ok) {
@@ -152,5 +154,10 @@ registerTool(
   {
     category: "connectors",
     tags: ["web", "http", "fetch", "browse"],
+    annotations: {
+      title: "Fetch Webpage",
+      readOnlyHint: true,
+      openWorldHint: true,
+    },
   }
 );
@@ -1,22 +1,70 @@
 import { db } from "../db/memory";
+import { publishChangeEvent } from "../events";
+import { ClientRequestError } from "../mcp/clientRequests";
+import { elicit } from "../mcp/elicitation";
 import { registerTool, ToolExecutionError } from "../registry";
 import type { MCPToolResponse } from "../types/mcp";
 import { logger } from "../utils/logger";
 
 const toolLogger = logger.child({ tool: "create_task" });
 
+/**
+ * Ask the user for the title (and optionally a description) of a task
+ * created without one
+ * @returns The parameters completed with the user's answer, or undefined if
+ * the client can't ask its user
+ * @throws ToolExecutionError if the user declines or dismisses the question
+ */
+async function askForTitle(
+  params: Record<string, any>
+): Promise<Record<string, any> | undefined> {
+  const answer = await elicit("What should the new task be called?", {
+    type: "object",
+    properties: {
+      title: {
+        type: "string",
+        title: "Title",
+        description: "The title of the task",
+        minLength: 1,
+      },
+      ...(!params.description && {
+        description: {
+          type: "string",
+          title: "Description",
+          description: "A detailed description of the task (optional)",
+        },
+      }),
+    },
+    required: ["title"],
+  });
+  if (!answer) {
+    return undefined;
+  }
+  if (answer.action !== "accept") {
+    throw new ToolExecutionError(
+      `Task was not created: the user chose to ${answer.action}.`
+    );
+  }
+  return { ...params, ...answer.content };
+}
+
 /**
  * Create task tool implementation
- * Creates a new task with the specified parameters
+ * Creates a new task with the specified parameters.
+ * A missing title is asked from the user when the client supports elicitation.
  */
 export async function createTask(
   params: Record<string, any>
 ): Promise<MCPToolResponse> {
   try {
     if (!params.title) {
-      throw new ToolExecutionError("Title is required", {
-        validationErrors: [{ field: "title", message: "Title is required" }],
-      });
+      const completed = await askForTitle(params);
+      if (!completed) {
+        throw new ToolExecutionError("Title is required", {
+          validationErrors: [{ field: "title", message: "Title is required" }],
+        });
+      }
+      params = completed;
     }
 
     if (params.dueDate && !/^\d{4}-\d{2}-\d{2}$/.test(params.dueDate)) {
@@ -27,11 +75,15 @@ export async function createTask(
       });
     }
 
-    const newTask = db.createTask({
+    const newTask = await db.createTask({
       title: params.title,
       description: params.description,
       dueDate: params.dueDate,
     });
+    if (newTask) {
+      // The new task shows up in resources/list
+      publishChangeEvent({ type: "resource_list_changed" });
+    }
 
     return {
       content: newTask,
@@ -43,6 +95,11 @@ export async function createTask(
     if (error instanceof ToolExecutionError) {
       throw error;
     }
+    if (error instanceof ClientRequestError) {
+      throw new ToolExecutionError(
+        `Could not ask the user for the task title: ${error.message}`
+      );
+    }
     toolLogger.error(
       `Unexpected error creating task with params: ${JSON.stringify(
         params
@@ -83,5 +140,12 @@ registerTool(
   {
     category: "tasks",
     tags: ["write", "create"],
+    annotations: {
+      title: "Create Task",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: false,
+    },
   }
 );
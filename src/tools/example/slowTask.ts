@@ -1,7 +1,27 @@
+import { getAbortSignal } from "../../mcp/context";
+import { reportProgress } from "../../mcp/progress";
 import { registerTool } from "../../registry";
 import type { MCPToolResponse } from "../../types/mcp";
 import { StreamingToolResponse } from "../utils";
 
+/**
+ * Wait for the given time, rejecting early if the request is cancelled
+ */
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
 /**
  * Slow task tool implementation - demonstrates streaming capabilities
  * Processes data slowly and streams back results in chunks
@@ -12,22 +32,24 @@ async function slowTaskHandler(
   const items = params.items || 5;
   const delay = params.delay || 1000;
   const shouldFail = params.fail === true;
+  const signal = getAbortSignal();
 
   // In non-streaming mode, we just wait and return everything at once
   if (shouldFail) {
-    await new Promise((resolve) => setTimeout(resolve, delay));
+    await wait(delay, signal);
     throw new Error("Task failed as requested");
   }
 
   // Process all items with delay
   const results = [];
   for (let i = 0; i < items; i++) {
-    await new Promise((resolve) => setTimeout(resolve, delay));
+    await wait(delay, signal);
     results.push({
       item: i + 1,
       status: "processed",
       timestamp: new Date().toISOString(),
     });
+    reportProgress(i + 1, items, `Processed item ${i + 1} of ${items}`);
   }
 
   return {
@@ -63,6 +85,7 @@ export async function slowTaskStreamingHandler(
   }
 
   const streaming = new StreamingToolResponse(controller, jsonRpcId);
+  const signal = getAbortSignal();
   const results = [];
 
   try {
@@ -77,6 +100,7 @@ export async function slowTaskStreamingHandler(
         estimatedTimeMs: items * delay,
       }
     );
+    reportProgress(0, items, "Started");
 
     // Process each item with delay and stream the result
     for (let i = 0; i < items; i++) {
@@ -85,8 +109,8 @@ export async function slowTaskStreamingHandler(
         throw new Error("Task failed halfway as requested");
       }
 
-      // Wait for the specified delay
-      await new Promise((resolve) => setTimeout(resolve, delay));
+      // Wait for the specified delay, stopping if the client cancels
+      await wait(delay, signal);
 
       // Process this item
       const result = {
@@ -109,6 +133,7 @@ export async function slowTaskStreamingHandler(
           remainingTimeMs: (items - i - 1) * delay,
         }
       );
+      reportProgress(i + 1, items, `Processed item ${i + 1} of ${items}`);
     }
 
     // Complete the streaming response with final result
@@ -178,5 +203,10 @@ registerTool(
   {
     category: "demo",
     tags: ["streaming", "example"],
+    annotations: {
+      title: "Slow Task (Demo)",
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
   }
 );
@@ -18,12 +18,13 @@ export async function listTasks(
         ? params.status
         : "all";
 
-    const tasks = db.listTasks(status);
+    const tasks = await db.listTasks(status);
 
     return {
       content: tasks,
+      structuredContent: { tasks },
       metadata: {
-        count: (await tasks).length,
+        count: tasks.length,
         status,
         timestamp: new Date().toISOString(),
       },
@@ -59,5 +60,31 @@ registerTool(
   {
     category: "tasks",
     tags: ["read", "query", "list"],
+    annotations: {
+      title: "List Tasks",
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        tasks: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              id: { type: "string" },
+              title: { type: "string" },
+              description: { type: ["string", "null"] },
+              dueDate: { type: ["string", "null"] },
+              completed: { type: "boolean" },
+              createdAt: { type: "string" },
+            },
+            required: ["id", "title", "completed", "createdAt"],
+          },
+        },
+      },
+      required: ["tasks"],
+    },
   }
 );
@@ -1,3 +1,4 @@
+import { getAbortSignal } from "../../mcp/context";
 import { registerTool } from "../../registry";
 import type { MCPToolResponse } from "../../types/mcp";
 import { config } from "../../utils/config";
@@ -8,7 +9,7 @@ import { StreamingToolResponse } from "../utils";
  * MCP tool for querying Anthropic models (Claude) via the Messages API.
  */
 
-const llmLogger = logger.child({ component: "anthropic-query" });
+const llmLogger = logger.child({ tool: "anthropic-query" });
 
 interface AnthropicMessage {
   role: "user" | "assistant";
@@ -62,6 +63,7 @@ async function callAnthropic(
     method: "POST",
     headers,
     body: JSON.stringify({ ...bodyParams, stream: params.stream }),
+    signal: getAbortSignal(),
   });
 }
 
@@ -388,5 +390,10 @@ registerTool(
   {
     category: "ai",
     tags: ["llm", "anthropic", "claude", "streaming"],
+    annotations: {
+      title: "Query Anthropic",
+      readOnlyHint: true,
+      openWorldHint: true,
+    },
   }
 );
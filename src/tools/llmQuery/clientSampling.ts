@@ -0,0 +1,126 @@
+import { z } from "zod";
+import { createMessage } from "../../mcp/sampling";
+import { registerTool } from "../../registry";
+import type { MCPToolResponse } from "../../types/mcp";
+import { logger } from "../../utils/logger";
+
+/**
+ * MCP tool that summarizes or classifies text with the connected client's
+ * model via `sampling/createMessage`, so no server-side LLM key is needed.
+ */
+
+const samplingLogger = logger.child({ tool: "client-sampling" });
+
+const SampleTextParamsSchema = z.object({
+  text: z.string().min(1, "Text is required"),
+  task: z.enum(["summarize", "classify"]).optional().default("summarize"),
+  labels: z.array(z.string()).optional(),
+  max_tokens: z.number().int().positive().optional().default(512),
+  model_hint: z.string().optional(),
+});
+
+function instructionFor(
+  task: "summarize" | "classify",
+  labels?: string[]
+): string {
+  if (task === "summarize") {
+    return "Summarize the following text in a few sentences.";
+  }
+  return labels && labels.length > 0
+    ? `Classify the following text as exactly one of: ${labels.join(
+        ", "
+      )}. Answer with the label only.`
+    : "Classify the topic of the following text in one or two words.";
+}
+
+/**
+ * Sample text tool implementation
+ */
+export async function sampleTextHandler(
+  params: Record<string, any>
+): Promise<MCPToolResponse> {
+  const validationResult = SampleTextParamsSchema.safeParse(params);
+  if (!validationResult.success) {
+    throw new Error(
+      `Invalid input: ${validationResult.error.errors
+        .map((e) => `${e.path.join(".")} - ${e.message}`)
+        .join(", ")}`
+    );
+  }
+  const { text, task, labels, max_tokens, model_hint } = validationResult.data;
+
+  samplingLogger.info(`Requesting ${task} from the client's model`, {
+    length: text.length,
+  });
+  const result = await createMessage({
+    messages: [{ role: "user", content: { type: "text", text } }],
+    systemPrompt: instructionFor(task, labels),
+    maxTokens: max_tokens,
+    modelPreferences: {
+      hints: model_hint ? [{ name: model_hint }] : undefined,
+      // Short, mechanical tasks: favour fast and cheap models
+      speedPriority: 0.8,
+      costPriority: 0.6,
+      intelligencePriority: 0.3,
+    },
+    includeContext: "none",
+  });
+
+  return {
+    content:
+      result.content.type === "text" ? result.content.text : result.content,
+    metadata: {
+      task,
+      model: result.model,
+      stopReason: result.stopReason,
+      timestamp: new Date().toISOString(),
+    },
+  };
+}
+
+registerTool(
+  "sample_text",
+  "Summarize or classify text using the connected client's model (requires a client with sampling support)",
+  {
+    type: "object",
+    properties: {
+      text: {
+        type: "string",
+        description: "The text to summarize or classify",
+      },
+      task: {
+        type: "string",
+        description: "What to do with the text (default: summarize)",
+        enum: ["summarize", "classify"],
+        default: "summarize",
+      },
+      labels: {
+        type: "array",
+        description: "Allowed labels when classifying",
+        items: { type: "string" },
+      },
+      max_tokens: {
+        type: "integer",
+        description: "Maximum number of tokens to generate",
+        minimum: 1,
+        default: 512,
+      },
+      model_hint: {
+        type: "string",
+        description: "Preferred model name, passed to the client as a hint",
+      },
+    },
+    required: ["text"],
+  },
+  sampleTextHandler,
+  "public",
+  {
+    category: "ai",
+    tags: ["llm", "sampling", "summarize", "classify"],
+    annotations: {
+      title: "Sample Text with the Client's Model",
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
+  }
+);
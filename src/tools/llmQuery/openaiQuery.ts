@@ -1,3 +1,4 @@
+import { getAbortSignal } from "../../mcp/context";
 import { registerTool } from "../../registry";
 import type { MCPToolResponse } from "../../types/mcp";
 import { config } from "../../utils/config";
@@ -9,7 +10,7 @@ import { StreamingToolResponse } from "../utils";
  * This tool allows querying OpenAI models with various parameters
  */
 
-const llmLogger = logger.child({ component: "openai-query" });
+const llmLogger = logger.child({ tool: "openai-query" });
 
 interface OpenAIMessage {
   role: "system" | "user" | "assistant" | "function";
@@ -46,6 +47,7 @@ async function callOpenAI(params: OpenAICompletionParams): Promise<Response> {
       Authorization: `Bearer ${apiKey}`,
     },
     body: JSON.stringify(params),
+    signal: getAbortSignal(),
   });
 }
 
@@ -323,5 +325,10 @@ registerTool(
   {
     category: "ai",
     tags: ["llm", "openai", "streaming"],
+    annotations: {
+      title: "Query OpenAI",
+      readOnlyHint: true,
+      openWorldHint: true,
+    },
   }
 );
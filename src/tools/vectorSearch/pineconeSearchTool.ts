@@ -1,3 +1,4 @@
+import { getAbortSignal } from "../../mcp/context";
 import { registerTool } from "../../registry";
 import type { MCPToolResponse } from "../../types/mcp";
 import { config } from "../../utils/config";
@@ -10,7 +11,7 @@ const isPineconeEnabled = !!(
   config.apiKeys.openai
 );
 
-const searchLogger = logger.child({ component: "pinecone-search" });
+const searchLogger = logger.child({ tool: "pinecone-search" });
 
 const DEFAULT_EMBEDDING_MODEL = "text-embedding-3-small";
 const EMBEDDING_DIMENSIONS = 1536;
@@ -57,6 +58,7 @@ export async function generateOpenAIEmbedding(
         input: text,
         model: model,
       }),
+      signal: getAbortSignal(),
     });
 
     if (!response.ok) {
@@ -182,6 +184,21 @@ export async function pineconeSearchHandler(
   }
 }
 
+/**
+ * Suggests the namespaces of the configured index that start with the
+ * partially typed value
+ */
+export async function completePineconeNamespace(
+  value: string
+): Promise<string[]> {
+  const stats = await getPineconeIndex(
+    config.pinecone.indexName!
+  ).describeIndexStats();
+  return Object.keys(stats.namespaces ?? {})
+    .filter((namespace) => namespace.startsWith(value))
+    .sort();
+}
+
 const parametersSchema = {
   type: "object" as const,
   properties: {
@@ -206,10 +223,37 @@ const parametersSchema = {
   required: ["query"],
 };
 
+const outputSchema = {
+  type: "object" as const,
+  properties: {
+    results: {
+      type: "array",
+      description: "Matches, best first",
+      items: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          score: { type: "number" },
+          metadata: { type: "object" },
+        },
+        required: ["id"],
+      },
+    },
+  },
+  required: ["results"],
+};
+
 const registrationOptions = {
   category: "search",
   tags: ["vector", "pinecone", "search", "query", "embedding"],
   enabled: isPineconeEnabled,
+  completions: { namespace: completePineconeNamespace },
+  outputSchema,
+  annotations: {
+    title: "Semantic Search (Pinecone)",
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
 };
 
 registerTool(
@@ -0,0 +1,177 @@
+import { createInterface } from "node:readline";
+import type { DispatchContext } from "../mcp/dispatcher";
+import { dispatchBatch, dispatchMessage } from "../mcp/dispatcher";
+import type { AuthContext } from "../middleware/auth";
+import { sessions } from "../session";
+import type {
+  JsonRpcNotification,
+  JsonRpcRequest,
+  JsonRpcResponse,
+} from "../types/json-rpc";
+import type { Session } from "../types/session";
+import { authService } from "../utils/auth";
+import { config } from "../utils/config";
+import { createJsonRpcErrorResponse } from "../utils/jsonrpc_helpers";
+import { logger } from "../utils/logger";
+import { relayToolStream } from "./toolStream";
+
+const stdioLogger = logger.child({ component: "stdio-transport" });
+
+export type StdioOutboundMessage =
+  | JsonRpcResponse
+  | JsonRpcResponse[]
+  | JsonRpcNotification
+  | JsonRpcRequest;
+
+export interface StdioTransportOptions {
+  input?: NodeJS.ReadableStream;
+  output?: NodeJS.WritableStream;
+  // Auth context applied to every message; resolved from the environment by default
+  auth?: AuthContext["auth"];
+}
+
+/**
+ * Newline-delimited JSON-RPC over stdin/stdout, as used by desktop MCP hosts
+ * that launch the server as a subprocess.
+ * Each line is one JSON-RPC message (or batch) and goes through the same
+ * dispatcher as the HTTP `/invoke` route.
+ */
+export class StdioTransport {
+  private readonly input: NodeJS.ReadableStream;
+  private readonly output: NodeJS.WritableStream;
+  private session?: Session;
+  private readonly auth?: AuthContext["auth"];
+  private readonly inFlight: Set<Promise<void>> = new Set();
+
+  constructor(options: StdioTransportOptions = {}) {
+    this.input = options.input ?? process.stdin;
+    this.output = options.output ?? process.stdout;
+    this.auth = options.auth;
+  }
+
+  /**
+   * Read messages until the input closes.
+   * Resolves once every in-flight request has been answered.
+   */
+  async start(): Promise<void> {
+    // The session lives as long as the process, so it never expires
+    const session = await sessions.create({
+      transport: "stdio",
+      clientId: this.auth?.clientId,
+      ttlMs: 0,
+    });
+    this.session = session;
+    sessions.bindSender(session.id, (message) => {
+      this.send(message);
+      return true;
+    });
+    stdioLogger.info("STDIO transport started", { sessionId: session.id });
+
+    const lines = createInterface({ input: this.input, crlfDelay: Infinity });
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      const task = this.handleLine(line).catch((error) => {
+        stdioLogger.error(
+          "Unhandled error processing STDIO message",
+          error instanceof Error ? error : undefined
+        );
+      });
+      this.inFlight.add(task);
+      task.finally(() => this.inFlight.delete(task));
+    }
+
+    await Promise.all(this.inFlight);
+    await sessions.terminate(session.id, "closed");
+    stdioLogger.info("STDIO input closed, transport stopped");
+  }
+
+  /**
+   * Write a single message to the output as one line
+   */
+  send(message: StdioOutboundMessage): void {
+    this.output.write(JSON.stringify(message) + "\n");
+  }
+
+  private async handleLine(line: string): Promise<void> {
+    const session = this.session!;
+    let message: unknown;
+    try {
+      message = JSON.parse(line);
+    } catch (e) {
+      this.send(
+        createJsonRpcErrorResponse(
+          null,
+          -32700,
+          "Parse error: Invalid JSON received."
+        )
+      );
+      return;
+    }
+
+    const context: DispatchContext = {
+      connectionKey: session.connectionKey,
+      sessionId: session.id,
+      auth: this.auth,
+      notify: (notification) => this.send(notification),
+      internalRequestId: crypto.randomUUID(),
+    };
+
+    if (Array.isArray(message)) {
+      const responses = await dispatchBatch(message, context);
+      if (responses.length > 0) {
+        this.send(responses);
+      }
+      return;
+    }
+
+    const result = await dispatchMessage(message, context);
+    switch (result.kind) {
+      case "accepted":
+        return;
+      case "response":
+        this.send(result.response);
+        return;
+      case "stream":
+        await relayToolStream(result.stream, result.requestId, (msg) =>
+          this.send(msg)
+        );
+        return;
+    }
+  }
+}
+
+/**
+ * Resolve the auth context for a STDIO session.
+ * Hosts pass credentials through `MCP_CLIENT_ID`/`MCP_API_KEY`, mirroring the
+ * `X-Client-ID`/`Authorization` headers checked on HTTP.
+ */
+async function resolveStdioAuth(): Promise<AuthContext["auth"] | undefined> {
+  if (!config.auth.enableAuth) {
+    return undefined;
+  }
+  const client = await authService.authenticate(
+    process.env.MCP_CLIENT_ID || null,
+    process.env.MCP_API_KEY || null
+  );
+  if (!client) {
+    stdioLogger.warn(
+      "STDIO client could not be authenticated; only unauthenticated access applies"
+    );
+  }
+  return {
+    isAuthenticated: !!client,
+    clientId: client?.id,
+    clientName: client?.name,
+    permissions: client?.permissions,
+  };
+}
+
+/**
+ * Run the server over stdin/stdout until stdin closes.
+ * stdout carries protocol messages only, so console output is moved to stderr.
+ */
+export async function startStdioServer(): Promise<void> {
+  console.log = console.error;
+  const transport = new StdioTransport({ auth: await resolveStdioAuth() });
+  await transport.start();
+}
@@ -0,0 +1,444 @@
+import type { Context } from "hono";
+import type { DispatchContext } from "../mcp/dispatcher";
+import { dispatchBatch, dispatchMessage } from "../mcp/dispatcher";
+import {
+  DEFAULT_PROTOCOL_VERSION,
+  lifecycle,
+  SUPPORTED_PROTOCOL_VERSIONS,
+} from "../mcp/lifecycle";
+import type { AuthContext } from "../middleware/auth";
+import { sessions } from "../session";
+import type {
+  JsonRpcNotification,
+  JsonRpcRequest,
+  JsonRpcResponse,
+} from "../types/json-rpc";
+import type { Session } from "../types/session";
+import { config } from "../utils/config";
+import { createJsonRpcErrorResponse } from "../utils/jsonrpc_helpers";
+import { logger } from "../utils/logger";
+import { relayToolStream } from "./toolStream";
+
+const httpLogger = logger.child({ component: "streamable-http" });
+
+export const SESSION_HEADER = "Mcp-Session-Id";
+export const PROTOCOL_VERSION_HEADER = "MCP-Protocol-Version";
+
+const SSE_HEADERS = {
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache",
+  Connection: "keep-alive",
+};
+
+export type ServerMessage =
+  | JsonRpcResponse
+  | JsonRpcResponse[]
+  | JsonRpcNotification
+  | JsonRpcRequest;
+
+type SseChannel = ReadableStreamDefaultController<Uint8Array>;
+
+const encoder = new TextEncoder();
+
+/**
+ * Formats a JSON-RPC message as a single SSE `message` event
+ */
+export function formatSseEvent(message: ServerMessage): Uint8Array {
+  return encoder.encode(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+}
+
+/**
+ * Whether the request's Accept header allows the given media type
+ */
+function accepts(c: Context, mediaType: string): boolean {
+  const accept = c.req.header("Accept");
+  if (!accept) return true;
+  return accept
+    .split(",")
+    .map((part) => part.split(";")[0].trim().toLowerCase())
+    .some((type) => type === mediaType || type === "*/*");
+}
+
+function hasProgressToken(message: unknown): boolean {
+  const params = (message as { params?: { _meta?: Record<string, unknown> } })
+    ?.params;
+  return params?._meta?.progressToken !== undefined;
+}
+
+function isRequestMessage(message: unknown): boolean {
+  return (
+    typeof message === "object" &&
+    message !== null &&
+    "method" in message &&
+    "id" in message
+  );
+}
+
+/**
+ * MCP Streamable HTTP transport.
+ * See: https://modelcontextprotocol.io/specification/2025-03-26/basic/transports#streamable-http
+ *
+ * A single endpoint accepts POSTed JSON-RPC messages and answers with JSON or,
+ * for streamed tool output, `text/event-stream`. A GET on the same endpoint
+ * opens an SSE channel for server-initiated messages. `initialize` assigns the
+ * `Mcp-Session-Id` that every later request must echo, and DELETE ends it.
+ *
+ * JSON-RPC errors are returned with HTTP 200 so spec clients read them as
+ * protocol errors; only transport-level failures (missing or unknown session,
+ * unparseable body, unacceptable media type) use HTTP error statuses.
+ */
+export class StreamableHttpTransport {
+  // Open GET streams per session, each with the function that releases it;
+  // these cannot live in the session store
+  private channels: Map<string, Map<SseChannel, () => void>> = new Map();
+
+  constructor() {
+    sessions.onEnd((session) => this.closeChannels(session.id));
+  }
+
+  /**
+   * Handle a POST carrying one JSON-RPC message or a batch
+   */
+  async handlePost(c: Context): Promise<Response> {
+    if (!accepts(c, "application/json") && !accepts(c, "text/event-stream")) {
+      return c.json(
+        createJsonRpcErrorResponse(
+          null,
+          -32600,
+          "Not Acceptable: client must accept application/json or text/event-stream."
+        ),
+        406
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = await c.req.json();
+    } catch (e) {
+      return c.json(
+        createJsonRpcErrorResponse(
+          null,
+          -32700,
+          "Parse error: Invalid JSON received."
+        ),
+        400
+      );
+    }
+
+    const messages = Array.isArray(body) ? body : [body];
+    const isInitialize = messages.some(
+      (m) =>
+        isRequestMessage(m) &&
+        (m as { method?: unknown }).method === "initialize"
+    );
+    if (isInitialize && Array.isArray(body)) {
+      return c.json(
+        createJsonRpcErrorResponse(
+          null,
+          -32600,
+          "Invalid Request: 'initialize' must not be part of a batch."
+        ),
+        400
+      );
+    }
+
+    const auth = c.get("auth") as AuthContext["auth"] | undefined;
+    let session: Session;
+    if (isInitialize) {
+      session = await sessions.create({
+        transport: "http",
+        clientId: auth?.clientId,
+      });
+      // Server-initiated messages go out over the session's GET channels;
+      // client requests fall back to the POST stream that caused them
+      const sessionId = session.id;
+      sessions.bindSender(sessionId, (message) =>
+        this.send(sessionId, message)
+      );
+    } else {
+      const resolved = await this.resolveSession(c, auth);
+      if (resolved instanceof Response) return resolved;
+      session = resolved;
+    }
+
+    const context: DispatchContext = {
+      connectionKey: session.connectionKey,
+      sessionId: session.id,
+      auth,
+      internalRequestId: c.get("requestId"),
+      signal: c.req.raw.signal,
+      // Only used when the session has no negotiated version on record
+      protocolVersion:
+        c.req.header(PROTOCOL_VERSION_HEADER) ?? DEFAULT_PROTOCOL_VERSION,
+    };
+    const headers = { [SESSION_HEADER]: session.id };
+
+    // Input made only of notifications (or client responses) gets 202 and no body
+    if (!messages.some(isRequestMessage)) {
+      await Promise.all(
+        messages
+          .filter((m) => typeof m === "object" && m !== null)
+          .map((m) => dispatchMessage(m, context))
+      );
+      return c.body(null, 202, headers);
+    }
+
+    if (Array.isArray(body)) {
+      return c.json(await dispatchBatch(body, context), 200, headers);
+    }
+
+    const acceptsSse = accepts(c, "text/event-stream");
+    if (acceptsSse && hasProgressToken(body)) {
+      // Progress notifications must precede the response, so answer with SSE
+      // straight away and let the dispatcher push messages onto it
+      return this.openSseResponse(headers, async (send, disconnected) => {
+        const result = await dispatchMessage(body, {
+          ...context,
+          allowStreaming: true,
+          notify: send,
+        });
+        if (result.kind === "response") {
+          send(result.response);
+        } else if (result.kind === "stream") {
+          await relayToolStream(
+            result.stream,
+            result.requestId,
+            send,
+            disconnected
+          );
+        }
+      });
+    }
+
+    const result = await dispatchMessage(body, {
+      ...context,
+      allowStreaming: acceptsSse,
+    });
+    switch (result.kind) {
+      case "accepted":
+        return c.body(null, 202, headers);
+      case "response":
+        if (isInitialize && "error" in result.response) {
+          // A failed handshake leaves no session behind
+          await sessions.terminate(session.id, "closed");
+          return c.json(result.response);
+        }
+        return c.json(result.response, 200, headers);
+      case "stream":
+        return this.openSseResponse(headers, (send, disconnected) =>
+          relayToolStream(result.stream, result.requestId, send, disconnected)
+        );
+    }
+  }
+
+  /**
+   * Handle a GET that opens the server-to-client SSE channel for a session
+   */
+  async handleGet(c: Context): Promise<Response> {
+    if (!accepts(c, "text/event-stream")) {
+      return c.json(
+        createJsonRpcErrorResponse(
+          null,
+          -32600,
+          "Not Acceptable: client must accept text/event-stream."
+        ),
+        406
+      );
+    }
+
+    const auth = c.get("auth") as AuthContext["auth"] | undefined;
+    const resolved = await this.resolveSession(c, auth);
+    if (resolved instanceof Response) return resolved;
+    const session = resolved;
+
+    const channels =
+      this.channels.get(session.id) ?? new Map<SseChannel, () => void>();
+    this.channels.set(session.id, channels);
+
+    const signal = c.req.raw.signal;
+    let channel: SseChannel;
+    let keepAlive: ReturnType<typeof setInterval> | undefined;
+    const close = () => {
+      if (keepAlive) clearInterval(keepAlive);
+      signal?.removeEventListener("abort", close);
+      channels.delete(channel);
+    };
+
+    const stream = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        channel = controller;
+        channels.set(controller, close);
+        controller.enqueue(encoder.encode(": connected\n\n"));
+        if (config.mcp.sseKeepAliveMs > 0) {
+          keepAlive = setInterval(() => {
+            try {
+              controller.enqueue(encoder.encode(": keep-alive\n\n"));
+            } catch (e) {
+              close();
+            }
+          }, config.mcp.sseKeepAliveMs);
+        }
+      },
+      cancel: close,
+    });
+    signal?.addEventListener("abort", close);
+
+    httpLogger.debug("SSE channel opened", { sessionId: session.id });
+    return new Response(stream, {
+      headers: { ...SSE_HEADERS, [SESSION_HEADER]: session.id },
+    });
+  }
+
+  /**
+   * Handle a DELETE that ends the client's session
+   */
+  async handleDelete(c: Context): Promise<Response> {
+    const auth = c.get("auth") as AuthContext["auth"] | undefined;
+    const resolved = await this.resolveSession(c, auth);
+    if (resolved instanceof Response) return resolved;
+
+    await sessions.terminate(resolved.id, "deleted");
+    return c.body(null, 200);
+  }
+
+  /**
+   * Send a server-initiated message to every open GET channel of a session
+   * @returns true if at least one channel received the message
+   */
+  send(sessionId: string, message: ServerMessage): boolean {
+    const channels = this.channels.get(sessionId);
+    if (!channels || channels.size === 0) {
+      return false;
+    }
+    const event = formatSseEvent(message);
+    for (const [channel, close] of channels) {
+      try {
+        channel.enqueue(event);
+      } catch (e) {
+        close();
+      }
+    }
+    return channels.size > 0;
+  }
+
+  /**
+   * Answer a POST with an SSE stream fed by `produce`.
+   * The stream closes when `produce` settles; `disconnected` aborts if the
+   * client stops reading first.
+   */
+  private openSseResponse(
+    headers: Record<string, string>,
+    produce: (
+      send: (message: ServerMessage) => void,
+      disconnected: AbortSignal
+    ) => Promise<void>
+  ): Response {
+    const sse = new TransformStream<Uint8Array, Uint8Array>();
+    const writer = sse.writable.getWriter();
+    // The writable side errors once the client stops reading the events
+    const disconnected = new AbortController();
+    writer.closed.catch(() => disconnected.abort("Client disconnected"));
+
+    const send = (message: ServerMessage) => {
+      writer.write(formatSseEvent(message)).catch(() => {});
+    };
+    produce(send, disconnected.signal)
+      .catch((error) => {
+        httpLogger.error(
+          "Failed to produce SSE response",
+          error instanceof Error ? error : undefined
+        );
+      })
+      .finally(() => writer.close().catch(() => {}));
+
+    return new Response(sse.readable, {
+      headers: { ...SSE_HEADERS, ...headers },
+    });
+  }
+
+  private closeChannels(sessionId: string) {
+    const channels = this.channels.get(sessionId);
+    if (!channels) return;
+    for (const [channel, close] of channels) {
+      close();
+      try {
+        channel.close();
+      } catch (e) {
+        // Already closed by the client
+      }
+    }
+    this.channels.delete(sessionId);
+  }
+
+  /**
+   * Look up (and refresh) the session named by the request header.
+   * Returns the HTTP error response to send when it is missing or unknown.
+   */
+  private async resolveSession(
+    c: Context,
+    auth?: AuthContext["auth"]
+  ): Promise<Session | Response> {
+    const sessionId = c.req.header(SESSION_HEADER);
+    if (!sessionId) {
+      return c.json(
+        createJsonRpcErrorResponse(
+          null,
+          -32600,
+          `Bad Request: ${SESSION_HEADER} header is required; send 'initialize' first.`
+        ),
+        400
+      );
+    }
+
+    // Clients name the negotiated version on every request after initialize
+    const protocolVersion = c.req.header(PROTOCOL_VERSION_HEADER);
+    if (
+      protocolVersion !== undefined &&
+      !SUPPORTED_PROTOCOL_VERSIONS.includes(protocolVersion)
+    ) {
+      return c.json(
+        createJsonRpcErrorResponse(
+          null,
+          -32600,
+          `Bad Request: unsupported ${PROTOCOL_VERSION_HEADER}: ${protocolVersion}. Supported versions: ${SUPPORTED_PROTOCOL_VERSIONS.join(
+            ", "
+          )}.`
+        ),
+        400
+      );
+    }
+
+    const session = await sessions.touch(sessionId);
+    // Sessions are bound to the client that created them
+    if (!session || session.clientId !== auth?.clientId) {
+      return c.json(
+        createJsonRpcErrorResponse(
+          null,
+          -32001,
+          "Session not found: re-initialize to start a new session."
+        ),
+        404
+      );
+    }
+
+    const negotiated = lifecycle.get(session.connectionKey)?.protocolVersion;
+    if (
+      protocolVersion !== undefined &&
+      negotiated !== undefined &&
+      protocolVersion !== negotiated
+    ) {
+      return c.json(
+        createJsonRpcErrorResponse(
+          null,
+          -32600,
+          `Bad Request: ${PROTOCOL_VERSION_HEADER} ${protocolVersion} does not match the version negotiated for this session (${negotiated}).`
+        ),
+        400
+      );
+    }
+    return session;
+  }
+}
+
+// Shared transport instance mounted on the HTTP app
+export const streamableHttp = new StreamableHttpTransport();
@@ -0,0 +1,98 @@
+import type {
+  JsonRpcId,
+  JsonRpcNotification,
+  JsonRpcResponse,
+} from "../types/json-rpc";
+import { createJsonRpcErrorResponse } from "../utils/jsonrpc_helpers";
+import { logger } from "../utils/logger";
+
+const toolStreamLogger = logger.child({ component: "tool-stream" });
+
+export type ToolStreamMessage = JsonRpcResponse | JsonRpcNotification;
+
+/**
+ * Relays a JSONL tool stream produced by the dispatcher onto a
+ * message-oriented transport. Partial chunks become
+ * `notifications/tools/chunk` notifications and the final chunk (or error)
+ * is sent as the response to the original request.
+ * @param stream The JSONL stream returned by `dispatchMessage`
+ * @param requestId Id of the request the stream answers
+ * @param send Writes one message to the transport
+ * @param signal Optional signal that stops the relay and cancels the tool stream
+ */
+export async function relayToolStream(
+  stream: ReadableStream<Uint8Array>,
+  requestId: JsonRpcId,
+  send: (message: ToolStreamMessage) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const reader = stream.getReader();
+  const onAbort = () => {
+    reader.cancel(signal?.reason).catch(() => {});
+  };
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener("abort", onAbort, { once: true });
+  }
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let finished = false;
+  let lastId: JsonRpcResponse["id"] = requestId;
+
+  const forwardLine = (line: string) => {
+    if (!line.trim() || finished) return;
+    let chunk: any;
+    try {
+      chunk = JSON.parse(line);
+    } catch (e) {
+      toolStreamLogger.warn("Dropping unparseable stream chunk", { line });
+      return;
+    }
+    if (typeof chunk.method === "string") {
+      // Already a notification (e.g. progress); pass it through untouched
+      send(chunk as JsonRpcNotification);
+      return;
+    }
+    lastId = chunk.id ?? lastId;
+    if (chunk.error || chunk.result?.metadata?.partial !== true) {
+      finished = true;
+      send(chunk as JsonRpcResponse);
+      return;
+    }
+    send({
+      jsonrpc: "2.0",
+      method: "notifications/tools/chunk",
+      params: {
+        requestId: chunk.id,
+        content: chunk.result.content,
+        metadata: chunk.result.metadata,
+      },
+    });
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+      lines.forEach(forwardLine);
+    }
+    forwardLine(buffer);
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+    reader.releaseLock();
+  }
+
+  if (!finished && !signal?.aborted) {
+    send(
+      createJsonRpcErrorResponse(
+        lastId,
+        -32603,
+        "Stream ended without a final result."
+      )
+    );
+  }
+}
@@ -0,0 +1,291 @@
+import type { Context, MiddlewareHandler } from "hono";
+import { websocket as bunWebSocket, upgradeWebSocket } from "hono/bun";
+import type { WSEvents, WSMessageReceive } from "hono/ws";
+import type { DispatchContext } from "../mcp/dispatcher";
+import { dispatchBatch, dispatchMessage } from "../mcp/dispatcher";
+import type { AuthContext } from "../middleware/auth";
+import { sessions } from "../session";
+import type {
+  JsonRpcNotification,
+  JsonRpcRequest,
+  JsonRpcResponse,
+} from "../types/json-rpc";
+import type { Session } from "../types/session";
+import { config } from "../utils/config";
+import { createJsonRpcErrorResponse } from "../utils/jsonrpc_helpers";
+import { logger } from "../utils/logger";
+import { relayToolStream } from "./toolStream";
+
+const wsLogger = logger.child({ component: "websocket-transport" });
+
+// Close code for frames over the size limit (RFC 6455, section 7.4.1)
+const MESSAGE_TOO_BIG = 1009;
+
+export type WebSocketOutboundMessage =
+  | JsonRpcResponse
+  | JsonRpcResponse[]
+  | JsonRpcNotification
+  | JsonRpcRequest;
+
+/**
+ * The parts of a WebSocket the transport needs
+ */
+export interface WebSocketLike {
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+}
+
+export interface WebSocketConnectionOptions {
+  // Auth context resolved by the `authentication` middleware on upgrade
+  auth?: AuthContext["auth"];
+  // Largest message the client may send, in bytes
+  maxMessageBytes?: number;
+}
+
+/**
+ * Size in bytes of a received WebSocket message
+ */
+function messageSize(data: WSMessageReceive): number {
+  if (typeof data === "string") return Buffer.byteLength(data);
+  if (data instanceof Blob) return data.size;
+  return data.byteLength;
+}
+
+/**
+ * Decodes a received WebSocket message (text or binary frame) as UTF-8
+ */
+async function messageText(data: WSMessageReceive): Promise<string> {
+  if (typeof data === "string") return data;
+  if (data instanceof Blob) return data.text();
+  return new TextDecoder().decode(data);
+}
+
+/**
+ * One client connection over WebSocket.
+ * Each frame is one JSON-RPC message (or batch) and goes through the same
+ * dispatcher as the HTTP `/invoke` route. The connection is a session of its
+ * own, so server-initiated requests and notifications are pushed over the
+ * same socket, and closing the socket ends the session and aborts its
+ * in-flight requests.
+ */
+export class WebSocketConnection {
+  private readonly socket: WebSocketLike;
+  private readonly auth?: AuthContext["auth"];
+  private readonly maxMessageBytes: number;
+  private readonly closed = new AbortController();
+  private session?: Promise<Session>;
+
+  constructor(socket: WebSocketLike, options: WebSocketConnectionOptions = {}) {
+    this.socket = socket;
+    this.auth = options.auth;
+    this.maxMessageBytes =
+      options.maxMessageBytes ?? config.mcp.wsMaxMessageBytes;
+  }
+
+  /**
+   * Start the session for this connection
+   * @returns The session; messages received meanwhile wait for it
+   */
+  open(): Promise<Session> {
+    this.session ??= this.createSession();
+    return this.session;
+  }
+
+  /**
+   * Write a single message to the socket.
+   * Messages for a socket that has closed are dropped.
+   */
+  send(message: WebSocketOutboundMessage): boolean {
+    if (this.closed.signal.aborted) return false;
+    try {
+      this.socket.send(JSON.stringify(message));
+      return true;
+    } catch (error) {
+      wsLogger.warn("Failed to write to WebSocket", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Handle one message from the client
+   */
+  async receive(data: WSMessageReceive): Promise<void> {
+    const session = await this.open();
+    const size = messageSize(data);
+    if (size > this.maxMessageBytes) {
+      wsLogger.warn("WebSocket message over the size limit", {
+        sessionId: session.id,
+        size,
+        limit: this.maxMessageBytes,
+      });
+      this.send(
+        createJsonRpcErrorResponse(
+          null,
+          -32600,
+          `Invalid Request: message of ${size} bytes exceeds the limit of ${this.maxMessageBytes} bytes.`
+        )
+      );
+      this.socket.close(MESSAGE_TOO_BIG, "Message too large");
+      await this.close();
+      return;
+    }
+
+    let message: unknown;
+    try {
+      message = JSON.parse(await messageText(data));
+    } catch (e) {
+      this.send(
+        createJsonRpcErrorResponse(
+          null,
+          -32700,
+          "Parse error: Invalid JSON received."
+        )
+      );
+      return;
+    }
+
+    const context: DispatchContext = {
+      connectionKey: session.connectionKey,
+      sessionId: session.id,
+      auth: this.auth,
+      notify: (notification) => this.send(notification),
+      internalRequestId: crypto.randomUUID(),
+      signal: this.closed.signal,
+    };
+
+    if (Array.isArray(message)) {
+      const responses = await dispatchBatch(message, context);
+      if (responses.length > 0) {
+        this.send(responses);
+      }
+      return;
+    }
+
+    const result = await dispatchMessage(message, context);
+    switch (result.kind) {
+      case "accepted":
+        return;
+      case "response":
+        this.send(result.response);
+        return;
+      case "stream":
+        await relayToolStream(
+          result.stream,
+          result.requestId,
+          (msg) => this.send(msg),
+          this.closed.signal
+        );
+        return;
+    }
+  }
+
+  /**
+   * End the session once the socket has closed
+   */
+  async close(): Promise<void> {
+    if (this.closed.signal.aborted) return;
+    this.closed.abort(new Error("WebSocket closed"));
+    if (this.session) {
+      const session = await this.session;
+      await sessions.terminate(session.id, "closed");
+      wsLogger.info("WebSocket connection closed", { sessionId: session.id });
+    }
+  }
+
+  private async createSession(): Promise<Session> {
+    // The session lives as long as the socket, so it never expires
+    const session = await sessions.create({
+      transport: "websocket",
+      clientId: this.auth?.clientId,
+      ttlMs: 0,
+    });
+    sessions.bindSender(session.id, (message) => this.send(message));
+    wsLogger.info("WebSocket connection opened", { sessionId: session.id });
+    return session;
+  }
+}
+
+/**
+ * Creates the event handlers for one upgraded connection.
+ * Runs after the `authentication` middleware, so the connection keeps the
+ * auth context of the upgrade request.
+ */
+export function createWebSocketEvents(c: Context): WSEvents {
+  const auth = c.get("auth") as AuthContext["auth"] | undefined;
+  let connection: WebSocketConnection | undefined;
+  return {
+    onOpen: (_event, ws) => {
+      connection = new WebSocketConnection(ws, { auth });
+      connection.open().catch((error) => {
+        wsLogger.error(
+          "Failed to open WebSocket session",
+          error instanceof Error ? error : undefined
+        );
+      });
+    },
+    onMessage: (event) => {
+      connection?.receive(event.data).catch((error) => {
+        wsLogger.error(
+          "Unhandled error processing WebSocket message",
+          error instanceof Error ? error : undefined
+        );
+      });
+    },
+    onClose: () => {
+      connection?.close().catch(() => {});
+    },
+  };
+}
+
+const upgrade = upgradeWebSocket(createWebSocketEvents);
+
+/**
+ * Bun's handler for upgraded connections.
+ * Bun closes a connection whose frame exceeds `maxPayloadLength` (code 1009)
+ * before buffering it, so oversized frames never reach `receive`.
+ */
+export const websocket = {
+  ...bunWebSocket,
+  maxPayloadLength: config.mcp.wsMaxMessageBytes,
+};
+
+/**
+ * Route handler that upgrades a request to an MCP WebSocket connection.
+ * The `authentication` middleware has run by now; with auth enabled, the
+ * upgrade is refused unless the request authenticated, rather than leaving an
+ * unauthenticated socket open. Requests without any credentials are only let
+ * through when `MCP_WS_ALLOW_ANONYMOUS` is set.
+ */
+export const webSocketUpgrade: MiddlewareHandler = async (c, next) => {
+  if (c.req.header("Upgrade")?.toLowerCase() !== "websocket") {
+    return c.json(
+      createJsonRpcErrorResponse(
+        null,
+        -32600,
+        "Upgrade Required: connect with a WebSocket client."
+      ),
+      426
+    );
+  }
+  const auth = c.get("auth") as AuthContext["auth"] | undefined;
+  if (config.auth.enableAuth && !auth?.isAuthenticated) {
+    const hasCredentials = !!(
+      c.req.header("Authorization") || c.req.header("X-Client-ID")
+    );
+    if (hasCredentials || !config.auth.allowAnonymousWebSocket) {
+      return c.json(
+        createJsonRpcErrorResponse(
+          null,
+          -32000,
+          hasCredentials
+            ? "Access Denied: the provided credentials could not be authenticated."
+            : "Access Denied: credentials are required to open a WebSocket connection."
+        ),
+        401
+      );
+    }
+  }
+  return upgrade(c, next);
+};
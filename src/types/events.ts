@@ -0,0 +1,25 @@
+/**
+ * Something changed that connected clients may need to hear about.
+ * Published by whatever owns the data, consumed by the notification fan-out.
+ */
+export type ChangeEvent =
+  // The contents of one resource changed
+  | { type: "resource_updated"; uri: string }
+  // Resources were added to or removed from the server
+  | { type: "resource_list_changed" }
+  // Tools were registered, removed, enabled or disabled
+  | { type: "tool_list_changed" };
+
+export type ChangeEventListener = (event: ChangeEvent) => void | Promise<void>;
+
+/**
+ * Change Event Bus
+ * Transport for change events. The in-memory bus only reaches listeners in
+ * this process; a shared implementation (e.g. Redis pub/sub) lets changes made
+ * on one instance reach clients connected to another.
+ */
+export interface ChangeEventBus {
+  publish(event: ChangeEvent): Promise<void>;
+  // Returns a function that removes the listener again
+  subscribe(listener: ChangeEventListener): () => void;
+}
@@ -1,7 +1,16 @@
 /**
- * MCP - Protocol Revision: 2025-03-26
- * https://spec.modelcontextprotocol.io/specification/2025-03-26/
+ * MCP - Protocol Revision: 2025-06-18 (2025-03-26 and 2024-11-05 also supported)
+ * https://modelcontextprotocol.io/specification/2025-06-18/
  */
+import type {
+  GetPromptResponseResult,
+  McpContentBlock,
+  McpPromptArgument,
+  McpResource,
+  McpResourceContent,
+  McpResourceTemplate,
+  McpToolAnnotations,
+} from "../mcp/types";
 import type { PermissionLevel } from "../utils/auth";
 
 export interface MCPTool {
@@ -27,6 +36,12 @@ export interface MCPTool {
     required?: string[];
   };
 
+  // Optional JSON schema of the tool's structured output
+  outputSchema?: ToolOutputSchema;
+
+  // Optional hints about the tool's behavior (read-only, destructive, ...)
+  annotations?: McpToolAnnotations;
+
   // Optional metadata object for custom fields
   metadata?: {
     permissionLevel?: PermissionLevel;
@@ -37,6 +52,17 @@ export interface MCPTool {
   };
 }
 
+/**
+ * Tool Output Schema
+ * JSON schema of the `structuredContent` a tool returns (always an object)
+ */
+export interface ToolOutputSchema {
+  type: "object";
+  properties?: Record<string, any>;
+  required?: string[];
+  [key: string]: any;
+}
+
 /**
  * MCP Tool Request
  * The format of a tool call request from an MCP client
@@ -52,8 +78,16 @@ export interface MCPToolRequest {
  * The format of a tool call response from an MCP server
  */
 export interface MCPToolResponse {
-  // The tool call response content
-  content: any;
+  // The tool call response content: content blocks are passed through to
+  // `tools/call` results, anything else is wrapped in a text block
+  content: McpContentBlock[] | McpContentBlock | any;
+
+  // Whether the content describes a failure the model should see
+  isError?: boolean;
+
+  // Structured result matching the tool's `outputSchema`. Tools with an
+  // output schema may leave it out when `content` is already that object.
+  structuredContent?: Record<string, any>;
 
   // Optional metadata about the response
   metadata?: Record<string, any>;
@@ -101,6 +135,16 @@ export type ToolHandler = (
   parameters: Record<string, any>
 ) => Promise<MCPToolResponse>;
 
+/**
+ * Completion Handler Function
+ * Suggests values for one argument from the partial value typed so far.
+ * `context.arguments` holds the values of arguments already filled in.
+ */
+export type CompletionHandler = (
+  value: string,
+  context: { arguments: Record<string, string> }
+) => Promise<string[]>;
+
 /**
  * Tool Registration Options
  * Configuration options when registering a new tool
@@ -120,11 +164,15 @@ export interface ToolRegistrationOptions {
     >;
     required?: string[];
   };
+  outputSchema?: ToolOutputSchema;
+  annotations?: McpToolAnnotations;
   handler: ToolHandler;
   permissionLevel?: PermissionLevel;
   tags?: string[];
   category?: string;
   enabled?: boolean;
+  // Custom completers by parameter name (enum parameters complete by default)
+  completions?: Record<string, CompletionHandler>;
 }
 
 /**
@@ -138,4 +186,134 @@ export interface ToolRegistry {
   getToolDefinition(name: string): MCPTool | undefined;
   getAllTools(): MCPTool[];
   isToolRegistered(name: string): boolean;
+  getToolCompleter(
+    name: string,
+    argument: string
+  ): CompletionHandler | undefined;
+}
+
+/**
+ * MCP Prompt Definition
+ * A reusable prompt template that renders into messages
+ */
+export interface MCPPrompt {
+  // The name of the prompt, used when getting it
+  name: string;
+
+  // A description of what the prompt is for
+  description?: string;
+
+  // The arguments the prompt accepts
+  arguments?: McpPromptArgument[];
+
+  // Optional metadata object for custom fields
+  metadata?: {
+    permissionLevel?: PermissionLevel;
+    category?: string;
+    tags?: string[];
+    [key: string]: any;
+  };
+}
+
+/**
+ * Prompt Handler Function
+ * Renders a prompt into messages from its (string) arguments
+ */
+export type PromptHandler = (
+  args: Record<string, string>
+) => Promise<GetPromptResponseResult>;
+
+/**
+ * Prompt Registration Options
+ * Configuration options when registering a new prompt
+ */
+export interface PromptRegistrationOptions {
+  name: string;
+  description?: string;
+  arguments?: McpPromptArgument[];
+  handler: PromptHandler;
+  permissionLevel?: PermissionLevel;
+  tags?: string[];
+  category?: string;
+  enabled?: boolean;
+  // Custom completers by argument name
+  completions?: Record<string, CompletionHandler>;
+}
+
+/**
+ * Prompt Registry
+ * Interface for a registry that manages prompt registrations
+ */
+export interface PromptRegistry {
+  register(options: PromptRegistrationOptions): void;
+  unregister(name: string): boolean;
+  getPromptHandler(name: string): PromptHandler | undefined;
+  getPromptDefinition(name: string): MCPPrompt | undefined;
+  getAllPrompts(): MCPPrompt[];
+  isPromptRegistered(name: string): boolean;
+  getPromptCompleter(
+    name: string,
+    argument: string
+  ): CompletionHandler | undefined;
+}
+
+/**
+ * Resource Provider
+ * Serves every resource under one URI scheme (e.g. `tasks://...`)
+ */
+export interface ResourceProvider {
+  // URI scheme handled by the provider, without "://" (e.g. "tasks")
+  scheme: string;
+
+  // Permission level required to list, read or subscribe to its resources
+  permissionLevel?: PermissionLevel;
+
+  // URI templates describing its parameterized resources. A provider with
+  // templates is only asked for URIs that match one of them.
+  templates?: McpResourceTemplate[];
+
+  // Custom completers by template variable name
+  completions?: Record<string, CompletionHandler>;
+
+  // The concrete resources currently available
+  list(): Promise<McpResource[]>;
+
+  // Read a resource; resolves to undefined when it does not exist.
+  // `variables` holds the values of the matched template's variables.
+  read(
+    uri: string,
+    variables: Record<string, string>
+  ): Promise<McpResourceContent[] | undefined>;
+
+  // Watch a resource for changes made outside the server (e.g. files edited
+  // on disk), calling `onChange` for each one. Returns a function that stops
+  // watching. Providers whose data only changes through the server publish
+  // change events instead.
+  subscribe?(
+    uri: string,
+    onChange: () => void,
+    variables: Record<string, string>
+  ): () => void;
+}
+
+/**
+ * The provider serving a resource URI and the values of its template variables
+ * (empty for providers without templates)
+ */
+export interface ResourceMatch {
+  provider: ResourceProvider;
+  variables: Record<string, string>;
+}
+
+/**
+ * Resource Provider Registry
+ * Interface for a registry that manages resource providers by URI scheme
+ */
+export interface ResourceProviderRegistry {
+  register(provider: ResourceProvider): void;
+  unregister(scheme: string): boolean;
+  getProvider(scheme: string): ResourceProvider | undefined;
+  getProviderForUri(uri: string): ResourceProvider | undefined;
+  resolve(uri: string): ResourceMatch | undefined;
+  getAllProviders(): ResourceProvider[];
 }
@@ -0,0 +1,75 @@
+import type { JsonRpcNotification, JsonRpcRequest } from "./json-rpc";
+
+/**
+ * Server-side state for one client session.
+ * Sessions are created by transports that carry a session identity
+ * (one per `Mcp-Session-Id` on Streamable HTTP, one per STDIO process,
+ * one per WebSocket connection).
+ */
+export interface Session {
+  id: string;
+  transport: "http" | "stdio" | "websocket";
+  // Key used for lifecycle tracking of this session's connection
+  connectionKey: string;
+  // Authenticated client that created the session, if any
+  clientId?: string;
+  createdAt: string;
+  lastActiveAt: string;
+  // Idle time-to-live in milliseconds; 0 never expires
+  ttlMs: number;
+  // Epoch milliseconds after which the session expires; null never expires
+  expiresAt: number | null;
+  // Free-form per-session state (subscriptions, log level, roots, ...)
+  data: Record<string, unknown>;
+}
+
+/**
+ * Options for creating a session
+ */
+export interface CreateSessionOptions {
+  transport: Session["transport"];
+  clientId?: string;
+  // Idle time-to-live override in milliseconds; 0 disables expiry
+  ttlMs?: number;
+}
+
+/**
+ * A message the server sends on its own initiative: a notification, or a
+ * request the client answers later (e.g. `sampling/createMessage`)
+ */
+export type ServerInitiatedMessage = JsonRpcNotification | JsonRpcRequest;
+
+/**
+ * Delivers a server-initiated message to a session's client
+ * @returns false if the message could not be delivered (e.g. no open stream)
+ */
+export type SessionSender = (message: ServerInitiatedMessage) => boolean;
+
+/**
+ * Why a session ended
+ */
+export type SessionEndReason = "deleted" | "expired" | "closed";
+
+/**
+ * Applies a change to a session in place
+ */
+export type SessionChange = (session: Session) => void;
+
+/**
+ * Session Store
+ * Persistence backend for sessions. Implementations may be remote, so every
+ * operation is asynchronous. Sessions are shared by concurrent requests, so
+ * changes to a stored session go through `update` and `touch`, which apply
+ * atomically, rather than a `get` followed by `set`.
+ */
+export interface SessionStore {
+  get(id: string): Promise<Session | undefined>;
+  set(session: Session): Promise<void>;
+  // Apply a change to the stored session and return the result
+  update(id: string, change: SessionChange): Promise<Session | undefined>;
+  // Record activity at `now` and extend the expiry by the session's TTL
+  touch(id: string, now: number): Promise<Session | undefined>;
+  delete(id: string): Promise<boolean>;
+  // Remove every session whose expiry is at or before `now` and return them
+  purgeExpired(now: number): Promise<Session[]>;
+}
@@ -11,12 +11,15 @@ interface ServerConfig {
   port: number;
   environment: "development" | "production" | "test";
   logLevel: "debug" | "info" | "warn" | "error";
+  transport: "http" | "stdio";
 }
 
 interface AuthConfig {
   enabled: boolean;
   enableAuth: boolean;
   apiKeys: string[];
+  // Accept WebSocket upgrades without credentials while auth is enabled
+  allowAnonymousWebSocket: boolean;
 }
 
 interface ApiKeys {
@@ -35,12 +38,32 @@ interface FsToolConfig {
   allowedWritePaths?: string[];
 }
 
+interface McpConfig {
+  // Accept the pre-spec form where the JSON-RPC method is the tool name
+  legacyToolMethods: boolean;
+  // Upper bound on the number of messages in a JSON-RPC batch
+  maxBatchSize: number;
+  // Interval for SSE keep-alive comments on the Streamable HTTP channel (0 disables)
+  sseKeepAliveMs: number;
+  // Idle time after which a session expires (0 disables expiry)
+  sessionTtlMs: number;
+  // How long a server-initiated request (e.g. sampling) waits for the client
+  clientRequestTimeoutMs: number;
+  // Extra attempts after a transient failure, for read-only or idempotent tools only
+  toolRetries: number;
+  // Maximum number of items per page of tools/list, resources/list, etc. (0 disables paging)
+  pageSize: number;
+  // Largest message a WebSocket client may send, in bytes
+  wsMaxMessageBytes: number;
+}
+
 interface Config {
   server: ServerConfig;
   auth: AuthConfig;
   apiKeys: ApiKeys;
   pinecone: PineconeConfig;
   fsTool: FsToolConfig;
+  mcp: McpConfig;
 }
 
 function parseNumber(value: string | undefined, defaultValue: number): number {
@@ -81,11 +104,26 @@ function createConfig(): Config {
     );
   }
 
+  const transportRaw = process.env.MCP_TRANSPORT || "http";
+  let transport: ServerConfig["transport"] = "http";
+  if (transportRaw === "http" || transportRaw === "stdio") {
+    transport = transportRaw;
+  } else {
+    configLogger.warn(
+      `Invalid MCP_TRANSPORT: ${process.env.MCP_TRANSPORT}, using 'http' instead`
+    );
+  }
+
   const authEnabled = parseBoolean(
     process.env.ENABLE_AUTH,
     environment === "production"
   );
 
+  const allowAnonymousWebSocket = parseBoolean(
+    process.env.MCP_WS_ALLOW_ANONYMOUS,
+    false
+  );
+
   const apiKeys: string[] = [];
   if (process.env.API_KEY) {
     apiKeys.push(process.env.API_KEY);
@@ -118,6 +156,24 @@ function createConfig(): Config {
         .filter((p) => p)
     : undefined;
 
+  const legacyToolMethods = parseBoolean(
+    process.env.MCP_LEGACY_TOOL_METHODS,
+    true
+  );
+  const maxBatchSize = parseNumber(process.env.MCP_MAX_BATCH_SIZE, 100);
+  const sseKeepAliveMs = parseNumber(process.env.MCP_SSE_KEEPALIVE_MS, 15000);
+  const sessionTtlMs = parseNumber(process.env.MCP_SESSION_TTL_MS, 1800000);
+  const clientRequestTimeoutMs = parseNumber(
+    process.env.MCP_CLIENT_REQUEST_TIMEOUT_MS,
+    60000
+  );
+  const toolRetries = parseNumber(process.env.MCP_TOOL_RETRIES, 2);
+  const pageSize = parseNumber(process.env.MCP_PAGE_SIZE, 100);
+  const wsMaxMessageBytes = parseNumber(
+    process.env.MCP_WS_MAX_MESSAGE_BYTES,
+    1048576
+  );
+
   if (environment !== "test" && !openaiApiKey) {
     configLogger.warn(
       "OPENAI_API_KEY not set, OpenAI tools will not work correctly"
@@ -150,11 +206,13 @@ function createConfig(): Config {
       port,
       environment,
       logLevel,
+      transport,
     },
     auth: {
       enabled: authEnabled,
       enableAuth: authEnabled,
       apiKeys,
+      allowAnonymousWebSocket,
     },
     apiKeys: {
       openai: openaiApiKey,
@@ -169,6 +227,16 @@ function createConfig(): Config {
       allowedReadPaths: allowedReadPaths,
       allowedWritePaths: allowedWritePaths,
     },
+    mcp: {
+      legacyToolMethods,
+      maxBatchSize,
+      sseKeepAliveMs,
+      sessionTtlMs,
+      clientRequestTimeoutMs,
+      toolRetries,
+      pageSize,
+      wsMaxMessageBytes,
+    },
   };
 
   configLogger.debug("Configuration loaded");
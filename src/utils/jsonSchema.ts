@@ -0,0 +1,141 @@
+/**
+ * Minimal JSON Schema validator for the keywords tool schemas use:
+ * type, enum, const, properties, required, additionalProperties, items,
+ * anyOf, and the usual length, size and range limits.
+ * Unknown keywords (format, description, ...) are ignored.
+ */
+
+export type JsonSchema = Record<string, any>;
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    default:
+      return typeOf(value) === type;
+  }
+}
+
+function collectProblems(
+  schema: JsonSchema,
+  value: unknown,
+  path: string,
+  problems: string[]
+): void {
+  const at = path || "(root)";
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type)
+      ? schema.type
+      : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      problems.push(
+        `${at}: expected ${types.join(" or ")}, got ${typeOf(value)}`
+      );
+      return;
+    }
+  }
+  if (schema.const !== undefined && value !== schema.const) {
+    problems.push(`${at}: must be ${JSON.stringify(schema.const)}`);
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.includes(value)) {
+    problems.push(
+      `${at}: must be one of ${schema.enum
+        .map((v: unknown) => JSON.stringify(v))
+        .join(", ")}`
+    );
+  }
+  if (Array.isArray(schema.anyOf)) {
+    const matches = schema.anyOf.some(
+      (option: JsonSchema) => validateJsonSchema(option, value).length === 0
+    );
+    if (!matches) problems.push(`${at}: does not match any allowed schema`);
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      problems.push(`${at}: must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      problems.push(`${at}: must be at most ${schema.maxLength} characters`);
+    }
+    if (
+      schema.pattern !== undefined &&
+      !new RegExp(schema.pattern).test(value)
+    ) {
+      problems.push(`${at}: must match ${schema.pattern}`);
+    }
+  } else if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      problems.push(`${at}: must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      problems.push(`${at}: must be at most ${schema.maximum}`);
+    }
+  } else if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      problems.push(`${at}: must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      problems.push(`${at}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items && typeof schema.items === "object") {
+      value.forEach((item, index) =>
+        collectProblems(schema.items, item, `${path}[${index}]`, problems)
+      );
+    }
+  } else if (typeof value === "object" && value !== null) {
+    const object = value as Record<string, unknown>;
+    const properties: Record<string, JsonSchema> = schema.properties ?? {};
+    for (const name of schema.required ?? []) {
+      if (object[name] === undefined) {
+        problems.push(`${path ? `${path}.` : ""}${name}: is required`);
+      }
+    }
+    for (const [name, propertyValue] of Object.entries(object)) {
+      if (propertyValue === undefined) continue;
+      const propertyPath = path ? `${path}.${name}` : name;
+      if (properties[name]) {
+        collectProblems(
+          properties[name],
+          propertyValue,
+          propertyPath,
+          problems
+        );
+      } else if (schema.additionalProperties === false) {
+        problems.push(`${propertyPath}: is not allowed`);
+      } else if (typeof schema.additionalProperties === "object") {
+        collectProblems(
+          schema.additionalProperties,
+          propertyValue,
+          propertyPath,
+          problems
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Validate a value against a JSON schema
+ * @param schema The schema to check against
+ * @param value The value to check
+ * @returns One message per problem (e.g. "tasks[0].id: is required"); empty
+ * if the value matches
+ */
+export function validateJsonSchema(
+  schema: JsonSchema,
+  value: unknown
+): string[] {
+  const problems: string[] = [];
+  collectProblems(schema, value, "", problems);
+  return problems;
+}
@@ -9,6 +9,8 @@ export interface LoggerOptions {
   minLevel: LogLevel;
   enableColors: boolean;
   includeTimestamp: boolean;
+  // Write to stderr instead of stdout (stdout is reserved in stdio mode)
+  useStderr?: boolean;
   context?: Record<string, any>;
 }
 
@@ -19,6 +21,30 @@ const LOG_LEVELS: Record<LogLevel, number> = {
   error: 3,
 };
 
+/**
+ * A log entry as seen by log sinks, before the logger's own level filter
+ */
+export interface LogRecord {
+  level: LogLevel;
+  message: string;
+  context: Record<string, any>;
+  data?: Record<string, any>;
+}
+
+export type LogSink = (record: LogRecord) => void;
+
+const sinks: Set<LogSink> = new Set();
+
+/**
+ * Receive every log entry from every logger, regardless of its minimum level.
+ * Sinks must not log through the logger themselves.
+ * @returns A function that removes the sink
+ */
+export function addLogSink(sink: LogSink): () => void {
+  sinks.add(sink);
+  return () => sinks.delete(sink);
+}
+
 const COLORS = {
   reset: "\x1b[0m",
   dim: "\x1b[2m",
@@ -45,6 +71,7 @@ export class Logger {
       minLevel: options?.minLevel ?? minLevel,
       enableColors: options?.enableColors ?? true,
       includeTimestamp: options?.includeTimestamp ?? true,
+      useStderr: options?.useStderr ?? false,
       context: options?.context,
     };
     this.context = options?.context ?? {};
@@ -114,6 +141,14 @@ export class Logger {
     message: string,
     data?: Record<string, any>
   ): void {
+    for (const sink of sinks) {
+      try {
+        sink({ level, message, context: this.context, data });
+      } catch (e) {
+        // A broken sink must not break the code that logged
+      }
+    }
+
     if (LOG_LEVELS[level] < LOG_LEVELS[this.options.minLevel]) {
       return;
     }
@@ -132,6 +167,8 @@ export class Logger {
       ...(data && { data }),
     };
 
+    const write = this.options.useStderr ? console.error : console.log;
+
     if (this.options.enableColors) {
       const color = COLORS[level];
       const levelString = `${color}${level.toUpperCase()}${COLORS.reset}`;
@@ -140,12 +177,12 @@ export class Logger {
         : "";
       const messageString = `${color}${message}${COLORS.reset}`;
 
-      console.log(`${timestampString}${levelString}: ${messageString}`);
+      write(`${timestampString}${levelString}: ${messageString}`);
       if (context || data) {
-        console.log(JSON.stringify({ ...context, ...data }, null, 2));
+        write(JSON.stringify({ ...context, ...data }, null, 2));
       }
     } else {
-      console.log(JSON.stringify(logEntry));
+      write(JSON.stringify(logEntry));
     }
   }
 }
@@ -155,8 +192,12 @@ const getLogLevel = (): LogLevel => {
   return LOG_LEVELS[level] !== undefined ? level : "info";
 };
 
+const isStdioTransport = (): boolean =>
+  process.env.MCP_TRANSPORT === "stdio" || process.argv.includes("--stdio");
+
 export const logger = new Logger({
   minLevel: getLogLevel(),
   enableColors: process.env.NODE_ENV !== "production",
   includeTimestamp: true,
+  useStderr: isStdioTransport(),
 });
@@ -19,6 +19,7 @@ interface MetricsData {
   // Tool metrics
   toolCalls: Map<string, number>;
   toolDurations: Map<string, number[]>;
+  toolCancellations: Map<string, number>;
 
   // Error metrics
   errorCount: number;
@@ -59,6 +60,7 @@ class MetricsCollector {
 
       toolCalls: new Map(),
       toolDurations: new Map(),
+      toolCancellations: new Map(),
 
       errorCount: 0,
       errorsByType: new Map(),
@@ -192,6 +194,15 @@ class MetricsCollector {
     };
   }
 
+  /**
+   * Track a tool execution cancelled by the client
+   * @param toolName The name of the tool
+   */
+  public trackCancellation(toolName: string): void {
+    const currentCount = this.data.toolCancellations.get(toolName) || 0;
+    this.data.toolCancellations.set(toolName, currentCount + 1);
+  }
+
   /**
    * Track an error
    * @param errorType The type of error
@@ -254,7 +265,7 @@ class MetricsCollector {
       // Prepare tool metrics
       const toolMetrics: Record<
         string,
-        { calls: number; avgDuration: number }
+        { calls: number; avgDuration: number; cancelled: number }
       > = {};
       this.data.toolCalls.forEach((count, tool) => {
         const durations = this.data.toolDurations.get(tool) || [];
@@ -266,9 +277,15 @@ class MetricsCollector {
         toolMetrics[tool] = {
           calls: count,
           avgDuration,
+          cancelled: this.data.toolCancellations.get(tool) || 0,
         };
       });
 
+      let cancellationTotal = 0;
+      this.data.toolCancellations.forEach((count) => {
+        cancellationTotal += count;
+      });
+
       // Prepare error metrics
       const errorMetrics: Record<string, number> = {};
       this.data.errorsByType.forEach((count, type) => {
@@ -286,6 +303,9 @@ class MetricsCollector {
           avgDuration: avgRequestDuration.toFixed(2),
         },
         tools: toolMetrics,
+        cancellations: {
+          total: cancellationTotal,
+        },
         errors: {
           total: this.data.errorCount,
           byType: errorMetrics,
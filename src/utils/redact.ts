@@ -0,0 +1,106 @@
+/**
+ * Secret redaction for data that leaves the server (e.g. logs forwarded to
+ * MCP clients)
+ */
+
+export const REDACTED = "[REDACTED]";
+
+// Keys are compared in lower snake case ("apiKey" becomes "api_key"); a key
+// whose last words are one of these names holds a secret
+const SECRET_KEY =
+  /(^|_)(passw(or)?d|secret|token|api_key|secret_key|access_key|private_key|authorization|cookies?|credentials?)$/;
+
+// Protocol fields named like secrets that hold none
+const NON_SECRET_KEYS = new Set([
+  "progress_token",
+  "page_token",
+  "next_page_token",
+]);
+
+function toSnakeCase(key: string): string {
+  return key
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .replace(/([A-Z])([A-Z][a-z])/g, "$1_$2")
+    .replace(/[-.\s]+/g, "_")
+    .toLowerCase();
+}
+
+function isSecretKey(key: string): boolean {
+  const name = toSnakeCase(key);
+  return SECRET_KEY.test(name) && !NON_SECRET_KEYS.has(name);
+}
+
+// Secrets that can appear inside free text
+const SECRET_PATTERNS: RegExp[] = [
+  /\bBearer\s+[A-Za-z0-9._~+/=-]+/gi,
+  /\bsk-[A-Za-z0-9_-]{8,}/g,
+  /\bgh[pousr]_[A-Za-z0-9]{20,}/g,
+];
+
+// Values of secret-looking environment variables (API keys, service keys...)
+// are redacted wherever they appear; short values would match too much
+const MIN_ENV_SECRET_LENGTH = 8;
+
+function envSecrets(): string[] {
+  return Object.entries(process.env)
+    .filter(
+      ([name, value]) =>
+        (isSecretKey(name) || /_(KEY|TOKEN)$/i.test(name)) &&
+        typeof value === "string" &&
+        value.length >= MIN_ENV_SECRET_LENGTH
+    )
+    .map(([, value]) => value as string);
+}
+
+function redactString(text: string, secrets: string[]): string {
+  let result = text;
+  for (const secret of secrets) {
+    result = result.split(secret).join(REDACTED);
+  }
+  for (const pattern of SECRET_PATTERNS) {
+    result = result.replace(pattern, REDACTED);
+  }
+  return result;
+}
+
+function redactValue(
+  value: unknown,
+  secrets: string[],
+  seen: WeakSet<object>
+): unknown {
+  if (typeof value === "string") {
+    return redactString(value, secrets);
+  }
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+  if (seen.has(value)) {
+    return "[Circular]";
+  }
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, secrets, seen));
+  }
+  if (value instanceof Error) {
+    return redactString(value.message, secrets);
+  }
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = isSecretKey(key)
+      ? REDACTED
+      : redactValue(item, secrets, seen);
+  }
+  return result;
+}
+
+/**
+ * Copy a value with anything that looks like a secret replaced by
+ * `[REDACTED]`: values under secret-named keys, bearer tokens and API keys in
+ * text, and the values of secret environment variables.
+ * @param value Any JSON-like value
+ * @returns The redacted copy
+ */
+export function redactSecrets<T>(value: T): T {
+  return redactValue(value, envSecrets(), new WeakSet()) as T;
+}
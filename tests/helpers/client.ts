@@ -0,0 +1,66 @@
+import { clientRequests } from "../../src/mcp/clientRequests";
+import { lifecycle } from "../../src/mcp/lifecycle";
+import { sessions } from "../../src/session";
+import type { JsonRpcRequest } from "../../src/types/json-rpc";
+import type { ServerInitiatedMessage } from "../../src/types/session";
+
+export interface TestClientOptions {
+  // Capabilities declared on `initialize`; without them the client never initializes
+  capabilities?: Record<string, any>;
+  // Results for server-initiated requests, by method
+  answers?: Record<string, (request: JsonRpcRequest) => unknown>;
+}
+
+/**
+ * Creates a session for a test client.
+ * Server-initiated messages are collected in `received`, and requests whose
+ * method has an entry in `answers` are answered with its result.
+ */
+export async function connectClient(options: TestClientOptions = {}) {
+  const session = await sessions.create({ transport: "stdio", ttlMs: 0 });
+  if (options.capabilities) {
+    lifecycle.initialize(session.connectionKey, {
+      protocolVersion: "2025-03-26",
+      clientInfo: { name: "test-client", version: "1.0.0" },
+      clientCapabilities: options.capabilities,
+    });
+  }
+
+  const received: ServerInitiatedMessage[] = [];
+  sessions.bindSender(session.id, (message) => {
+    received.push(message);
+    const request = message as JsonRpcRequest;
+    const answer = options.answers?.[request.method];
+    if (answer && request.id !== undefined) {
+      const id = request.id;
+      queueMicrotask(() =>
+        clientRequests.handleResponse(session.id, {
+          jsonrpc: "2.0",
+          id,
+          result: answer(request),
+        })
+      );
+    }
+    return true;
+  });
+
+  const context = {
+    sessionId: session.id,
+    connectionKey: session.connectionKey,
+  };
+  return { session, received, context };
+}
+
+/**
+ * Resolves with the error a promise rejects with
+ */
+export async function failure<E extends Error = Error>(
+  promise: Promise<unknown>
+): Promise<E> {
+  try {
+    await promise;
+  } catch (error) {
+    return error as E;
+  }
+  throw new Error("Expected the promise to reject");
+}
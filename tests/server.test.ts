@@ -1,10 +1,32 @@
-import { describe, expect, it } from "bun:test";
-import app from "..";
+import { afterAll, beforeAll, describe, expect, it, spyOn } from "bun:test";
+import { app } from "..";
+import { db } from "../src/db/memory";
 import type {
+  CompleteResponseResult,
+  GetPromptResponseResult,
+  ListPromptsResponseResult,
   ListResourcesResponseResult,
+  ListResourceTemplatesResponseResult,
   ReadResourceResponseResult,
 } from "../src/mcp/types";
-import { toolRegistry } from "../src/registry";
+import { publishChangeEvent } from "../src/events";
+import { clientRequests } from "../src/mcp/clientRequests";
+import { getAbortSignal, getRequestContext } from "../src/mcp/context";
+import { lifecycle } from "../src/mcp/lifecycle";
+import {
+  createImageContent,
+  createResourceLink,
+  createTextContent,
+} from "../src/mcp/content";
+import { registerNotificationHandler } from "../src/mcp/notifications";
+import { resourceProviderRegistry, toolRegistry } from "../src/registry";
+import {
+  getCurrentSession,
+  sessions,
+  setCurrentSessionData,
+} from "../src/session";
+import { StreamingToolResponse } from "../src/tools/utils";
+import { streamableHttp } from "../src/transports/streamableHttp";
 import type {
   JsonRpcErrorResponse,
   JsonRpcSuccessResponse,
@@ -20,6 +42,45 @@ const TEST_ADMIN_API_KEY =
 const TEST_ADMIN_CLIENT_ID =
   process.env.TEST_ADMIN_CLIENT_ID || "test-admin-client";
 
+// Stand-in provider so resource tests depend on neither the database nor the sandbox
+const MEMO_RESOURCES: Record<
+  string,
+  { name: string; mimeType: string; text: string }
+> = {
+  "memo:///docs/example.txt": {
+    name: "Example Document",
+    mimeType: "text/plain",
+    text: "This is the content of the example text document.",
+  },
+  "memo:///app/settings.json": {
+    name: "Application Settings",
+    mimeType: "application/json",
+    text: JSON.stringify({ theme: "dark" }),
+  },
+};
+
+beforeAll(() => {
+  resourceProviderRegistry.register({
+    scheme: "memo",
+    list: async () =>
+      Object.entries(MEMO_RESOURCES).map(([uri, { name, mimeType }]) => ({
+        uri,
+        name,
+        mimeType,
+      })),
+    read: async (uri) => {
+      const resource = MEMO_RESOURCES[uri];
+      return resource
+        ? [{ uri, mimeType: resource.mimeType, text: resource.text }]
+        : undefined;
+    },
+  });
+});
+
+afterAll(() => {
+  resourceProviderRegistry.unregister("memo");
+});
+
 describe("Server Endpoints", () => {
   it("GET / should return server info", async () => {
     const res = await app.request("/");
@@ -52,6 +113,29 @@ describe("Server Endpoints", () => {
     expect(toolNames).toContain("openai_query");
     expect(toolNames).toContain("slow_task");
   });
+
+  it("GET /tools should page with cursors", async () => {
+    const pageSize = config.mcp.pageSize;
+    config.mcp.pageSize = 3;
+    try {
+      const first = await (await app.request("/tools")).json();
+      expect(first.tools).toHaveLength(3);
+      expect(first.nextCursor).toBeString();
+
+      const second = await (
+        await app.request(
+          `/tools?cursor=${encodeURIComponent(first.nextCursor)}`
+        )
+      ).json();
+      expect(second.tools[0].name > first.tools[2].name).toBe(true);
+    } finally {
+      config.mcp.pageSize = pageSize;
+    }
+
+    const res = await app.request("/tools?cursor=bogus");
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toContain("invalid cursor");
+  });
 });
 
 describe("JSON-RPC /invoke Endpoint", () => {
@@ -72,6 +156,549 @@ describe("JSON-RPC /invoke Endpoint", () => {
     defaultHeaders["X-Client-ID"] = TEST_CLIENT_ID;
   }
 
+  describe("Lifecycle Methods", () => {
+    const initializeParams = {
+      protocolVersion: "2025-03-26",
+      capabilities: {},
+      clientInfo: { name: "lifecycle-test", version: "1.0.0" },
+    };
+
+    it("should negotiate the requested protocol version on initialize", async () => {
+      const payload = {
+        jsonrpc: "2.0",
+        method: "initialize",
+        params: initializeParams,
+        id: "init-1",
+      };
+      const res = await request(payload, defaultHeaders);
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.id).toBe("init-1");
+      expect(body.result.protocolVersion).toBe("2025-03-26");
+      expect(body.result.serverInfo.name).toBe("hyperion-mcp");
+      expect(body.result.serverInfo.version).toBeString();
+      expect(body.result.capabilities.tools).toBeDefined();
+      expect(body.result.capabilities.resources).toBeDefined();
+      expect(body.result.capabilities.prompts).toBeDefined();
+    });
+
+    it("should reject an unsupported protocol version", async () => {
+      const payload = {
+        jsonrpc: "2.0",
+        method: "initialize",
+        params: { ...initializeParams, protocolVersion: "1999-01-01" },
+        id: "init-2",
+      };
+      const res = await request(payload, defaultHeaders);
+      expect(res.status).toBe(400);
+      const body = await res.json();
+      expect(body.error.code).toBe(-32602);
+      expect(body.error.message).toContain("Unsupported protocol version");
+      expect(body.error.data).toEqual({
+        supported: ["2025-06-18", "2025-03-26", "2024-11-05"],
+        requested: "1999-01-01",
+      });
+    });
+
+    it("should reject initialize without clientInfo", async () => {
+      const payload = {
+        jsonrpc: "2.0",
+        method: "initialize",
+        params: { protocolVersion: "2025-03-26" },
+        id: "init-3",
+      };
+      const res = await request(payload, defaultHeaders);
+      expect(res.status).toBe(400);
+      const body = await res.json();
+      expect(body.error.code).toBe(-32602);
+      expect(body.error.message).toContain("clientInfo");
+    });
+
+    it("should accept notifications/initialized with 202 and no body", async () => {
+      const payload = { jsonrpc: "2.0", method: "notifications/initialized" };
+      const res = await request(payload, defaultHeaders);
+      expect(res.status).toBe(202);
+      expect(await res.text()).toBe("");
+    });
+
+    it("should answer ping with an empty result", async () => {
+      const payload = { jsonrpc: "2.0", method: "ping", id: "ping-1" };
+      const res = await request(payload, defaultHeaders);
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.id).toBe("ping-1");
+      expect(body.result).toEqual({});
+    });
+
+    it("should accept batches after another caller negotiates 2025-06-18", async () => {
+      await request(
+        {
+          jsonrpc: "2.0",
+          method: "initialize",
+          params: { ...initializeParams, protocolVersion: "2025-06-18" },
+          id: "init-latest",
+        },
+        defaultHeaders
+      );
+      const res = await request(
+        [
+          { jsonrpc: "2.0", method: "ping", id: "b-1" },
+          { jsonrpc: "2.0", method: "ping", id: "b-2" },
+        ],
+        defaultHeaders
+      );
+      expect(res.status).toBe(200);
+      expect(await res.json()).toHaveLength(2);
+    });
+
+    it("should exempt sessionless requests from the lifecycle", async () => {
+      if (!toolRegistry.isToolRegistered("sessionless_test_tool")) {
+        toolRegistry.register({
+          name: "sessionless_test_tool",
+          description: "Returns a constant",
+          parameters: { type: "object", properties: {} },
+          handler: async () => ({ content: "ok" }),
+        });
+      }
+      const call = {
+        jsonrpc: "2.0",
+        method: "tools/call",
+        params: { name: "sessionless_test_tool", arguments: {} },
+      };
+      // Another caller's `initialize` under a guessable client ID
+      // must not count for anyone else
+      const headers = { ...defaultHeaders, "X-Client-ID": "shared-client" };
+      await request(
+        {
+          jsonrpc: "2.0",
+          method: "initialize",
+          params: {
+            protocolVersion: "2025-03-26",
+            capabilities: {},
+            clientInfo: { name: "other-client", version: "1.0.0" },
+          },
+          id: "init-other",
+        },
+        headers
+      );
+      const res = await request({ ...call, id: "sessionless-1" }, headers);
+      expect(res.status).toBe(200);
+      expect((await res.json()).result.content).toEqual([
+        { type: "text", text: "ok" },
+      ]);
+      expect(lifecycle.get("anonymous")).toBeUndefined();
+      expect(lifecycle.get("shared-client")).toBeUndefined();
+    });
+
+    it("should cancel a sessionless call when its HTTP connection closes", async () => {
+      let aborted: Promise<unknown> | undefined;
+      toolRegistry.register({
+        name: "sessionless_wait_tool",
+        description: "Waits until cancelled",
+        parameters: { type: "object", properties: {} },
+        handler: async () => {
+          const signal = getAbortSignal()!;
+          aborted = new Promise((resolve) =>
+            signal.addEventListener("abort", resolve)
+          );
+          await aborted;
+          return { content: "never" };
+        },
+      });
+      try {
+        const connection = new AbortController();
+        const pending = app.request("/invoke", {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...defaultHeaders },
+          body: JSON.stringify({
+            jsonrpc: "2.0",
+            method: "tools/call",
+            params: { name: "sessionless_wait_tool", arguments: {} },
+            id: "sessionless-wait",
+          }),
+          signal: connection.signal,
+        });
+        while (!aborted) await new Promise((r) => setTimeout(r, 1));
+        connection.abort();
+        await aborted;
+
+        const body = await (await pending).json();
+        expect(body.error.code).toBe(-32800);
+      } finally {
+        toolRegistry.unregister("sessionless_wait_tool");
+      }
+    });
+  });
+
+  describe("tools/list and tools/call Methods", () => {
+    const echoToolParams = {
+      type: "object" as const,
+      properties: {
+        message: { type: "string", description: "Message to echo" },
+      },
+      required: ["message"],
+    };
+
+    beforeAll(() => {
+      if (!toolRegistry.isToolRegistered("echo_test_tool")) {
+        toolRegistry.register({
+          name: "echo_test_tool",
+          description: "Echoes its input",
+          parameters: echoToolParams,
+          handler: async (params) => ({ content: { echoed: params.message } }),
+        });
+      }
+    });
+
+    it("should list tools with inputSchema", async () => {
+      const payload = { jsonrpc: "2.0", method: "tools/list", id: "tl-1" };
+      const res = await request(payload, defaultHeaders);
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      const echoTool = body.result.tools.find(
+        (t: { name: string }) => t.name === "echo_test_tool"
+      );
+      expect(echoTool).toBeDefined();
+      expect(echoTool.inputSchema).toEqual(echoToolParams);
+      expect(echoTool.parameters).toBeUndefined();
+    });
+
+    it("should call a tool and return a CallToolResult", async () => {
+      const payload = {
+        jsonrpc: "2.0",
+        method: "tools/call",
+        params: { name: "echo_test_tool", arguments: { message: "hi" } },
+        id: "tc-1",
+      };
+      const res = await request(payload, defaultHeaders);
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.id).toBe("tc-1");
+      expect(body.result.isError).toBe(false);
+      expect(body.result.content).toEqual([
+        { type: "text", text: JSON.stringify({ echoed: "hi" }) },
+      ]);
+    });
+
+    it("should pass typed content blocks through unchanged", async () => {
+      if (!toolRegistry.isToolRegistered("typed_content_test_tool")) {
+        toolRegistry.register({
+          name: "typed_content_test_tool",
+          description: "Returns typed content blocks",
+          parameters: { type: "object", properties: {} },
+          handler: async () => ({
+            content: [
+              createTextContent("A red pixel"),
+              createImageContent(
+                new Uint8Array([137, 80, 78, 71]),
+                "image/png"
+              ),
+              createResourceLink({ uri: "tasks://1", name: "Task 1" }),
+            ],
+          }),
+        });
+      }
+      const payload = {
+        jsonrpc: "2.0",
+        method: "tools/call",
+        params: { name: "typed_content_test_tool", arguments: {} },
+        id: "tc-typed",
+      };
+      const res = await request(payload, defaultHeaders);
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.result.isError).toBe(false);
+      expect(body.result.content).toEqual([
+        { type: "text", text: "A red pixel" },
+        { type: "image", data: "iVBORw==", mimeType: "image/png" },
+        { type: "resource_link", uri: "tasks://1", name: "Task 1" },
+      ]);
+    });
+
+    it("should publish output schemas and return structuredContent", async () => {
+      const listRes = await request(
+        { jsonrpc: "2.0", method: "tools/list", id: "tl-out" },
+        defaultHeaders
+      );
+      const listTasksTool = (await listRes.json()).result.tools.find(
+        (t: { name: string }) => t.name === "list_tasks"
+      );
+      expect(listTasksTool.outputSchema.required).toEqual(["tasks"]);
+
+      const tasks = [
+        {
+          id: "1",
+          title: "Task 1",
+          description: null,
+          dueDate: null,
+          completed: false,
+          createdAt: new Date().toISOString(),
+        },
+      ];
+      const listSpy = spyOn(db, "listTasks").mockResolvedValue(tasks);
+      try {
+        const res = await request(
+          {
+            jsonrpc: "2.0",
+            method: "tools/call",
+            params: { name: "list_tasks", arguments: {} },
+            id: "tc-out",
+          },
+          defaultHeaders
+        );
+        const body = await res.json();
+        expect(body.result.structuredContent).toEqual({ tasks });
+        expect(JSON.parse(body.result.content[0].text)).toEqual(tasks);
+      } finally {
+        listSpy.mockRestore();
+      }
+    });
+
+    it("should fail a call whose output doesn't match its outputSchema in development", async () => {
+      if (!toolRegistry.isToolRegistered("bad_output_test_tool")) {
+        toolRegistry.register({
+          name: "bad_output_test_tool",
+          description: "Returns output that breaks its schema",
+          parameters: { type: "object", properties: {} },
+          outputSchema: {
+            type: "object",
+            properties: { count: { type: "integer" } },
+            required: ["count"],
+          },
+          handler: async () => ({ content: { count: "three" } }),
+        });
+      }
+      const { environment } = config.server;
+      config.server.environment = "development";
+      try {
+        const res = await request(
+          {
+            jsonrpc: "2.0",
+            method: "tools/call",
+            params: { name: "bad_output_test_tool", arguments: {} },
+            id: "tc-bad-out",
+          },
+          defaultHeaders
+        );
+        expect(res.status).toBe(500);
+        const body = await res.json();
+        expect(body.error.code).toBe(-32603);
+        expect(body.error.message).toContain("does not match its outputSchema");
+      } finally {
+        config.server.environment = environment;
+      }
+    });
+
+    it("should report tool execution errors with isError", async () => {
+      const payload = {
+        jsonrpc: "2.0",
+        method: "tools/call",
+        params: { name: "create_task", arguments: {} },
+        id: "tc-2",
+      };
+      const res = await request(payload, defaultHeaders);
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.result.isError).toBe(true);
+      expect(body.result.content[0].type).toBe("text");
+      expect(body.result.content[0].text).toMatch(/title is required/i);
+    });
+
+    it("should return an error for an unknown tool", async () => {
+      const payload = {
+        jsonrpc: "2.0",
+        method: "tools/call",
+        params: { name: "does_not_exist" },
+        id: "tc-3",
+      };
+      const res = await request(payload, defaultHeaders);
+      const body = await res.json();
+      expect(body.error.code).toBe(-32602);
+      expect(body.error.message).toContain("Unknown tool");
+    });
+
+    it("should reject tools/call without a name", async () => {
+      const payload = {
+        jsonrpc: "2.0",
+        method: "tools/call",
+        params: { arguments: {} },
+        id: "tc-4",
+      };
+      const res = await request(payload, defaultHeaders);
+      expect(res.status).toBe(400);
+      const body = await res.json();
+      expect(body.error.code).toBe(-32602);
+    });
+
+    it("should reject legacy tool methods when the compatibility switch is off", async () => {
+      config.mcp.legacyToolMethods = false;
+      try {
+        const payload = {
+          jsonrpc: "2.0",
+          method: "echo_test_tool",
+          params: { message: "hi" },
+          id: "tc-legacy",
+        };
+        const res = await request(payload, defaultHeaders);
+        expect(res.status).toBe(404);
+        const body = await res.json();
+        expect(body.error.code).toBe(-32601);
+      } finally {
+        config.mcp.legacyToolMethods = true;
+      }
+    });
+  });
+
+  describe("Notifications", () => {
+    it("should route notifications to registered handlers and return 202", async () => {
+      const received: Record<string, any>[] = [];
+      const unregister = registerNotificationHandler(
+        "notifications/test_event",
+        (params) => {
+          received.push(params);
+        }
+      );
+      try {
+        const payload = {
+          jsonrpc: "2.0",
+          method: "notifications/test_event",
+          params: { value: "x" },
+        };
+        const res = await request(payload, defaultHeaders);
+        expect(res.status).toBe(202);
+        expect(await res.text()).toBe("");
+        expect(received).toEqual([{ value: "x" }]);
+      } finally {
+        unregister();
+      }
+    });
+
+    it("should accept unknown notifications silently", async () => {
+      const payload = { jsonrpc: "2.0", method: "notifications/unknown" };
+      const res = await request(payload, defaultHeaders);
+      expect(res.status).toBe(202);
+      expect(await res.text()).toBe("");
+    });
+
+    it("should not respond to id-less tool invocations", async () => {
+      const payload = { jsonrpc: "2.0", method: "list_tasks", params: {} };
+      const res = await request(payload, defaultHeaders);
+      expect(res.status).toBe(202);
+      expect(await res.text()).toBe("");
+    });
+
+    it("should still reject a null id", async () => {
+      const payload = { jsonrpc: "2.0", method: "ping", id: null };
+      const res = await request(payload, defaultHeaders);
+      expect(res.status).toBe(400);
+      const body = await res.json();
+      expect(body.error.code).toBe(-32600);
+    });
+  });
+
+  describe("Batch Requests", () => {
+    beforeAll(() => {
+      if (!toolRegistry.isToolRegistered("batch_test_tool")) {
+        toolRegistry.register({
+          name: "batch_test_tool",
+          description: "Returns its input or fails on demand",
+          parameters: { type: "object", properties: {} },
+          handler: async (params) => {
+            if (params.explode) throw new Error("Boom");
+            return { content: { value: params.value } };
+          },
+        });
+      }
+    });
+
+    it("should return an array of responses for a batch", async () => {
+      const payload = [
+        { jsonrpc: "2.0", method: "ping", id: "b-1" },
+        {
+          jsonrpc: "2.0",
+          method: "tools/call",
+          params: { name: "batch_test_tool", arguments: { value: 42 } },
+          id: "b-2",
+        },
+      ];
+      const res = await request(payload, defaultHeaders);
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(Array.isArray(body)).toBe(true);
+      expect(body.length).toBe(2);
+      const byId = Object.fromEntries(body.map((r: any) => [r.id, r]));
+      expect(byId["b-1"].result).toEqual({});
+      expect(JSON.parse(byId["b-2"].result.content[0].text)).toEqual({
+        value: 42,
+      });
+    });
+
+    it("should omit responses for notifications", async () => {
+      const payload = [
+        { jsonrpc: "2.0", method: "notifications/initialized" },
+        { jsonrpc: "2.0", method: "ping", id: "b-3" },
+      ];
+      const res = await request(payload, defaultHeaders);
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.length).toBe(1);
+      expect(body[0].id).toBe("b-3");
+    });
+
+    it("should return 202 with no body for a batch of only notifications", async () => {
+      const payload = [{ jsonrpc: "2.0", method: "notifications/initialized" }];
+      const res = await request(payload, defaultHeaders);
+      expect(res.status).toBe(202);
+      expect(await res.text()).toBe("");
+    });
+
+    it("should isolate errors to the failing item", async () => {
+      const payload = [
+        {
+          jsonrpc: "2.0",
+          method: "tools/call",
+          params: { name: "batch_test_tool", arguments: { explode: true } },
+          id: "b-4",
+        },
+        { jsonrpc: "2.0", method: "no_such_method", id: "b-5" },
+        { jsonrpc: "2.0", id: "b-6" },
+        { jsonrpc: "2.0", method: "ping", id: "b-7" },
+      ];
+      const res = await request(payload, defaultHeaders);
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      const byId = Object.fromEntries(body.map((r: any) => [r.id, r]));
+      expect(byId["b-4"].error.message).toContain("Boom");
+      expect(byId["b-5"].error.code).toBe(-32601);
+      expect(byId["b-6"].error.code).toBe(-32600);
+      expect(byId["b-7"].result).toEqual({});
+    });
+
+    it("should reject an empty batch", async () => {
+      const res = await request([], defaultHeaders);
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.length).toBe(1);
+      expect(body[0].error.code).toBe(-32600);
+    });
+
+    it("should reject streaming requests inside a batch", async () => {
+      const payload = [
+        {
+          jsonrpc: "2.0",
+          method: "batch_test_tool",
+          params: { stream: true },
+          id: "b-8",
+        },
+      ];
+      const res = await request(payload, defaultHeaders);
+      const body = await res.json();
+      expect(body[0].id).toBe("b-8");
+      expect(body[0].error.code).toBe(-32600);
+      expect(body[0].error.message).toContain("streaming is not supported");
+    });
+  });
+
   // Non-Streaming Tests
   it("should execute a simple tool successfully", async () => {
     const payload = {
@@ -359,6 +986,15 @@ describe("JSON-RPC /invoke Endpoint", () => {
   }
 
   describe("resources/list Method", () => {
+    // The task provider lists tasks from Supabase, which tests can't rely on
+    let listTasksSpy: ReturnType<typeof spyOn>;
+    beforeAll(() => {
+      listTasksSpy = spyOn(db, "listTasks").mockResolvedValue([]);
+    });
+    afterAll(() => {
+      listTasksSpy.mockRestore();
+    });
+
     it("should successfully list available resources", async () => {
       const payload = {
         jsonrpc: "2.0",
@@ -378,11 +1014,23 @@ describe("JSON-RPC /invoke Endpoint", () => {
       const successBody =
         body as JsonRpcSuccessResponse<ListResourcesResponseResult>;
       expect(Array.isArray(successBody.result.resources)).toBe(true);
-      expect(
-        successBody.result.resources.some(
-          (r: any) => r.name === "Example Document"
-        )
-      ).toBe(true);
+
+      // Sandbox files may push the sample resources onto later pages
+      const resources = [...successBody.result.resources];
+      let cursor = successBody.result.nextCursor;
+      while (cursor) {
+        const page = await (
+          await request(
+            { ...payload, params: { cursor }, id: "res-list-next" },
+            defaultHeaders
+          )
+        ).json();
+        resources.push(...page.result.resources);
+        cursor = page.result.nextCursor;
+      }
+      expect(resources.some((r: any) => r.name === "Example Document")).toBe(
+        true
+      );
     });
 
     it("should ignore parameters passed to resources/list", async () => {
@@ -407,7 +1055,7 @@ describe("JSON-RPC /invoke Endpoint", () => {
       const payload = {
         jsonrpc: "2.0",
         method: "resources/read",
-        params: { uri: "file:///home/user/docs/example.txt" },
+        params: { uri: "memo:///docs/example.txt" },
         id: "res-read-1",
       };
       const res = await request(payload, defaultHeaders);
@@ -424,11 +1072,30 @@ describe("JSON-RPC /invoke Endpoint", () => {
       expect(Array.isArray(successBody.result.contents)).toBe(true);
       expect(successBody.result.contents.length).toBe(1);
       expect(successBody.result.contents[0].uri).toBe(
-        "file:///home/user/docs/example.txt"
+        "memo:///docs/example.txt"
       );
       expect(successBody.result.contents[0].text).toBeString();
     });
 
+    it("should read sandbox files through the file provider", async () => {
+      if (config.auth.enabled) {
+        return; // The file provider requires admin permissions
+      }
+      const payload = {
+        jsonrpc: "2.0",
+        method: "resources/read",
+        params: { uri: "file:///package.json" },
+        id: "res-read-file",
+      };
+      const res = await request(payload, defaultHeaders);
+      expect(res.status).toBe(200);
+      const body =
+        (await res.json()) as JsonRpcSuccessResponse<ReadResourceResponseResult>;
+
+      expect(body.result.contents[0].mimeType).toBe("application/json");
+      expect(body.result.contents[0].text).toContain('"name"');
+    });
+
     it("should return error for reading a non-existent resource URI", async () => {
       const payload = {
         jsonrpc: "2.0",
@@ -494,4 +1161,762 @@ describe("JSON-RPC /invoke Endpoint", () => {
       expect(errorBody.error.message).toContain("Invalid url");
     });
   });
+
+  describe("resources/subscribe Method", () => {
+    it("should require a session", async () => {
+      const payload = {
+        jsonrpc: "2.0",
+        method: "resources/subscribe",
+        params: { uri: "memo:///app/settings.json" },
+        id: "res-sub-1",
+      };
+      const res = await request(payload, defaultHeaders);
+      expect(res.status).toBe(400);
+      const body = (await res.json()) as JsonRpcErrorResponse;
+      expect(body.error.code).toBe(-32600);
+      expect(body.error.message).toContain("requires a session");
+    });
+  });
+
+  describe("resources/templates/list Method", () => {
+    it("should list the registered resource templates", async () => {
+      const payload = {
+        jsonrpc: "2.0",
+        method: "resources/templates/list",
+        id: "res-templates-1",
+      };
+      const res = await request(payload, defaultHeaders);
+      expect(res.status).toBe(200);
+      const body =
+        (await res.json()) as JsonRpcSuccessResponse<ListResourceTemplatesResponseResult>;
+
+      const uriTemplates = body.result.resourceTemplates.map(
+        (t) => t.uriTemplate
+      );
+      expect(uriTemplates).toContain("tasks://{id}");
+      if (!config.auth.enabled) {
+        expect(uriTemplates).toContain("file:///{+path}");
+      }
+    });
+  });
+
+  describe("prompts/list and prompts/get Methods", () => {
+    it("should list the example prompts", async () => {
+      const payload = {
+        jsonrpc: "2.0",
+        method: "prompts/list",
+        id: "prompts-list-1",
+      };
+      const res = await request(payload, defaultHeaders);
+      expect(res.status).toBe(200);
+      const body =
+        (await res.json()) as JsonRpcSuccessResponse<ListPromptsResponseResult>;
+
+      const summarize = body.result.prompts.find(
+        (p) => p.name === "summarize_text"
+      );
+      expect(summarize).toBeDefined();
+      expect(summarize?.arguments?.[0]).toMatchObject({
+        name: "text",
+        required: true,
+      });
+    });
+
+    it("should render a prompt with its arguments", async () => {
+      const payload = {
+        jsonrpc: "2.0",
+        method: "prompts/get",
+        params: {
+          name: "summarize_text",
+          arguments: { text: "MCP is a protocol.", style: "bullet" },
+        },
+        id: "prompts-get-1",
+      };
+      const res = await request(payload, defaultHeaders);
+      expect(res.status).toBe(200);
+      const body =
+        (await res.json()) as JsonRpcSuccessResponse<GetPromptResponseResult>;
+
+      expect(body.result.messages.length).toBe(1);
+      expect(body.result.messages[0].role).toBe("user");
+      expect(body.result.messages[0].content).toMatchObject({
+        type: "text",
+      });
+      expect((body.result.messages[0].content as any).text).toContain(
+        "MCP is a protocol."
+      );
+    });
+
+    it("should embed resource contents in rendered messages", async () => {
+      const payload = {
+        jsonrpc: "2.0",
+        method: "prompts/get",
+        params: {
+          name: "explain_resource",
+          arguments: { uri: "memo:///app/settings.json" },
+        },
+        id: "prompts-get-2",
+      };
+      const res = await request(payload, defaultHeaders);
+      expect(res.status).toBe(200);
+      const body =
+        (await res.json()) as JsonRpcSuccessResponse<GetPromptResponseResult>;
+
+      expect(body.result.messages[0].content).toMatchObject({
+        type: "resource",
+        resource: {
+          uri: "memo:///app/settings.json",
+          mimeType: "application/json",
+        },
+      });
+    });
+
+    it("should return -32602 when a required argument is missing", async () => {
+      const payload = {
+        jsonrpc: "2.0",
+        method: "prompts/get",
+        params: { name: "summarize_text" },
+        id: "prompts-get-3",
+      };
+      const res = await request(payload, defaultHeaders);
+      expect(res.status).toBe(400);
+      const body = (await res.json()) as JsonRpcErrorResponse;
+
+      expect(body.error.code).toBe(-32602);
+      expect(body.error.message).toContain("text");
+    });
+
+    it("should return -32602 when the prompt name is missing", async () => {
+      const payload = {
+        jsonrpc: "2.0",
+        method: "prompts/get",
+        params: {},
+        id: "prompts-get-4",
+      };
+      const res = await request(payload, defaultHeaders);
+      expect(res.status).toBe(400);
+      const body = (await res.json()) as JsonRpcErrorResponse;
+
+      expect(body.error.code).toBe(-32602);
+      expect(body.error.message).toContain("Invalid parameters");
+    });
+  });
+
+  describe("completion/complete Method", () => {
+    it("should complete enum parameters of a tool", async () => {
+      const payload = {
+        jsonrpc: "2.0",
+        method: "completion/complete",
+        params: {
+          ref: { type: "ref/tool", name: "list_tasks" },
+          argument: { name: "status", value: "a" },
+        },
+        id: "complete-1",
+      };
+      const res = await request(payload, defaultHeaders);
+      expect(res.status).toBe(200);
+      const body =
+        (await res.json()) as JsonRpcSuccessResponse<CompleteResponseResult>;
+
+      expect(body.result.completion.values).toEqual(["all", "active"]);
+    });
+
+    it("should return 400 for an unknown reference type", async () => {
+      const payload = {
+        jsonrpc: "2.0",
+        method: "completion/complete",
+        params: {
+          ref: { type: "ref/unknown", name: "x" },
+          argument: { name: "status", value: "" },
+        },
+        id: "complete-2",
+      };
+      const res = await request(payload, defaultHeaders);
+      expect(res.status).toBe(400);
+      const body = (await res.json()) as JsonRpcErrorResponse;
+
+      expect(body.error.code).toBe(-32602);
+      expect(body.error.message).toContain("Invalid parameters");
+    });
+  });
+});
+
+describe("Streamable HTTP /mcp Endpoint", () => {
+  const ACCEPT = "application/json, text/event-stream";
+  const post = (payload: any, headers: Record<string, string> = {}) =>
+    app.request("/mcp", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: ACCEPT,
+        ...headers,
+      },
+      body: JSON.stringify(payload),
+    });
+
+  const initialize = async () => {
+    const res = await post({
+      jsonrpc: "2.0",
+      method: "initialize",
+      params: {
+        protocolVersion: "2025-03-26",
+        capabilities: {},
+        clientInfo: { name: "streamable-test", version: "1.0.0" },
+      },
+      id: "init",
+    });
+    expect(res.status).toBe(200);
+    const sessionId = res.headers.get("Mcp-Session-Id");
+    expect(sessionId).toBeTruthy();
+    return sessionId!;
+  };
+
+  beforeAll(() => {
+    toolRegistry.register({
+      name: "mcp_stream_tool",
+      description: "Streams one chunk then completes",
+      parameters: { type: "object", properties: {} },
+      handler: (async (
+        _params: Record<string, any>,
+        controller?: TransformStreamDefaultController,
+        jsonRpcId?: string | number | null
+      ) => {
+        const streaming = new StreamingToolResponse(controller, jsonRpcId);
+        streaming.send({ step: 1 });
+        streaming.complete({ done: true });
+        return { content: { done: true } };
+      }) as any,
+    });
+    toolRegistry.register({
+      name: "mcp_roots_tool",
+      description: "Asks the client for its roots",
+      parameters: { type: "object", properties: {} },
+      handler: async () => {
+        const { roots } = await clientRequests.request<{ roots: unknown[] }>(
+          getRequestContext()!.sessionId!,
+          "roots/list",
+          {}
+        );
+        return { content: `${roots.length} roots` };
+      },
+    });
+  });
+
+  afterAll(() => {
+    toolRegistry.unregister("mcp_stream_tool");
+    toolRegistry.unregister("mcp_roots_tool");
+  });
+
+  it("should assign a session on initialize and accept it afterwards", async () => {
+    const sessionId = await initialize();
+
+    const res = await post(
+      { jsonrpc: "2.0", method: "tools/list", params: {}, id: 1 },
+      { "Mcp-Session-Id": sessionId }
+    );
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Mcp-Session-Id")).toBe(sessionId);
+    const body = await res.json();
+    expect(Array.isArray(body.result.tools)).toBe(true);
+  });
+
+  it("should require a session for requests other than initialize", async () => {
+    const res = await post({ jsonrpc: "2.0", method: "ping", id: 2 });
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.error.message).toContain("Mcp-Session-Id");
+  });
+
+  it("should route client responses to the server request waiting for them", async () => {
+    const sessionId = await initialize();
+    const sent: any[] = [];
+    sessions.bindSender(sessionId, (message) => {
+      sent.push(message);
+      return true;
+    });
+    const pending = clientRequests.request(sessionId, "roots/list", {});
+
+    const res = await post(
+      { jsonrpc: "2.0", id: sent[0].id, result: { roots: [] } },
+      { "Mcp-Session-Id": sessionId }
+    );
+    expect(res.status).toBe(202);
+    expect(await pending).toEqual({ roots: [] });
+  });
+
+  it("should reject an MCP-Protocol-Version that differs from the negotiated one", async () => {
+    const sessionId = await initialize();
+    const ping = { jsonrpc: "2.0", method: "ping", id: "pv" };
+
+    const matching = await post(ping, {
+      "Mcp-Session-Id": sessionId,
+      "MCP-Protocol-Version": "2025-03-26",
+    });
+    expect(matching.status).toBe(200);
+
+    const res = await post(ping, {
+      "Mcp-Session-Id": sessionId,
+      "MCP-Protocol-Version": "2025-06-18",
+    });
+    expect(res.status).toBe(400);
+    expect((await res.json()).error.message).toContain(
+      "does not match the version negotiated for this session (2025-03-26)"
+    );
+  });
+
+  it("should allow the MCP-Protocol-Version header in CORS preflights", async () => {
+    const res = await app.request("/mcp", {
+      method: "OPTIONS",
+      headers: {
+        Origin: "https://client.example",
+        "Access-Control-Request-Method": "POST",
+        "Access-Control-Request-Headers": "mcp-protocol-version",
+      },
+    });
+    expect(res.headers.get("Access-Control-Allow-Headers")).toContain(
+      "MCP-Protocol-Version"
+    );
+  });
+
+  it("should return 404 for an unknown session", async () => {
+    const res = await post(
+      { jsonrpc: "2.0", method: "ping", id: 3 },
+      { "Mcp-Session-Id": "does-not-exist" }
+    );
+    expect(res.status).toBe(404);
+  });
+
+  it("should answer notifications with 202 and no body", async () => {
+    const sessionId = await initialize();
+    const res = await post(
+      { jsonrpc: "2.0", method: "notifications/initialized" },
+      { "Mcp-Session-Id": sessionId }
+    );
+    expect(res.status).toBe(202);
+    expect(await res.text()).toBe("");
+  });
+
+  it("should report JSON-RPC errors with HTTP 200", async () => {
+    const sessionId = await initialize();
+    const res = await post(
+      {
+        jsonrpc: "2.0",
+        method: "tools/call",
+        params: { name: "no_such_tool" },
+        id: 4,
+      },
+      { "Mcp-Session-Id": sessionId }
+    );
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.error.code).toBe(-32602);
+  });
+
+  it("should stream tool output as server-sent events", async () => {
+    const sessionId = await initialize();
+    const res = await post(
+      {
+        jsonrpc: "2.0",
+        method: "mcp_stream_tool",
+        params: { stream: true },
+        id: "sse-1",
+      },
+      { "Mcp-Session-Id": sessionId }
+    );
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toContain("text/event-stream");
+
+    const events = (await res.text())
+      .split("\n\n")
+      .filter((e) => e.startsWith("event: message"))
+      .map((e) => JSON.parse(e.split("data: ")[1]));
+    expect(events.length).toBe(2);
+    expect(events[0].method).toBe("notifications/tools/chunk");
+    expect(events[1].id).toBe("sse-1");
+    expect(events[1].result.content).toEqual({ done: true });
+  });
+
+  it("should deliver server-initiated messages on the GET channel", async () => {
+    const sessionId = await initialize();
+    const res = await app.request("/mcp", {
+      method: "GET",
+      headers: { Accept: "text/event-stream", "Mcp-Session-Id": sessionId },
+    });
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toContain("text/event-stream");
+
+    const reader = res.body!.getReader();
+    const decoder = new TextDecoder();
+    expect(decoder.decode((await reader.read()).value)).toContain(
+      ": connected"
+    );
+
+    const delivered = streamableHttp.send(sessionId, {
+      jsonrpc: "2.0",
+      method: "notifications/test",
+      params: { hello: "world" },
+    });
+    expect(delivered).toBe(true);
+    const event = decoder.decode((await reader.read()).value);
+    expect(event).toContain('"method":"notifications/test"');
+    await reader.cancel();
+  });
+
+  it("should send server requests on the POST stream without a GET channel", async () => {
+    const sessionId = await initialize();
+    const res = await post(
+      {
+        jsonrpc: "2.0",
+        method: "tools/call",
+        params: {
+          name: "mcp_roots_tool",
+          arguments: {},
+          _meta: { progressToken: "roots-progress" },
+        },
+        id: "roots-call",
+      },
+      { "Mcp-Session-Id": sessionId }
+    );
+    expect(res.headers.get("Content-Type")).toContain("text/event-stream");
+
+    const reader = res.body!.getReader();
+    const decoder = new TextDecoder();
+    const events: any[] = [];
+    let buffered = "";
+    const nextEvent = async () => {
+      while (!buffered.includes("\n\n")) {
+        buffered += decoder.decode((await reader.read()).value);
+      }
+      const [event, ...rest] = buffered.split("\n\n");
+      buffered = rest.join("\n\n");
+      events.push(JSON.parse(event.split("data: ")[1]));
+      return events[events.length - 1];
+    };
+
+    const request = await nextEvent();
+    expect(request.method).toBe("roots/list");
+    const answer = await post(
+      { jsonrpc: "2.0", id: request.id, result: { roots: [] } },
+      { "Mcp-Session-Id": sessionId }
+    );
+    expect(answer.status).toBe(202);
+
+    const response = await nextEvent();
+    expect(response.id).toBe("roots-call");
+    expect(response.result.content).toEqual([
+      { type: "text", text: "0 roots" },
+    ]);
+  });
+
+  it("should push updates of subscribed resources on the GET channel", async () => {
+    const sessionId = await initialize();
+    const res = await app.request("/mcp", {
+      method: "GET",
+      headers: { Accept: "text/event-stream", "Mcp-Session-Id": sessionId },
+    });
+    const reader = res.body!.getReader();
+    const decoder = new TextDecoder();
+    await reader.read(); // ": connected"
+
+    const subscribe = await post(
+      {
+        jsonrpc: "2.0",
+        method: "resources/subscribe",
+        params: { uri: "memo:///app/settings.json" },
+        id: "sub-1",
+      },
+      { "Mcp-Session-Id": sessionId }
+    );
+    expect((await subscribe.json()).result).toEqual({});
+
+    await publishChangeEvent({
+      type: "resource_updated",
+      uri: "memo:///app/settings.json",
+    });
+    const event = decoder.decode((await reader.read()).value);
+    expect(event).toContain('"method":"notifications/resources/updated"');
+    expect(event).toContain('"uri":"memo:///app/settings.json"');
+    await reader.cancel();
+  });
+
+  it("should reject a GET channel without a session", async () => {
+    const res = await app.request("/mcp", {
+      method: "GET",
+      headers: { Accept: "text/event-stream" },
+    });
+    expect(res.status).toBe(400);
+  });
+});
+
+describe("Streamable HTTP Sessions", () => {
+  const post = (payload: any, headers: Record<string, string> = {}) =>
+    app.request("/mcp", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        ...headers,
+      },
+      body: JSON.stringify(payload),
+    });
+
+  const initialize = async () => {
+    const res = await post({
+      jsonrpc: "2.0",
+      method: "initialize",
+      params: {
+        protocolVersion: "2025-03-26",
+        capabilities: {},
+        clientInfo: { name: "session-test", version: "1.0.0" },
+      },
+      id: "init",
+    });
+    return res.headers.get("Mcp-Session-Id")!;
+  };
+
+  beforeAll(() => {
+    toolRegistry.register({
+      name: "session_counter_tool",
+      description: "Counts calls per session",
+      parameters: { type: "object", properties: {} },
+      handler: async () => {
+        const session = await getCurrentSession();
+        const count = ((session?.data.count as number) ?? 0) + 1;
+        await setCurrentSessionData("count", count);
+        return { content: { count, sessionId: session?.id } };
+      },
+    });
+  });
+
+  afterAll(() => {
+    toolRegistry.unregister("session_counter_tool");
+  });
+
+  it("should expose per-session data to tool handlers", async () => {
+    const first = await initialize();
+    const second = await initialize();
+    const call = async (sessionId: string) => {
+      const res = await post(
+        {
+          jsonrpc: "2.0",
+          method: "tools/call",
+          params: { name: "session_counter_tool" },
+          id: "count",
+        },
+        { "Mcp-Session-Id": sessionId }
+      );
+      const body = await res.json();
+      return JSON.parse(body.result.content[0].text);
+    };
+
+    expect(await call(first)).toEqual({ count: 1, sessionId: first });
+    expect(await call(first)).toEqual({ count: 2, sessionId: first });
+    expect(await call(second)).toEqual({ count: 1, sessionId: second });
+  });
+
+  it("should terminate a session on DELETE", async () => {
+    const sessionId = await initialize();
+    const del = await app.request("/mcp", {
+      method: "DELETE",
+      headers: { "Mcp-Session-Id": sessionId },
+    });
+    expect(del.status).toBe(200);
+
+    const res = await post(
+      { jsonrpc: "2.0", method: "ping", id: 1 },
+      { "Mcp-Session-Id": sessionId }
+    );
+    expect(res.status).toBe(404);
+  });
+
+  it("should close open SSE channels when the session ends", async () => {
+    const sessionId = await initialize();
+    const res = await app.request("/mcp", {
+      method: "GET",
+      headers: { Accept: "text/event-stream", "Mcp-Session-Id": sessionId },
+    });
+    const reader = res.body!.getReader();
+    await reader.read();
+
+    await sessions.terminate(sessionId);
+    expect((await reader.read()).done).toBe(true);
+  });
+});
+
+describe("Request Cancellation", () => {
+  const post = (payload: any, headers: Record<string, string> = {}) =>
+    app.request("/mcp", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        ...headers,
+      },
+      body: JSON.stringify(payload),
+    });
+
+  it("should cancel an in-flight tools/call via notifications/cancelled", async () => {
+    const init = await post({
+      jsonrpc: "2.0",
+      method: "initialize",
+      params: {
+        protocolVersion: "2025-03-26",
+        capabilities: {},
+        clientInfo: { name: "cancel-test", version: "1.0.0" },
+      },
+      id: "init",
+    });
+    const headers = { "Mcp-Session-Id": init.headers.get("Mcp-Session-Id")! };
+
+    const pending = post(
+      {
+        jsonrpc: "2.0",
+        method: "tools/call",
+        params: { name: "slow_task", arguments: { items: 5, delay: 1000 } },
+        id: "slow-1",
+      },
+      headers
+    );
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const cancel = await post(
+      {
+        jsonrpc: "2.0",
+        method: "notifications/cancelled",
+        params: { requestId: "slow-1", reason: "No longer needed" },
+      },
+      headers
+    );
+    expect(cancel.status).toBe(202);
+
+    const body = await (await pending).json();
+    expect(body.id).toBe("slow-1");
+    expect(body.error.code).toBe(-32800);
+
+    const metrics = await (await app.request("/metrics")).json();
+    expect(metrics.cancellations.total).toBeGreaterThan(0);
+    expect(metrics.tools.slow_task.cancelled).toBeGreaterThan(0);
+  });
+});
+
+describe("Progress Notifications", () => {
+  const parseJsonl = (text: string) =>
+    text
+      .split("\n")
+      .filter((l) => l.trim())
+      .map((l) => JSON.parse(l));
+
+  it("should stream notifications/progress before the tools/call result over SSE", async () => {
+    const post = (payload: any, headers: Record<string, string> = {}) =>
+      app.request("/mcp", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json, text/event-stream",
+          ...headers,
+        },
+        body: JSON.stringify(payload),
+      });
+    const init = await post({
+      jsonrpc: "2.0",
+      method: "initialize",
+      params: {
+        protocolVersion: "2025-03-26",
+        capabilities: {},
+        clientInfo: { name: "progress-test", version: "1.0.0" },
+      },
+      id: "init",
+    });
+
+    const res = await post(
+      {
+        jsonrpc: "2.0",
+        method: "tools/call",
+        params: {
+          name: "slow_task",
+          arguments: { items: 2, delay: 10 },
+          _meta: { progressToken: "p-1" },
+        },
+        id: "progress-1",
+      },
+      { "Mcp-Session-Id": init.headers.get("Mcp-Session-Id")! }
+    );
+    expect(res.headers.get("Content-Type")).toContain("text/event-stream");
+
+    const events = (await res.text())
+      .split("\n\n")
+      .filter((e) => e.startsWith("event: message"))
+      .map((e) => JSON.parse(e.split("data: ")[1]));
+    const progress = events.filter(
+      (e) => e.method === "notifications/progress"
+    );
+    expect(progress.map((e) => e.params)).toEqual([
+      {
+        progressToken: "p-1",
+        progress: 1,
+        total: 2,
+        message: "Processed item 1 of 2",
+      },
+      {
+        progressToken: "p-1",
+        progress: 2,
+        total: 2,
+        message: "Processed item 2 of 2",
+      },
+    ]);
+    const last = events[events.length - 1];
+    expect(last.id).toBe("progress-1");
+    expect(last.result.content[0].type).toBe("text");
+  });
+
+  it("should report progress in the metadata of legacy stream chunks", async () => {
+    const res = await app.request("/invoke", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        method: "slow_task",
+        params: { stream: true, items: 2, delay: 10 },
+        id: "legacy-progress-1",
+      }),
+    });
+    const lines = parseJsonl(await res.text());
+    const partials = lines.filter((l) => l.result?.metadata?.partial);
+    expect(partials.map((l) => l.result.metadata.progress)).toEqual([
+      0, 50, 100,
+    ]);
+    expect(partials.map((l) => l.result.content.processedItems)).toEqual([
+      undefined,
+      1,
+      2,
+    ]);
+    expect(lines.every((l) => l.id === "legacy-progress-1")).toBe(true);
+    expect(lines[lines.length - 1].result.metadata.final).toBe(true);
+  });
+
+  it("should keep progress notifications out of legacy streams", async () => {
+    const res = await app.request("/invoke", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        method: "slow_task",
+        params: {
+          stream: true,
+          items: 2,
+          delay: 10,
+          _meta: { progressToken: 99 },
+        },
+        id: "legacy-progress-2",
+      }),
+    });
+    const lines = parseJsonl(await res.text());
+    expect(lines.some((l) => l.method)).toBe(false);
+    expect(lines.map((l) => l.result.metadata.progress)).toEqual([
+      0,
+      50,
+      100,
+      undefined,
+    ]);
+  });
 });
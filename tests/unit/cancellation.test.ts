@@ -0,0 +1,174 @@
+import { describe, expect, it } from "bun:test";
+import { InFlightRequests, inFlightRequests } from "../../src/mcp/cancellation";
+import { getAbortSignal } from "../../src/mcp/context";
+import { notificationRouter } from "../../src/mcp/notifications";
+import {
+  executeTool,
+  RequestCancelledError,
+  toolRegistry,
+  TransientToolError,
+} from "../../src/registry";
+import "../../src/tools/example/slowTask";
+
+describe("InFlightRequests (Unit)", () => {
+  it("should abort a tracked request by connection and id", () => {
+    const tracker = new InFlightRequests();
+    const controller = tracker.begin("conn-a", 1);
+
+    expect(tracker.cancel("conn-b", 1)).toBe(false);
+    expect(tracker.cancel("conn-a", "1")).toBe(false);
+    expect(controller.signal.aborted).toBe(false);
+
+    expect(tracker.cancel("conn-a", 1, "user gave up")).toBe(true);
+    expect(controller.signal.aborted).toBe(true);
+    expect(controller.signal.reason).toBe("user gave up");
+    expect(tracker.size).toBe(0);
+  });
+
+  it("should ignore cancellations after the request ended", () => {
+    const tracker = new InFlightRequests();
+    const controller = tracker.begin("conn", "req");
+    tracker.end("conn", "req");
+
+    expect(tracker.cancel("conn", "req")).toBe(false);
+    expect(controller.signal.aborted).toBe(false);
+  });
+
+  it("should abort when the transport signal aborts", () => {
+    const tracker = new InFlightRequests();
+    const transport = new AbortController();
+    const controller = tracker.begin("conn", 7, transport.signal);
+
+    transport.abort("Client disconnected");
+    expect(controller.signal.aborted).toBe(true);
+  });
+
+  it("should stop listening to the transport signal once a request ends", () => {
+    const tracker = new InFlightRequests();
+    const transport = new AbortController();
+    const controllers = [1, 2, 3].map((id) =>
+      tracker.begin("conn", id, transport.signal)
+    );
+    [1, 2, 3].forEach((id) => tracker.end("conn", id));
+
+    transport.abort("Client disconnected");
+    expect(controllers.some((c) => c.signal.aborted)).toBe(false);
+  });
+
+  it("should cancel through notifications/cancelled", async () => {
+    const controller = inFlightRequests.begin("notif-conn", 42);
+    await notificationRouter.route(
+      "notifications/cancelled",
+      { requestId: 42, reason: "timeout" },
+      { connectionKey: "notif-conn" }
+    );
+    expect(controller.signal.aborted).toBe(true);
+  });
+});
+
+describe("executeTool cancellation (Unit)", () => {
+  it("should pass the signal to handlers and reject once aborted", async () => {
+    let seen: AbortSignal | undefined;
+    toolRegistry.register({
+      name: "unit_cancellable_tool",
+      description: "Waits until aborted",
+      parameters: { type: "object", properties: {} },
+      handler: async () => {
+        seen = getAbortSignal();
+        await new Promise((resolve) => setTimeout(resolve, 1_000));
+        return { content: "too late" };
+      },
+    });
+
+    try {
+      const controller = new AbortController();
+      const pending = executeTool(
+        "unit_cancellable_tool",
+        {},
+        undefined,
+        undefined,
+        1,
+        controller.signal
+      );
+      controller.abort();
+
+      await expect(pending).rejects.toBeInstanceOf(RequestCancelledError);
+      expect(seen).toBe(controller.signal);
+    } finally {
+      toolRegistry.unregister("unit_cancellable_tool");
+    }
+  });
+
+  it("should not retry once cancelled during the backoff", async () => {
+    let calls = 0;
+    toolRegistry.register({
+      name: "unit_flaky_cancelled_tool",
+      description: "Always fails transiently",
+      parameters: { type: "object", properties: {} },
+      annotations: { readOnlyHint: true },
+      handler: async () => {
+        calls++;
+        throw new TransientToolError("Upstream returned 503");
+      },
+    });
+
+    try {
+      const controller = new AbortController();
+      const pending = executeTool(
+        "unit_flaky_cancelled_tool",
+        {},
+        undefined,
+        undefined,
+        1,
+        controller.signal
+      );
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      controller.abort();
+
+      await expect(pending).rejects.toBeInstanceOf(RequestCancelledError);
+      // Longer than the first backoff delay
+      await new Promise((resolve) => setTimeout(resolve, 150));
+      expect(calls).toBe(1);
+    } finally {
+      toolRegistry.unregister("unit_flaky_cancelled_tool");
+    }
+  });
+
+  it("should stop listening to the signal once a stream ends", async () => {
+    const controller = new AbortController();
+    const listening = new Set<unknown>();
+    const { signal } = controller;
+    const add = signal.addEventListener.bind(signal);
+    const remove = signal.removeEventListener.bind(signal);
+    signal.addEventListener = (type: string, listener: any, options?: any) => {
+      listening.add(listener);
+      add(type, listener, options);
+    };
+    signal.removeEventListener = (type: string, listener: any) => {
+      listening.delete(listener);
+      remove(type, listener);
+    };
+
+    const stream = new TransformStream();
+    await executeTool(
+      "slow_task",
+      { items: 1, delay: 1 },
+      stream.writable.getWriter(),
+      new TextEncoder(),
+      1,
+      signal
+    );
+    await new Response(stream.readable).text();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(listening.size).toBe(0);
+  });
+
+  it("should refuse to start an already cancelled request", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(
+      executeTool("slow_task", {}, undefined, undefined, 1, controller.signal)
+    ).rejects.toBeInstanceOf(RequestCancelledError);
+  });
+});
@@ -0,0 +1,212 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import {
+  handleComplete,
+  MAX_COMPLETION_VALUES,
+} from "../../src/handlers/completion_handlers";
+import type {
+  CompleteRequestParams,
+  CompleteResponseResult,
+} from "../../src/mcp/types";
+import {
+  promptRegistry,
+  resourceProviderRegistry,
+  toolRegistry,
+} from "../../src/registry";
+import type {
+  JsonRpcErrorResponse,
+  JsonRpcSuccessResponse,
+} from "../../src/types/json-rpc";
+
+const TEST_TOOL = "unit_test_completion_tool";
+const TEST_PROMPT = "unit_test_completion_prompt";
+
+async function complete(
+  ref: CompleteRequestParams["ref"],
+  name: string,
+  value: string,
+  args: Record<string, string> = {}
+) {
+  return handleComplete(
+    { ref, argument: { name, value }, context: { arguments: args } },
+    "complete-1"
+  );
+}
+
+function completionOf(response: unknown): CompleteResponseResult["completion"] {
+  return (response as JsonRpcSuccessResponse<CompleteResponseResult>).result
+    .completion;
+}
+
+describe("Completion Handlers (Unit)", () => {
+  beforeAll(() => {
+    toolRegistry.register({
+      name: TEST_TOOL,
+      description: "A tool with completable parameters",
+      parameters: {
+        type: "object",
+        properties: {
+          color: {
+            type: "string",
+            description: "A color",
+            enum: ["red", "green", "Grey"],
+          },
+          city: { type: "string", description: "A city" },
+          note: { type: "string", description: "Free text" },
+        },
+      },
+      handler: async () => ({ content: "ok" }),
+      completions: {
+        city: async (value, { arguments: args }) =>
+          ["Paris", "Perth", `${args.country}-capital`].filter((c) =>
+            c.startsWith(value)
+          ),
+      },
+    });
+    promptRegistry.register({
+      name: TEST_PROMPT,
+      arguments: [{ name: "topic" }, { name: "tone" }],
+      handler: async () => ({ messages: [] }),
+      completions: {
+        topic: async () => Array.from({ length: 150 }, (_, i) => `t${i}`),
+        tone: async () => {
+          throw new Error("Completer offline");
+        },
+      },
+    });
+    resourceProviderRegistry.register({
+      scheme: "unitdocs",
+      templates: [{ uriTemplate: "unitdocs://{section}", name: "Docs" }],
+      completions: { section: async (value) => [`${value}intro`] },
+      list: async () => [],
+      read: async () => undefined,
+    });
+  });
+
+  afterAll(() => {
+    toolRegistry.unregister(TEST_TOOL);
+    promptRegistry.unregister(TEST_PROMPT);
+    resourceProviderRegistry.unregister("unitdocs");
+  });
+
+  it("should complete tool enums by case-insensitive prefix", async () => {
+    const ref = { type: "ref/tool" as const, name: TEST_TOOL };
+    expect(completionOf(await complete(ref, "color", "g"))).toEqual({
+      values: ["green", "Grey"],
+      total: 2,
+      hasMore: false,
+    });
+    expect(completionOf(await complete(ref, "color", "")).values).toEqual([
+      "red",
+      "green",
+      "Grey",
+    ]);
+  });
+
+  it("should pass the partial value and context to custom completers", async () => {
+    const response = await complete(
+      { type: "ref/tool", name: TEST_TOOL },
+      "city",
+      "P",
+      { country: "Peru" }
+    );
+    expect(completionOf(response).values).toEqual([
+      "Paris",
+      "Perth",
+      "Peru-capital",
+    ]);
+  });
+
+  it("should return no values for arguments without suggestions", async () => {
+    const response = await complete(
+      { type: "ref/tool", name: TEST_TOOL },
+      "note",
+      "x"
+    );
+    expect(completionOf(response)).toEqual({
+      values: [],
+      total: 0,
+      hasMore: false,
+    });
+  });
+
+  it("should return no values for tools without declared properties", async () => {
+    toolRegistry.register({
+      name: "unit_test_bare_tool",
+      description: "Registered without properties",
+      parameters: { type: "object" } as any,
+      handler: async () => ({ content: "ok" }),
+    });
+    try {
+      const response = await complete(
+        { type: "ref/tool", name: "unit_test_bare_tool" },
+        "anything",
+        "a"
+      );
+      expect(completionOf(response)).toEqual({
+        values: [],
+        total: 0,
+        hasMore: false,
+      });
+    } finally {
+      toolRegistry.unregister("unit_test_bare_tool");
+    }
+  });
+
+  it("should cap prompt completions and report more", async () => {
+    const response = await complete(
+      { type: "ref/prompt", name: TEST_PROMPT },
+      "topic",
+      ""
+    );
+    const completion = completionOf(response);
+    expect(completion.values).toHaveLength(MAX_COMPLETION_VALUES);
+    expect(completion.total).toBe(150);
+    expect(completion.hasMore).toBe(true);
+  });
+
+  it("should complete resource template variables", async () => {
+    const response = await complete(
+      { type: "ref/resource", uri: "unitdocs://{section}" },
+      "section",
+      "getting-"
+    );
+    expect(completionOf(response).values).toEqual(["getting-intro"]);
+  });
+
+  it("should complete the summarize_text style argument", async () => {
+    await import("../../src/prompts/summarizeText");
+    const response = await complete(
+      { type: "ref/prompt", name: "summarize_text" },
+      "style",
+      "b"
+    );
+    expect(completionOf(response).values).toEqual(["brief", "bullet"]);
+  });
+
+  it("should reject unknown references and arguments with -32602", async () => {
+    const unknownRef = (await complete(
+      { type: "ref/prompt", name: "no_such_prompt" },
+      "x",
+      ""
+    )) as JsonRpcErrorResponse;
+    expect(unknownRef.error.code).toBe(-32602);
+
+    const unknownArg = (await complete(
+      { type: "ref/tool", name: TEST_TOOL },
+      "size",
+      ""
+    )) as JsonRpcErrorResponse;
+    expect(unknownArg.error.code).toBe(-32602);
+    expect(unknownArg.error.message).toContain("size");
+  });
+
+  it("should report completer failures as -32603", async () => {
+    const response = (await complete(
+      { type: "ref/prompt", name: TEST_PROMPT },
+      "tone",
+      ""
+    )) as JsonRpcErrorResponse;
+    expect(response.error.code).toBe(-32603);
+    expect(response.error.message).toContain("Completer offline");
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "bun:test";
+import { toCallToolResult } from "../../src/handlers/tool_handlers";
+import {
+  createAudioContent,
+  createEmbeddedResource,
+  createTextContent,
+  createToolErrorResponse,
+  isContentBlock,
+  toContentBlocks,
+} from "../../src/mcp/content";
+
+describe("Tool Result Content (Unit)", () => {
+  it("should base64 encode binary image and audio data", () => {
+    expect(
+      createAudioContent(new TextEncoder().encode("RIFF").buffer, "audio/wav")
+    ).toEqual({ type: "audio", data: "UklGRg==", mimeType: "audio/wav" });
+    expect(createAudioContent("UklGRg==", "audio/wav").data).toBe("UklGRg==");
+  });
+
+  it("should recognize only well-formed content blocks", () => {
+    expect(isContentBlock(createTextContent("hi"))).toBe(true);
+    expect(
+      isContentBlock(
+        createEmbeddedResource({ uri: "file:///a.txt", text: "hello" })
+      )
+    ).toBe(true);
+    expect(isContentBlock({ type: "image", data: "AAAA" })).toBe(false);
+    expect(isContentBlock({ type: "resource", resource: { uri: "x" } })).toBe(
+      false
+    );
+    expect(isContentBlock({ type: "task", title: "Not a block" })).toBe(false);
+  });
+
+  it("should wrap plain content in a text block", () => {
+    expect(toContentBlocks("hello")).toEqual([{ type: "text", text: "hello" }]);
+    expect(toContentBlocks([{ id: "1", title: "Task" }])).toEqual([
+      { type: "text", text: '[{"id":"1","title":"Task"}]' },
+    ]);
+    expect(toContentBlocks([])).toEqual([{ type: "text", text: "[]" }]);
+    expect(toContentBlocks(undefined)).toEqual([
+      { type: "text", text: "null" },
+    ]);
+  });
+
+  it("should keep content blocks as they are", () => {
+    const block = createTextContent("hi");
+    expect(toContentBlocks(block)).toEqual([block]);
+    expect(toContentBlocks([block, block])).toEqual([block, block]);
+    // A mix of blocks and other values is treated as plain data
+    expect(toContentBlocks([block, { title: "Task" }])[0].type).toBe("text");
+    expect(toContentBlocks([block, { title: "Task" }])).toHaveLength(1);
+  });
+
+  it("should mark error responses with isError", () => {
+    const result = toCallToolResult(
+      createToolErrorResponse("Rate limit reached")
+    );
+    expect(result).toEqual({
+      content: [{ type: "text", text: "Rate limit reached" }],
+      isError: true,
+      metadata: undefined,
+    });
+    expect(
+      toCallToolResult({ content: "failed", metadata: { isError: true } })
+        .isError
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,174 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import type { Mock } from "bun:test";
+import type { Task } from "../../src/db/memory";
+import { db } from "../../src/db/memory";
+import { ClientRequestError } from "../../src/mcp/clientRequests";
+import { runWithRequestContext } from "../../src/mcp/context";
+import {
+  confirm,
+  elicit,
+  validateElicitedContent,
+} from "../../src/mcp/elicitation";
+import type { ElicitResult, McpElicitationSchema } from "../../src/mcp/types";
+import { ToolExecutionError } from "../../src/registry";
+import { sessions } from "../../src/session";
+import { createTask } from "../../src/tools/createTask";
+import { connectClient, failure } from "../helpers/client";
+
+const schema: McpElicitationSchema = {
+  type: "object",
+  properties: {
+    name: { type: "string", minLength: 2 },
+    size: { type: "string", enum: ["S", "M", "L"] },
+    count: { type: "integer", minimum: 1 },
+    urgent: { type: "boolean" },
+  },
+  required: ["name"],
+};
+
+/**
+ * Creates a session whose client declares `elicitation` and answers every
+ * `elicitation/create` request with `answer`
+ */
+const connectWithElicitation = (answer: ElicitResult) =>
+  connectClient({
+    capabilities: { elicitation: {} },
+    answers: { "elicitation/create": () => answer },
+  });
+
+describe("Elicitation (Unit)", () => {
+  it("should keep valid content limited to the requested fields", () => {
+    expect(
+      validateElicitedContent(schema, {
+        name: "Ada",
+        size: "M",
+        urgent: false,
+        extra: "dropped",
+      })
+    ).toEqual({ name: "Ada", size: "M", urgent: false });
+  });
+
+  it("should reject content that doesn't match the schema", () => {
+    expect(() =>
+      validateElicitedContent(schema, { size: "XL", count: 1.5 })
+    ).toThrow(ClientRequestError);
+    try {
+      validateElicitedContent(schema, { size: "XL", count: 1.5 });
+    } catch (error) {
+      expect((error as ClientRequestError).code).toBe(-32602);
+      expect((error as ClientRequestError).message).toContain(
+        "'name' is required"
+      );
+      expect((error as ClientRequestError).message).toContain("S, M, L");
+      expect((error as ClientRequestError).message).toContain("integer");
+    }
+  });
+
+  it("should fall back to undefined when the client can't be asked", async () => {
+    expect(await elicit("Name?", schema)).toBeUndefined();
+
+    const { session, context } = await connectClient();
+    const answer = await runWithRequestContext(context, () =>
+      elicit("Name?", schema)
+    );
+    expect(answer).toBeUndefined();
+    await sessions.terminate(session.id);
+  });
+
+  it("should send the schema and return the accepted content", async () => {
+    const { session, received, context } = await connectWithElicitation({
+      action: "accept",
+      content: { name: "Ada" },
+    });
+    const answer = await runWithRequestContext(context, () =>
+      elicit("Name?", schema)
+    );
+
+    expect(received[0].params).toEqual({
+      message: "Name?",
+      requestedSchema: schema,
+    });
+    expect(answer).toEqual({ action: "accept", content: { name: "Ada" } });
+    await sessions.terminate(session.id);
+  });
+
+  it("should report declined and cancelled answers without content", async () => {
+    const { session, context } = await connectWithElicitation({
+      action: "decline",
+      content: { name: "ignored" },
+    });
+    expect(
+      await runWithRequestContext(context, () => elicit("Name?", schema))
+    ).toEqual({ action: "decline" });
+    expect(await runWithRequestContext(context, () => confirm("Go?"))).toBe(
+      false
+    );
+    await sessions.terminate(session.id);
+  });
+
+  it("should confirm only when the user accepts with confirm=true", async () => {
+    const { session, context } = await connectWithElicitation({
+      action: "accept",
+      content: { confirm: true },
+    });
+    expect(await runWithRequestContext(context, () => confirm("Go?"))).toBe(
+      true
+    );
+    await sessions.terminate(session.id);
+  });
+});
+
+describe("create_task with elicitation (Unit)", () => {
+  let createTaskSpy: Mock<(...args: any[]) => Promise<Task | null>>;
+
+  beforeEach(() => {
+    createTaskSpy = spyOn(db, "createTask").mockImplementation(
+      async (input: any) => ({ id: "t1", completed: false, ...input })
+    );
+  });
+
+  afterEach(() => {
+    createTaskSpy.mockRestore();
+  });
+
+  it("should ask for a missing title and create the task", async () => {
+    const { session, received, context } = await connectWithElicitation({
+      action: "accept",
+      content: { title: "Write docs", description: "For elicitation" },
+    });
+    const result = await runWithRequestContext(context, () =>
+      createTask({ dueDate: "2026-01-31" })
+    );
+
+    expect(
+      received.filter((m) => m.method === "elicitation/create")
+    ).toHaveLength(1);
+    expect(createTaskSpy).toHaveBeenCalledWith({
+      title: "Write docs",
+      description: "For elicitation",
+      dueDate: "2026-01-31",
+    });
+    expect(result.content.title).toBe("Write docs");
+    await sessions.terminate(session.id);
+  });
+
+  it("should not create the task when the user declines", async () => {
+    const { session, context } = await connectWithElicitation({
+      action: "decline",
+    });
+    const error = await failure(
+      runWithRequestContext(context, () => createTask({}))
+    );
+
+    expect(error).toBeInstanceOf(ToolExecutionError);
+    expect(error.message).toContain("decline");
+    expect(createTaskSpy).not.toHaveBeenCalled();
+    await sessions.terminate(session.id);
+  });
+
+  it("should still require a title from clients without elicitation", async () => {
+    const error = await failure(createTask({}));
+    expect(error).toBeInstanceOf(ToolExecutionError);
+    expect(error.message).toBe("Title is required");
+  });
+});
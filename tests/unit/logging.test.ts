@@ -0,0 +1,165 @@
+import { describe, expect, it } from "bun:test";
+import { handleSetLogLevel } from "../../src/handlers/logging_handlers";
+import { runWithRequestContext } from "../../src/mcp/context";
+import { logForwarder } from "../../src/mcp/logging";
+import { sessions } from "../../src/session";
+import type { JsonRpcNotification } from "../../src/types/json-rpc";
+import { Logger } from "../../src/utils/logger";
+import { REDACTED, redactSecrets } from "../../src/utils/redact";
+import { connectClient } from "../helpers/client";
+
+// Sinks see every record, so the console can stay quiet
+const quietLogger = new Logger({ minLevel: "error", enableColors: false });
+
+// Request context as the dispatcher builds it for a session's message
+async function contextOf(sessionId: string) {
+  return { sessionId, session: await sessions.get(sessionId) };
+}
+
+describe("Secret Redaction (Unit)", () => {
+  it("should redact values under secret-named keys", () => {
+    const redacted = redactSecrets({
+      user: "ada",
+      apiKey: "abc",
+      headers: { Authorization: "Basic xyz" },
+      maxTokens: 100,
+    });
+    expect(redacted).toEqual({
+      user: "ada",
+      apiKey: REDACTED,
+      headers: { Authorization: REDACTED },
+      maxTokens: 100,
+    });
+  });
+
+  it("should only redact keys named like secrets", () => {
+    const redacted = redactSecrets({
+      accessToken: "a",
+      client_secret: "b",
+      "x-api-key": "c",
+      APIKey: "d",
+      progressToken: "p-1",
+      maxTokens: 100,
+      tokenizer: "cl100k",
+      secretary: "ada",
+    });
+    expect(redacted).toEqual({
+      accessToken: REDACTED,
+      client_secret: REDACTED,
+      "x-api-key": REDACTED,
+      APIKey: REDACTED,
+      progressToken: "p-1",
+      maxTokens: 100,
+      tokenizer: "cl100k",
+      secretary: "ada",
+    });
+  });
+
+  it("should redact tokens and keys inside text", () => {
+    expect(
+      redactSecrets("calling with Bearer abc.def-123 and sk-abcdefgh12345678")
+    ).toBe(`calling with ${REDACTED} and ${REDACTED}`);
+  });
+
+  it("should redact the values of secret environment variables", () => {
+    process.env.TEST_SERVICE_KEY = "super-secret-value";
+    try {
+      expect(redactSecrets({ url: "https://x?k=super-secret-value" })).toEqual({
+        url: `https://x?k=${REDACTED}`,
+      });
+    } finally {
+      delete process.env.TEST_SERVICE_KEY;
+    }
+  });
+
+  it("should not modify the original value", () => {
+    const original = { password: "hunter22" };
+    redactSecrets(original);
+    expect(original.password).toBe("hunter22");
+  });
+});
+
+describe("MCP Logging (Unit)", () => {
+  const toolLogger = quietLogger.child({ tool: "test-tool" });
+
+  it("should forward nothing until the session sets a level", async () => {
+    const { session, received } = await connectClient();
+    runWithRequestContext(await contextOf(session.id), () =>
+      toolLogger.warn("failed")
+    );
+    expect(received).toEqual([]);
+    await sessions.terminate(session.id);
+  });
+
+  it("should forward tool logs at or above the session's level", async () => {
+    const { session, received } = await connectClient();
+    const response = await handleSetLogLevel(
+      { level: "warning" },
+      1,
+      session.id
+    );
+    expect(response).toEqual({ jsonrpc: "2.0", id: 1, result: {} });
+
+    runWithRequestContext(await contextOf(session.id), () => {
+      toolLogger.info("ignored");
+      toolLogger.warn("Rate limited", { retryAfter: 2 });
+    });
+
+    expect(received).toEqual([
+      {
+        jsonrpc: "2.0",
+        method: "notifications/message",
+        params: {
+          level: "warning",
+          logger: "test-tool",
+          data: { message: "Rate limited", retryAfter: 2 },
+        },
+      },
+    ]);
+    await sessions.terminate(session.id);
+  });
+
+  it("should redact secrets before forwarding", async () => {
+    const { session, received } = await connectClient();
+    await logForwarder.setLevel(session.id, "debug");
+    runWithRequestContext(await contextOf(session.id), () =>
+      toolLogger.debug("Calling API", { token: "t0ps3cret" })
+    );
+    expect((received[0].params as Record<string, unknown>).data).toEqual({
+      message: "Calling API",
+      token: REDACTED,
+    });
+    await sessions.terminate(session.id);
+  });
+
+  it("should prefer the request's notify channel", async () => {
+    const { session, received } = await connectClient();
+    await logForwarder.setLevel(session.id, "debug");
+    const notified: JsonRpcNotification[] = [];
+    runWithRequestContext(
+      { ...(await contextOf(session.id)), notify: (n) => notified.push(n) },
+      () => toolLogger.info("Working")
+    );
+    expect(received).toEqual([]);
+    expect(notified).toHaveLength(1);
+    await sessions.terminate(session.id);
+  });
+
+  it("should ignore non-tool loggers and logs outside a request", async () => {
+    const { session, received } = await connectClient();
+    await logForwarder.setLevel(session.id, "debug");
+    runWithRequestContext(await contextOf(session.id), () =>
+      quietLogger.child({ component: "dispatcher" }).info("Handling")
+    );
+    toolLogger.info("No request");
+    expect(received).toEqual([]);
+    await sessions.terminate(session.id);
+  });
+
+  it("should forget the level when the session ends", async () => {
+    const { session } = await connectClient();
+    await logForwarder.setLevel(session.id, "info");
+    await sessions.terminate(session.id);
+    expect(await logForwarder.getLevel(session.id)).toBeUndefined();
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "bun:test";
+import type { DispatchContext } from "../../src/mcp/dispatcher";
+import { NotificationRouter } from "../../src/mcp/notifications";
+
+const context: DispatchContext = { connectionKey: "unit-test" };
+
+describe("NotificationRouter (Unit)", () => {
+  it("should route a notification to every registered handler", async () => {
+    const router = new NotificationRouter();
+    const received: any[] = [];
+    router.register("notifications/test", (params) => {
+      received.push(["first", params]);
+    });
+    router.register("notifications/test", async (params, ctx) => {
+      received.push(["second", params, ctx.connectionKey]);
+    });
+
+    const handled = await router.route(
+      "notifications/test",
+      { value: 1 },
+      context
+    );
+
+    expect(handled).toBe(true);
+    expect(received).toEqual([
+      ["first", { value: 1 }],
+      ["second", { value: 1 }, "unit-test"],
+    ]);
+  });
+
+  it("should report unhandled notifications without throwing", async () => {
+    const router = new NotificationRouter();
+    expect(await router.route("notifications/unknown", {}, context)).toBe(
+      false
+    );
+  });
+
+  it("should stop calling a handler once it is unregistered", async () => {
+    const router = new NotificationRouter();
+    let calls = 0;
+    const unregister = router.register("notifications/test", () => {
+      calls++;
+    });
+
+    await router.route("notifications/test", {}, context);
+    unregister();
+    await router.route("notifications/test", {}, context);
+
+    expect(calls).toBe(1);
+    expect(router.hasHandler("notifications/test")).toBe(false);
+  });
+
+  it("should isolate handler failures", async () => {
+    const router = new NotificationRouter();
+    let secondCalled = false;
+    router.register("notifications/test", () => {
+      throw new Error("Handler failure");
+    });
+    router.register("notifications/test", () => {
+      secondCalled = true;
+    });
+
+    await expect(router.route("notifications/test", {}, context)).resolves.toBe(
+      true
+    );
+    expect(secondCalled).toBe(true);
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, expect, it } from "bun:test";
+import { toCallToolResult, toMcpTool } from "../../src/handlers/tool_handlers";
+import type { MCPTool } from "../../src/types/mcp";
+import { config } from "../../src/utils/config";
+import { validateJsonSchema } from "../../src/utils/jsonSchema";
+
+const weatherTool: MCPTool = {
+  name: "weather",
+  description: "Current weather",
+  parameters: { type: "object", properties: {} },
+  outputSchema: {
+    type: "object",
+    properties: {
+      city: { type: "string" },
+      temperature: { type: "number" },
+      conditions: { type: "string", enum: ["sunny", "cloudy", "rain"] },
+    },
+    required: ["city", "temperature"],
+  },
+};
+
+describe("JSON Schema Validation (Unit)", () => {
+  it("should accept matching values", () => {
+    expect(
+      validateJsonSchema(weatherTool.outputSchema!, {
+        city: "Oslo",
+        temperature: -3.5,
+        conditions: "cloudy",
+      })
+    ).toEqual([]);
+  });
+
+  it("should report every problem with its path", () => {
+    expect(
+      validateJsonSchema(
+        {
+          type: "object",
+          properties: {
+            tasks: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: { id: { type: "string" } },
+                required: ["id"],
+                additionalProperties: false,
+              },
+            },
+            count: { type: "integer", minimum: 0 },
+          },
+          required: ["tasks"],
+        },
+        { tasks: [{ id: 1 }, { name: "x" }], count: 1.5 }
+      )
+    ).toEqual([
+      "tasks[0].id: expected string, got number",
+      "tasks[1].id: is required",
+      "tasks[1].name: is not allowed",
+      "count: expected integer, got number",
+    ]);
+  });
+
+  it("should support type unions and anyOf", () => {
+    const schema = { type: ["string", "null"] };
+    expect(validateJsonSchema(schema, null)).toEqual([]);
+    expect(validateJsonSchema(schema, 1)).toHaveLength(1);
+    expect(
+      validateJsonSchema({ anyOf: [{ type: "string" }, { minimum: 10 }] }, 12)
+    ).toEqual([]);
+  });
+});
+
+describe("Structured Tool Output (Unit)", () => {
+  it("should publish the output schema in the tool definition", () => {
+    expect(toMcpTool(weatherTool).outputSchema).toEqual(
+      weatherTool.outputSchema
+    );
+    expect(
+      "outputSchema" in toMcpTool({ ...weatherTool, outputSchema: undefined })
+    ).toBe(false);
+  });
+
+  it("should return object content as structuredContent with a text rendering", () => {
+    const content = { city: "Oslo", temperature: 4 };
+    const result = toCallToolResult({ content }, weatherTool);
+    expect(result.structuredContent).toEqual(content);
+    expect(result.content).toEqual([
+      { type: "text", text: JSON.stringify(content) },
+    ]);
+  });
+
+  it("should prefer the handler's structuredContent", () => {
+    const result = toCallToolResult(
+      {
+        content: "It is 4 degrees in Oslo",
+        structuredContent: { city: "Oslo", temperature: 4 },
+      },
+      weatherTool
+    );
+    expect(result.content[0]).toEqual({
+      type: "text",
+      text: "It is 4 degrees in Oslo",
+    });
+    expect(result.structuredContent).toEqual({ city: "Oslo", temperature: 4 });
+  });
+
+  it("should fail loudly in development when the output doesn't match", () => {
+    const { environment } = config.server;
+    config.server.environment = "development";
+    try {
+      expect(() =>
+        toCallToolResult({ content: { city: "Oslo" } }, weatherTool)
+      ).toThrow(
+        "Tool 'weather' returned output that does not match its outputSchema: temperature: is required"
+      );
+      expect(() =>
+        toCallToolResult({ content: "no data" }, weatherTool)
+      ).toThrow("no structured content returned");
+    } finally {
+      config.server.environment = environment;
+    }
+  });
+
+  it("should send mismatching output without structuredContent elsewhere", () => {
+    expect(config.server.environment).not.toBe("development");
+    const result = toCallToolResult({ content: { city: "Oslo" } }, weatherTool);
+    expect(result.isError).toBe(false);
+    expect(result.structuredContent).toBeUndefined();
+  });
+
+  it("should not check error results or tools without a schema", () => {
+    const failed = toCallToolResult(
+      { content: "Service unavailable", isError: true },
+      weatherTool
+    );
+    expect(failed.isError).toBe(true);
+    expect(failed.structuredContent).toBeUndefined();
+
+    const plain = toCallToolResult(
+      { content: { any: "shape" } },
+      { ...weatherTool, outputSchema: undefined }
+    );
+    expect(plain.structuredContent).toBeUndefined();
+  });
+});
@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { handleListTools } from "../../src/handlers/tool_handlers";
+import { InvalidCursorError, paginate } from "../../src/mcp/pagination";
+import type { ListToolsResponseResult } from "../../src/mcp/types";
+import { toolRegistry } from "../../src/registry";
+import type {
+  JsonRpcErrorResponse,
+  JsonRpcSuccessResponse,
+} from "../../src/types/json-rpc";
+import { config } from "../../src/utils/config";
+
+const byName = (item: { name: string }) => item.name;
+const names = (items: { name: string }[]) => items.map(byName);
+
+describe("Cursor Pagination (Unit)", () => {
+  it("should page through items ordered by key", () => {
+    const items = ["d", "a", "e", "c", "b"].map((name) => ({ name }));
+
+    const first = paginate(items, byName, "things", undefined, 2);
+    expect(names(first.items)).toEqual(["a", "b"]);
+    const second = paginate(items, byName, "things", first.nextCursor, 2);
+    expect(names(second.items)).toEqual(["c", "d"]);
+    const last = paginate(items, byName, "things", second.nextCursor, 2);
+    expect(names(last.items)).toEqual(["e"]);
+    expect(last.nextCursor).toBeUndefined();
+  });
+
+  it("should return everything when the page size is 0", () => {
+    const items = [{ name: "a" }, { name: "b" }];
+    expect(paginate(items, byName, "things", undefined, 0)).toEqual({
+      items,
+    });
+  });
+
+  it("should keep cursors valid while the list changes", () => {
+    const items = ["a", "b", "c", "d"].map((name) => ({ name }));
+    const first = paginate(items, byName, "things", undefined, 2);
+
+    // "aa" lands before the cursor, "b" (already seen) and "c" are removed
+    const changed = ["a", "aa", "d", "e"].map((name) => ({ name }));
+    const second = paginate(changed, byName, "things", first.nextCursor, 2);
+    expect(names(second.items)).toEqual(["d", "e"]);
+  });
+
+  it("should reject cursors that are malformed or belong to another list", () => {
+    const items = ["a", "b", "c"].map((name) => ({ name }));
+    const { nextCursor } = paginate(items, byName, "tools", undefined, 1);
+
+    expect(() => paginate(items, byName, "prompts", nextCursor, 1)).toThrow(
+      InvalidCursorError
+    );
+    expect(() => paginate(items, byName, "tools", "not-a-cursor", 1)).toThrow(
+      "Invalid params: invalid cursor"
+    );
+  });
+});
+
+describe("tools/list pagination (Unit)", () => {
+  const pageSize = config.mcp.pageSize;
+
+  afterEach(() => {
+    config.mcp.pageSize = pageSize;
+  });
+
+  it("should list every tool exactly once across pages", async () => {
+    config.mcp.pageSize = 2;
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const response = (await handleListTools(
+        { cursor },
+        "page"
+      )) as JsonRpcSuccessResponse<ListToolsResponseResult>;
+      expect(response.result.tools.length).toBeLessThanOrEqual(2);
+      seen.push(...names(response.result.tools));
+      cursor = response.result.nextCursor;
+    } while (cursor);
+
+    expect(seen).toEqual(names(toolRegistry.getAllTools()).sort());
+  });
+
+  it("should answer an invalid cursor with -32602", async () => {
+    const response = (await handleListTools(
+      { cursor: "bogus" },
+      "bad-cursor"
+    )) as JsonRpcErrorResponse;
+    expect(response.error.code).toBe(-32602);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "bun:test";
+import { runWithRequestContext } from "../../src/mcp/context";
+import type { ProgressUpdate } from "../../src/mcp/progress";
+import {
+  createProgressNotification,
+  createProgressReporter,
+  reportProgress,
+} from "../../src/mcp/progress";
+
+describe("Progress (Unit)", () => {
+  it("should build notifications/progress messages", () => {
+    expect(
+      createProgressNotification("tok", {
+        progress: 2,
+        total: 4,
+        message: "Halfway",
+      })
+    ).toEqual({
+      jsonrpc: "2.0",
+      method: "notifications/progress",
+      params: {
+        progressToken: "tok",
+        progress: 2,
+        total: 4,
+        message: "Halfway",
+      },
+    });
+  });
+
+  it("should only deliver increasing progress values", () => {
+    const delivered: ProgressUpdate[] = [];
+    const reporter = createProgressReporter((u) => delivered.push(u));
+
+    reporter({ progress: 1 });
+    reporter({ progress: 1 });
+    reporter({ progress: 0.5 });
+    reporter({ progress: 3 });
+
+    expect(delivered.map((u) => u.progress)).toEqual([1, 3]);
+  });
+
+  it("should report through the current request context", () => {
+    const delivered: ProgressUpdate[] = [];
+    const progress = createProgressReporter((u) => delivered.push(u));
+
+    expect(reportProgress(1)).toBe(false);
+    runWithRequestContext({ progress }, () => {
+      expect(reportProgress(1, 10, "Working")).toBe(true);
+    });
+    expect(delivered).toEqual([{ progress: 1, total: 10, message: "Working" }]);
+  });
+});
@@ -0,0 +1,220 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import {
+  handleGetPrompt,
+  handleListPrompts,
+} from "../../src/handlers/prompt_handlers";
+import { runWithRequestContext } from "../../src/mcp/context";
+import type {
+  GetPromptResponseResult,
+  ListPromptsResponseResult,
+} from "../../src/mcp/types";
+import "../../src/prompts/explainResource";
+import {
+  InMemoryPromptRegistry,
+  promptRegistry,
+  resourceProviderRegistry,
+} from "../../src/registry";
+import type {
+  JsonRpcErrorResponse,
+  JsonRpcSuccessResponse,
+} from "../../src/types/json-rpc";
+import { config } from "../../src/utils/config";
+
+const TEST_PROMPT = "unit_test_greeting";
+
+describe("InMemoryPromptRegistry", () => {
+  it("should register, describe and unregister prompts", () => {
+    const registry = new InMemoryPromptRegistry();
+    registry.register({
+      name: "p",
+      description: "A prompt",
+      arguments: [{ name: "x", required: true }],
+      handler: async () => ({ messages: [] }),
+      category: "test",
+    });
+
+    expect(registry.isPromptRegistered("p")).toBe(true);
+    expect(registry.getPromptDefinition("p")).toEqual({
+      name: "p",
+      description: "A prompt",
+      arguments: [{ name: "x", required: true }],
+      metadata: {
+        permissionLevel: "public",
+        category: "test",
+        tags: undefined,
+      },
+    });
+    expect(() =>
+      registry.register({ name: "p", handler: async () => ({ messages: [] }) })
+    ).toThrow("already registered");
+
+    expect(registry.unregister("p")).toBe(true);
+    expect(registry.getAllPrompts()).toEqual([]);
+  });
+
+  it("should hide disabled prompts", () => {
+    const registry = new InMemoryPromptRegistry();
+    registry.register({
+      name: "hidden",
+      handler: async () => ({ messages: [] }),
+      enabled: false,
+    });
+
+    expect(registry.isPromptRegistered("hidden")).toBe(false);
+    expect(registry.getPromptHandler("hidden")).toBeUndefined();
+    expect(registry.getAllPrompts()).toEqual([]);
+  });
+});
+
+describe("Prompt Handlers (Unit)", () => {
+  beforeAll(() => {
+    promptRegistry.register({
+      name: TEST_PROMPT,
+      description: "Greets someone",
+      arguments: [
+        { name: "name", required: true },
+        { name: "tone", required: false },
+      ],
+      handler: async (args) => {
+        if (args.tone === "explode") {
+          throw new Error("Render failed");
+        }
+        return {
+          messages: [
+            {
+              role: "user",
+              content: { type: "text", text: `Say hello to ${args.name}` },
+            },
+          ],
+        };
+      },
+    });
+  });
+
+  afterAll(() => {
+    promptRegistry.unregister(TEST_PROMPT);
+  });
+
+  it("should list registered prompts with their arguments", async () => {
+    const response = (await handleListPrompts(
+      {},
+      "list-1"
+    )) as JsonRpcSuccessResponse<ListPromptsResponseResult>;
+
+    const prompt = response.result.prompts.find((p) => p.name === TEST_PROMPT);
+    expect(prompt).toEqual({
+      name: TEST_PROMPT,
+      description: "Greets someone",
+      arguments: [
+        { name: "name", required: true },
+        { name: "tone", required: false },
+      ],
+    });
+  });
+
+  it("should render a prompt into messages", async () => {
+    const response = (await handleGetPrompt(
+      { name: TEST_PROMPT, arguments: { name: "Ada" } },
+      "get-1"
+    )) as JsonRpcSuccessResponse<GetPromptResponseResult>;
+
+    expect(response.id).toBe("get-1");
+    expect(response.result.description).toBe("Greets someone");
+    expect(response.result.messages).toEqual([
+      {
+        role: "user",
+        content: { type: "text", text: "Say hello to Ada" },
+      },
+    ]);
+  });
+
+  it("should reject unknown prompts", async () => {
+    const response = (await handleGetPrompt(
+      { name: "no_such_prompt", arguments: {} },
+      "get-2"
+    )) as JsonRpcErrorResponse;
+
+    expect(response.error.code).toBe(-32602);
+    expect(response.error.message).toContain("Unknown prompt");
+  });
+
+  it("should reject missing required arguments", async () => {
+    const response = (await handleGetPrompt(
+      { name: TEST_PROMPT, arguments: { tone: "warm" } },
+      "get-3"
+    )) as JsonRpcErrorResponse;
+
+    expect(response.error.code).toBe(-32602);
+    expect(response.error.data).toEqual({ missing: ["name"] });
+  });
+
+  it("should report render failures as internal errors", async () => {
+    const response = (await handleGetPrompt(
+      { name: TEST_PROMPT, arguments: { name: "Ada", tone: "explode" } },
+      "get-4"
+    )) as JsonRpcErrorResponse;
+
+    expect(response.error.code).toBe(-32603);
+    expect(response.error.message).toContain("Render failed");
+  });
+});
+
+describe("explain_resource Prompt (Unit)", () => {
+  const enableAuth = config.auth.enableAuth;
+
+  beforeAll(() => {
+    resourceProviderRegistry.register({
+      scheme: "vault",
+      permissionLevel: "admin",
+      list: async () => [],
+      read: async (uri) =>
+        uri === "vault://secret"
+          ? [{ uri, mimeType: "text/plain", text: "classified" }]
+          : undefined,
+    });
+  });
+
+  afterAll(() => {
+    config.auth.enableAuth = enableAuth;
+    resourceProviderRegistry.unregister("vault");
+  });
+
+  const explain = (uri: string, permissions: string) => {
+    const auth = { isAuthenticated: true, clientId: "c", permissions };
+    return runWithRequestContext({ connectionKey: "explain-test", auth }, () =>
+      handleGetPrompt({ name: "explain_resource", arguments: { uri } }, 1, auth)
+    );
+  };
+
+  it("should read the resource with the caller's permissions", async () => {
+    config.auth.enableAuth = true;
+    try {
+      const allowed = (await explain(
+        "vault://secret",
+        "admin"
+      )) as JsonRpcSuccessResponse<GetPromptResponseResult>;
+      expect(allowed.result.messages[0].content).toMatchObject({
+        type: "resource",
+        resource: { uri: "vault://secret", text: "classified" },
+      });
+
+      const denied = (await explain(
+        "vault://secret",
+        "public"
+      )) as JsonRpcErrorResponse;
+      expect(denied.error.code).toBe(-32602);
+    } finally {
+      config.auth.enableAuth = enableAuth;
+    }
+  });
+
+  it("should reject unknown resources as invalid params", async () => {
+    const response = (await explain(
+      "vault://missing",
+      "admin"
+    )) as JsonRpcErrorResponse;
+
+    expect(response.error.code).toBe(-32602);
+    expect(response.error.message).toBe("Resource not found: vault://missing");
+  });
+});
@@ -0,0 +1,187 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { handleInitialize } from "../../src/handlers/lifecycle_handlers";
+import {
+  adaptTool,
+  adaptToolResult,
+  handleListTools,
+} from "../../src/handlers/tool_handlers";
+import {
+  createAudioContent,
+  createResourceLink,
+  createTextContent,
+} from "../../src/mcp/content";
+import { dispatchBatch } from "../../src/mcp/dispatcher";
+import {
+  lifecycle,
+  negotiateProtocolVersion,
+  PROTOCOL_VERSIONS,
+} from "../../src/mcp/lifecycle";
+import type {
+  InitializeResponseResult,
+  ListToolsResponseResult,
+  McpTool,
+  McpToolResult,
+} from "../../src/mcp/types";
+import type {
+  JsonRpcErrorResponse,
+  JsonRpcSuccessResponse,
+} from "../../src/types/json-rpc";
+import "../../src/tools/listTasks";
+
+const connectionKey = "protocol-versions-test";
+
+const initialize = (protocolVersion: string) =>
+  handleInitialize(
+    {
+      protocolVersion,
+      capabilities: {},
+      clientInfo: { name: "versions-test", version: "1.0.0" },
+    },
+    "init",
+    connectionKey
+  );
+
+const tool: McpTool = {
+  name: "weather",
+  description: "Current weather",
+  inputSchema: { type: "object", properties: {} },
+  outputSchema: { type: "object", properties: {} },
+  annotations: { readOnlyHint: true },
+};
+
+const result: McpToolResult = {
+  content: [
+    createTextContent("Forecast"),
+    createAudioContent(new Uint8Array([1, 2]), "audio/wav"),
+    createResourceLink({ uri: "weather://oslo", name: "Oslo" }),
+  ],
+  structuredContent: { city: "Oslo" },
+  isError: false,
+};
+
+describe("Protocol Version Negotiation (Unit)", () => {
+  afterEach(() => {
+    lifecycle.reset(connectionKey);
+  });
+
+  it("should echo every supported version", async () => {
+    for (const version of Object.keys(PROTOCOL_VERSIONS)) {
+      expect(negotiateProtocolVersion(version)).toBe(version);
+      const response = (await initialize(
+        version
+      )) as JsonRpcSuccessResponse<InitializeResponseResult>;
+      expect(response.result.protocolVersion).toBe(version);
+    }
+  });
+
+  it("should reject unsupported versions and list the supported ones", async () => {
+    expect(negotiateProtocolVersion("2023-01-01")).toBeUndefined();
+    const response = (await initialize("2023-01-01")) as JsonRpcErrorResponse;
+    expect(response.error.code).toBe(-32602);
+    expect(response.error.message).toBe(
+      "Unsupported protocol version: 2023-01-01. Supported versions: 2025-06-18, 2025-03-26, 2024-11-05."
+    );
+    expect(lifecycle.get(connectionKey)).toBeUndefined();
+  });
+
+  it("should give connections that never negotiated every feature", () => {
+    const features = lifecycle.featuresOf("never-initialized");
+    expect(features.structuredOutput).toBe(true);
+    expect(features.batching).toBe(true);
+
+    const assumed = lifecycle.featuresOf("never-initialized", "2025-03-26");
+    expect(assumed).toBe(PROTOCOL_VERSIONS["2025-03-26"]);
+  });
+});
+
+describe("Version-Specific Response Shapes (Unit)", () => {
+  afterEach(() => {
+    lifecycle.reset(connectionKey);
+  });
+
+  it("should keep everything for 2025-06-18", () => {
+    const features = PROTOCOL_VERSIONS["2025-06-18"];
+    expect(adaptTool(tool, features)).toEqual(tool);
+    expect(adaptToolResult(result, features)).toEqual(result);
+  });
+
+  it("should drop structured output and resource links for 2025-03-26", () => {
+    const features = PROTOCOL_VERSIONS["2025-03-26"];
+    expect(adaptTool(tool, features)).toEqual({
+      name: "weather",
+      description: "Current weather",
+      inputSchema: tool.inputSchema,
+      annotations: { readOnlyHint: true },
+    });
+
+    const adapted = adaptToolResult(result, features);
+    expect(adapted.structuredContent).toBeUndefined();
+    expect(adapted.content[1].type).toBe("audio");
+    expect(adapted.content[2]).toEqual({
+      type: "text",
+      text: "Resource: Oslo (weather://oslo)",
+    });
+  });
+
+  it("should also drop annotations and audio for 2024-11-05", async () => {
+    const features = PROTOCOL_VERSIONS["2024-11-05"];
+    expect("annotations" in adaptTool(tool, features)).toBe(false);
+    expect(adaptToolResult(result, features).content[1]).toEqual({
+      type: "text",
+      text: "[audio/wav audio omitted: not supported by this protocol version]",
+    });
+
+    await initialize("2024-11-05");
+    const response = (await handleListTools(
+      {},
+      "list",
+      lifecycle.featuresOf(connectionKey)
+    )) as JsonRpcSuccessResponse<ListToolsResponseResult>;
+    const listTasks = response.result.tools.find(
+      (t) => t.name === "list_tasks"
+    )!;
+    expect(listTasks.annotations).toBeUndefined();
+    expect(listTasks.outputSchema).toBeUndefined();
+  });
+
+  const pings = [
+    { jsonrpc: "2.0", method: "ping", id: 1 },
+    { jsonrpc: "2.0", method: "ping", id: 2 },
+  ];
+
+  it("should refuse batches on revisions without batching", async () => {
+    await initialize("2025-06-18");
+    const responses = await dispatchBatch(pings, {
+      connectionKey,
+      sessionId: "protocol-versions-session",
+    });
+    expect(responses).toHaveLength(1);
+    expect((responses[0] as JsonRpcErrorResponse).error).toMatchObject({
+      code: -32600,
+      message:
+        "Invalid Request: JSON-RPC batches are not supported in protocol version 2025-06-18.",
+    });
+  });
+
+  it("should give sessionless requests every feature", async () => {
+    // `/invoke` requests have no session, so nothing negotiated applies
+    await initialize("2025-06-18");
+    const responses = await dispatchBatch(pings, { connectionKey });
+    expect(responses).toHaveLength(2);
+  });
+
+  it("should fall back to the transport's version when none was negotiated", async () => {
+    const context = { connectionKey, sessionId: "restored-session" };
+    const assumed = await dispatchBatch(pings, {
+      ...context,
+      protocolVersion: "2025-03-26",
+    });
+    expect(assumed).toHaveLength(2);
+
+    const declared = await dispatchBatch(pings, {
+      ...context,
+      protocolVersion: "2025-06-18",
+    });
+    expect((declared[0] as JsonRpcErrorResponse).error.code).toBe(-32600);
+  });
+});
@@ -1,23 +1,92 @@
-import { describe, expect, it } from "bun:test";
+import { afterAll, beforeAll, describe, expect, it, spyOn } from "bun:test";
+import { db } from "../../src/db/memory";
 import {
   handleListResources,
+  handleListResourceTemplates,
   handleReadResource,
 } from "../../src/handlers/resource_handlers";
 import type {
   ListResourcesResponseResult,
+  ListResourceTemplatesResponseResult,
+  McpResourceContent,
   ReadResourceResponseResult,
 } from "../../src/mcp/types";
+import { resourceProviderRegistry } from "../../src/registry";
 import type {
   JsonRpcErrorResponse,
   JsonRpcSuccessResponse,
 } from "../../src/types/json-rpc";
 
-const VALID_TEXT_URI = "file:///home/user/docs/example.txt";
-const VALID_JSON_URI = "config:///app/settings.json";
-const VALID_IMAGE_URI = "image:///logo.png";
+const VALID_TEXT_URI = "sample:///docs/example.txt";
+const VALID_JSON_URI = "sample:///app/settings.json";
+const VALID_IMAGE_URI = "sample:///logo.png";
 const INVALID_URI = "invalid://resource";
 
+const sampleResources: Record<string, McpResourceContent & { name: string }> = {
+  [VALID_TEXT_URI]: {
+    uri: VALID_TEXT_URI,
+    name: "Example Document",
+    mimeType: "text/plain",
+    text: "This is the content of the example text document.",
+  },
+  [VALID_JSON_URI]: {
+    uri: VALID_JSON_URI,
+    name: "Application Settings",
+    mimeType: "application/json",
+    text: JSON.stringify({ theme: "dark" }),
+  },
+  [VALID_IMAGE_URI]: {
+    uri: VALID_IMAGE_URI,
+    name: "Company Logo",
+    mimeType: "image/png",
+    blob: "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=",
+  },
+};
+
+/**
+ * Lists resources across all pages, following `nextCursor`
+ */
+async function listAllResources(requestId: string) {
+  const resources: ListResourcesResponseResult["resources"] = [];
+  let cursor: string | undefined;
+  do {
+    const response = (await handleListResources(
+      { cursor },
+      requestId
+    )) as JsonRpcSuccessResponse<ListResourcesResponseResult>;
+    resources.push(...response.result.resources);
+    cursor = response.result.nextCursor;
+  } while (cursor);
+  return resources;
+}
+
 describe("Resource Handlers (Unit)", () => {
+  // Other test files may have registered the task provider, backed by Supabase
+  const listTasksSpy = spyOn(db, "listTasks").mockResolvedValue([]);
+
+  beforeAll(() => {
+    resourceProviderRegistry.register({
+      scheme: "sample",
+      list: async () =>
+        Object.values(sampleResources).map(({ uri, name, mimeType }) => ({
+          uri,
+          name,
+          mimeType,
+        })),
+      read: async (uri) => {
+        const resource = sampleResources[uri];
+        if (!resource) return undefined;
+        const { name, ...content } = resource;
+        return [content];
+      },
+    });
+  });
+
+  afterAll(() => {
+    resourceProviderRegistry.unregister("sample");
+    listTasksSpy.mockRestore();
+  });
+
   describe("handleListResources", () => {
     it("should return a successful JSON-RPC response with a list of resources", async () => {
       const requestId = "list-test-1";
@@ -34,21 +103,15 @@ describe("Resource Handlers (Unit)", () => {
       expect(Array.isArray(response.result.resources)).toBe(true);
       expect(response.result.resources.length).toBeGreaterThan(0);
 
-      // Check if known mock resources are present
-      expect(
-        response.result.resources.some((r) => r.uri === VALID_TEXT_URI)
-      ).toBe(true);
-      expect(
-        response.result.resources.some((r) => r.uri === VALID_JSON_URI)
-      ).toBe(true);
-      expect(
-        response.result.resources.some((r) => r.uri === VALID_IMAGE_URI)
-      ).toBe(true);
+      // Check if known mock resources are present (other providers' resources
+      // may push them onto later pages)
+      const resources = await listAllResources(requestId);
+      expect(resources.some((r) => r.uri === VALID_TEXT_URI)).toBe(true);
+      expect(resources.some((r) => r.uri === VALID_JSON_URI)).toBe(true);
+      expect(resources.some((r) => r.uri === VALID_IMAGE_URI)).toBe(true);
 
       // Check structure of one resource
-      const sampleResource = response.result.resources.find(
-        (r) => r.uri === VALID_TEXT_URI
-      );
+      const sampleResource = resources.find((r) => r.uri === VALID_TEXT_URI);
       expect(sampleResource).toBeDefined();
       expect(sampleResource?.name).toBeString();
       expect(sampleResource?.mimeType).toBe("text/plain");
@@ -145,4 +208,93 @@ describe("Resource Handlers (Unit)", () => {
     // Note: Parameter validation (e.g., missing URI) is typically handled by the router/framework (Zod schema in index.ts)
     // before the handler is called, so it's not tested at this unit level.
   });
+
+  describe("resource providers", () => {
+    const reads: Record<string, string>[] = [];
+
+    beforeAll(() => {
+      resourceProviderRegistry.register({
+        scheme: "notes",
+        templates: [{ uriTemplate: "notes://{folder}/{id}", name: "Note" }],
+        list: async () => {
+          throw new Error("Index offline");
+        },
+        read: async (uri, variables) => {
+          reads.push(variables);
+          if (uri.endsWith("/broken")) throw new Error("Storage offline");
+          if (variables.id === "todo") return [{ uri, text: "Buy milk" }];
+          return undefined;
+        },
+      });
+    });
+
+    afterAll(() => {
+      resourceProviderRegistry.unregister("notes");
+    });
+
+    it("should list the templates of registered providers", async () => {
+      const response = (await handleListResourceTemplates(
+        {},
+        "templates-1"
+      )) as JsonRpcSuccessResponse<ListResourceTemplatesResponseResult>;
+
+      expect(response.result.resourceTemplates).toContainEqual({
+        uriTemplate: "notes://{folder}/{id}",
+        name: "Note",
+      });
+    });
+
+    it("should leave out providers whose listing fails", async () => {
+      const resources = await listAllResources("list-failing-1");
+
+      const uris = resources.map((r) => r.uri);
+      expect(uris.filter((uri) => uri.startsWith("sample:")).length).toBe(3);
+      expect(uris.some((uri) => uri.startsWith("notes:"))).toBe(false);
+    });
+
+    it("should return not found when the provider has no such resource", async () => {
+      const response = (await handleReadResource(
+        { uri: "notes://work/missing" },
+        "provider-read-1"
+      )) as JsonRpcErrorResponse;
+
+      expect(response.error.code).toBe(-32602);
+      expect(response.error.message).toContain("Resource not found");
+    });
+
+    it("should pass the matched template variables to the provider", async () => {
+      reads.length = 0;
+      const response = (await handleReadResource(
+        { uri: "notes://home/todo" },
+        "provider-read-3"
+      )) as JsonRpcSuccessResponse<ReadResourceResponseResult>;
+
+      expect(response.result.contents).toEqual([
+        { uri: "notes://home/todo", text: "Buy milk" },
+      ]);
+      expect(reads).toEqual([{ folder: "home", id: "todo" }]);
+    });
+
+    it("should not ask the provider for URIs that match no template", async () => {
+      reads.length = 0;
+      const response = (await handleReadResource(
+        { uri: "notes://home/todo/extra" },
+        "provider-read-4"
+      )) as JsonRpcErrorResponse;
+
+      expect(response.error.code).toBe(-32602);
+      expect(response.error.message).toContain("Resource not found");
+      expect(reads).toEqual([]);
+    });
+
+    it("should return an internal error when the provider fails", async () => {
+      const response = (await handleReadResource(
+        { uri: "notes://work/broken" },
+        "provider-read-2"
+      )) as JsonRpcErrorResponse;
+
+      expect(response.error.code).toBe(-32603);
+      expect(response.error.message).toContain("Storage offline");
+    });
+  });
 });
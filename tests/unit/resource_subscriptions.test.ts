@@ -0,0 +1,188 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { ChangeEvents, publishChangeEvent } from "../../src/events";
+import {
+  handleSubscribeResource,
+  handleUnsubscribeResource,
+} from "../../src/handlers/resource_handlers";
+import { resourceSubscriptions } from "../../src/mcp/resourceSubscriptions";
+import { resourceProviderRegistry } from "../../src/registry";
+import { sessions } from "../../src/session";
+import type {
+  ChangeEvent,
+  ChangeEventBus,
+  ChangeEventListener,
+} from "../../src/types/events";
+import type { JsonRpcErrorResponse } from "../../src/types/json-rpc";
+import { connectClient } from "../helpers/client";
+
+describe("Resource Subscriptions (Unit)", () => {
+  const watching: Record<string, () => void> = {};
+  let stopped: string[] = [];
+
+  beforeAll(() => {
+    resourceProviderRegistry.register({
+      scheme: "static",
+      list: async () => [],
+      read: async (uri) => [{ uri, text: "value" }],
+    });
+    resourceProviderRegistry.register({
+      scheme: "watched",
+      list: async () => [],
+      read: async (uri) => [{ uri, text: "value" }],
+      subscribe: (uri, onChange) => {
+        watching[uri] = onChange;
+        return () => stopped.push(uri);
+      },
+    });
+  });
+
+  afterAll(() => {
+    resourceProviderRegistry.unregister("static");
+    resourceProviderRegistry.unregister("watched");
+  });
+
+  it("should push updates only to subscribed sessions", async () => {
+    const a = await connectClient();
+    const b = await connectClient();
+
+    await handleSubscribeResource(
+      { uri: "static://settings" },
+      1,
+      a.session.id
+    );
+    await publishChangeEvent({
+      type: "resource_updated",
+      uri: "static://settings",
+    });
+
+    expect(a.received).toEqual([
+      {
+        jsonrpc: "2.0",
+        method: "notifications/resources/updated",
+        params: { uri: "static://settings" },
+      },
+    ]);
+    expect(b.received).toEqual([]);
+
+    await handleUnsubscribeResource(
+      { uri: "static://settings" },
+      2,
+      a.session.id
+    );
+    await publishChangeEvent({
+      type: "resource_updated",
+      uri: "static://settings",
+    });
+    expect(a.received.length).toBe(1);
+
+    await sessions.terminate(a.session.id, "closed");
+    await sessions.terminate(b.session.id, "closed");
+  });
+
+  it("should keep subscriptions in the session data", async () => {
+    const { session } = await connectClient();
+    const uris = async () =>
+      (await sessions.get(session.id))?.data.resourceSubscriptions;
+
+    await Promise.all([
+      handleSubscribeResource({ uri: "static://a" }, 1, session.id),
+      handleSubscribeResource({ uri: "static://b" }, 2, session.id),
+    ]);
+    expect(await uris()).toEqual(["static://a", "static://b"]);
+    expect(await resourceSubscriptions.subscribersOf("static://b")).toEqual([
+      session.id,
+    ]);
+
+    await handleUnsubscribeResource({ uri: "static://a" }, 3, session.id);
+    expect(await uris()).toEqual(["static://b"]);
+    await sessions.terminate(session.id, "closed");
+  });
+
+  it("should reject subscriptions to unknown resources", async () => {
+    const { session } = await connectClient();
+    const response = (await handleSubscribeResource(
+      { uri: "nothing://here" },
+      3,
+      session.id
+    )) as JsonRpcErrorResponse;
+
+    expect(response.error.code).toBe(-32602);
+    expect(await resourceSubscriptions.subscribersOf("nothing://here")).toEqual(
+      []
+    );
+    await sessions.terminate(session.id, "closed");
+  });
+
+  it("should watch resources while they have subscribers", async () => {
+    stopped = [];
+    const a = await connectClient();
+    const b = await connectClient();
+    const uri = "watched://report";
+
+    await handleSubscribeResource({ uri }, 4, a.session.id);
+    await handleSubscribeResource({ uri }, 5, b.session.id);
+
+    // The watcher's change callback publishes through the bus
+    watching[uri]();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(a.received.map((m) => m.method)).toEqual([
+      "notifications/resources/updated",
+    ]);
+    expect(b.received.length).toBe(1);
+
+    await handleUnsubscribeResource({ uri }, 6, a.session.id);
+    expect(stopped).toEqual([]);
+    // Ending the last subscriber's session stops the watcher
+    await sessions.terminate(b.session.id, "closed");
+    expect(stopped).toEqual([uri]);
+    await sessions.terminate(a.session.id, "closed");
+  });
+
+  it("should broadcast list changes to every connected session", async () => {
+    const { session, received } = await connectClient();
+
+    resourceProviderRegistry.register({
+      scheme: "added",
+      list: async () => [],
+      read: async () => undefined,
+    });
+    resourceProviderRegistry.unregister("added");
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(received.map((m) => m.method)).toEqual([
+      "notifications/resources/list_changed",
+      "notifications/resources/list_changed",
+    ]);
+    await sessions.terminate(session.id, "closed");
+  });
+});
+
+describe("ChangeEvents", () => {
+  it("should keep local listeners when the bus is replaced", async () => {
+    const published: ChangeEvent[] = [];
+    // A bus that loops events back, standing in for a shared pub/sub backend
+    class LoopbackBus implements ChangeEventBus {
+      private listeners = new Set<ChangeEventListener>();
+      async publish(event: ChangeEvent) {
+        published.push(event);
+        for (const listener of this.listeners) await listener(event);
+      }
+      subscribe(listener: ChangeEventListener) {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+      }
+    }
+
+    const events = new ChangeEvents();
+    const seen: ChangeEvent[] = [];
+    events.subscribe((event) => {
+      seen.push(event);
+    });
+
+    events.setBus(new LoopbackBus());
+    await events.publish({ type: "resource_list_changed" });
+
+    expect(published).toEqual([{ type: "resource_list_changed" }]);
+    expect(seen).toEqual([{ type: "resource_list_changed" }]);
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, expect, it } from "bun:test";
+import path from "path";
+import { pathToFileURL } from "url";
+import { runWithRequestContext } from "../../src/mcp/context";
+import { dispatchMessage } from "../../src/mcp/dispatcher";
+import { notificationRouter } from "../../src/mcp/notifications";
+import {
+  clientRoots,
+  getCurrentRootPaths,
+  isWithinRoots,
+  toRootPaths,
+} from "../../src/mcp/roots";
+import type { McpRoot } from "../../src/mcp/types";
+import { listFileResources } from "../../src/resources/files";
+import { sessions } from "../../src/session";
+import { resolveScopedPath } from "../../src/tools/connectors/fileSystem";
+import type {
+  JsonRpcErrorResponse,
+  JsonRpcSuccessResponse,
+} from "../../src/types/json-rpc";
+import { connectClient } from "../helpers/client";
+
+/**
+ * Creates a session whose client declares `roots` and answers every
+ * `roots/list` request with the current value of `client.roots`
+ */
+async function connectWithRoots(initialRoots: McpRoot[]) {
+  const client = { roots: initialRoots };
+  const connection = await connectClient({
+    capabilities: { roots: { listChanged: true } },
+    answers: { "roots/list": () => ({ roots: client.roots }) },
+  });
+  return { ...connection, client };
+}
+
+const rootOf = (relativePath: string): McpRoot => ({
+  uri: pathToFileURL(path.resolve(relativePath)).href,
+});
+
+describe("Client Roots (Unit)", () => {
+  it("should convert file roots to paths and skip others", () => {
+    expect(
+      toRootPaths([
+        { uri: "file:///srv/project" },
+        { uri: "https://example.com/repo" },
+      ])
+    ).toEqual([path.resolve("/srv/project")]);
+  });
+
+  it("should match paths inside a root but not siblings with a shared prefix", () => {
+    const roots = [path.resolve("/srv/project")];
+    expect(isWithinRoots(path.resolve("/srv/project"), roots)).toBe(true);
+    expect(isWithinRoots(path.resolve("/srv/project/src/a.ts"), roots)).toBe(
+      true
+    );
+    expect(isWithinRoots(path.resolve("/srv/project-old/a.ts"), roots)).toBe(
+      false
+    );
+  });
+
+  it("should not limit requests of clients without roots", async () => {
+    const { session, context } = await connectClient();
+    const rootPaths = await runWithRequestContext(context, () =>
+      getCurrentRootPaths()
+    );
+    expect(rootPaths).toBeUndefined();
+    expect(await getCurrentRootPaths()).toBeUndefined();
+    await sessions.terminate(session.id);
+  });
+
+  it("should cache roots until the client reports a change", async () => {
+    const { session, client, received, context } = await connectWithRoots([
+      rootOf("src"),
+    ]);
+
+    await clientRoots.get(session.id);
+    await clientRoots.get(session.id);
+    expect(received).toHaveLength(1);
+
+    client.roots = [rootOf("tests")];
+    await notificationRouter.route(
+      "notifications/roots/list_changed",
+      {},
+      { connectionKey: session.connectionKey, sessionId: session.id }
+    );
+    const rootPaths = await runWithRequestContext(context, () =>
+      getCurrentRootPaths()
+    );
+    expect(rootPaths).toEqual([path.resolve("tests")]);
+    expect(received).toHaveLength(2);
+    await sessions.terminate(session.id);
+  });
+
+  it("should keep fetched roots in the session data", async () => {
+    const { session, received } = await connectWithRoots([rootOf("src")]);
+
+    const [first, second] = await Promise.all([
+      clientRoots.get(session.id),
+      clientRoots.get(session.id),
+    ]);
+    expect(first).toEqual([rootOf("src")]);
+    expect(second).toEqual(first);
+    expect(received).toHaveLength(1);
+    expect((await sessions.get(session.id))?.data.roots).toEqual([
+      rootOf("src"),
+    ]);
+
+    await clientRoots.invalidate(session.id);
+    expect((await sessions.get(session.id))?.data.roots).toBeUndefined();
+    await sessions.terminate(session.id);
+  });
+
+  it("should confine file system tools to the sandbox and the roots", async () => {
+    const { session, context } = await connectWithRoots([rootOf("src")]);
+
+    await runWithRequestContext(context, async () => {
+      expect(await resolveScopedPath("src/mcp")).toBe(path.resolve("src/mcp"));
+      await expect(resolveScopedPath("tests")).rejects.toThrow(
+        "outside the client's roots"
+      );
+      await expect(resolveScopedPath("../etc")).rejects.toThrow();
+    });
+    await sessions.terminate(session.id);
+  });
+
+  it("should refuse resource reads outside the roots", async () => {
+    const { session, context } = await connectWithRoots([rootOf("src")]);
+    const read = (uri: string) =>
+      dispatchMessage(
+        { jsonrpc: "2.0", method: "resources/read", params: { uri }, id: 1 },
+        context
+      );
+
+    const inside = await read("file:///src/mcp/context.ts");
+    expect(inside.kind).toBe("response");
+    if (inside.kind !== "response") throw new Error("expected a response");
+    expect("result" in inside.response).toBe(true);
+
+    const outside = await read("file:///tests/server.test.ts");
+    if (outside.kind !== "response") throw new Error("expected a response");
+    expect((outside.response as JsonRpcErrorResponse).error.message).toContain(
+      "outside the client's roots"
+    );
+    await sessions.terminate(session.id);
+  });
+
+  it("should only list file resources within the roots", async () => {
+    const { session, context } = await connectWithRoots([rootOf("src/mcp")]);
+
+    const names = await runWithRequestContext(context, async () =>
+      (await listFileResources()).map((resource) => resource.name)
+    );
+    expect(names).toContain(path.join("src", "mcp", "context.ts"));
+    expect(
+      names.every((name) => name.startsWith(path.join("src", "mcp") + path.sep))
+    ).toBe(true);
+    await sessions.terminate(session.id);
+  });
+
+  it("should not complete resource paths outside the roots", async () => {
+    const { session, context } = await connectWithRoots([rootOf("src")]);
+    const complete = async (value: string) => {
+      const result = await dispatchMessage(
+        {
+          jsonrpc: "2.0",
+          method: "completion/complete",
+          params: {
+            ref: { type: "ref/resource", uri: "file:///{+path}" },
+            argument: { name: "path", value },
+          },
+          id: 1,
+        },
+        context
+      );
+      if (result.kind !== "response") throw new Error("expected a response");
+      return (
+        result.response as JsonRpcSuccessResponse<{
+          completion: { values: string[] };
+        }>
+      ).result.completion.values;
+    };
+
+    expect(await complete("src/mcp/dis")).toEqual(["src/mcp/dispatcher.ts"]);
+    expect(await complete("tests/")).toEqual([]);
+    await sessions.terminate(session.id);
+  });
+
+  it("should allow nothing when the client has no file roots", async () => {
+    const { session, context } = await connectWithRoots([]);
+    await runWithRequestContext(context, async () => {
+      await expect(resolveScopedPath(".")).rejects.toThrow(
+        "outside the client's roots"
+      );
+    });
+    await sessions.terminate(session.id);
+  });
+});
@@ -0,0 +1,211 @@
+import { describe, expect, it } from "bun:test";
+import { PassThrough } from "node:stream";
+import {
+  CLIENT_REQUEST_CANCELLED,
+  CLIENT_REQUEST_TIMEOUT,
+  CLIENT_UNREACHABLE,
+  ClientRequestError,
+  clientRequests,
+} from "../../src/mcp/clientRequests";
+import { runWithRequestContext } from "../../src/mcp/context";
+import { createMessage } from "../../src/mcp/sampling";
+import { sessions } from "../../src/session";
+import "../../src/tools/llmQuery/clientSampling";
+import { StdioTransport } from "../../src/transports/stdio";
+import { connectClient, failure } from "../helpers/client";
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("Client Requests (Unit)", () => {
+  it("should resolve with the result of the matching response", async () => {
+    const { session, received } = await connectClient();
+    const pending = clientRequests.request(session.id, "test/echo", { a: 1 });
+
+    const request = received[0] as { id: string; method: string };
+    expect(request).toMatchObject({ method: "test/echo", params: { a: 1 } });
+    expect(
+      clientRequests.handleResponse(session.id, {
+        jsonrpc: "2.0",
+        id: request.id,
+        result: { ok: true },
+      })
+    ).toBe(true);
+
+    expect(await pending).toEqual({ ok: true });
+    await sessions.terminate(session.id);
+  });
+
+  it("should reject with the client's error", async () => {
+    const { session, received } = await connectClient();
+    const pending = clientRequests.request(session.id, "test/echo", {});
+    clientRequests.handleResponse(session.id, {
+      jsonrpc: "2.0",
+      id: (received[0] as { id: string }).id,
+      error: { code: -1, message: "User rejected sampling request" },
+    });
+
+    const error = await failure<ClientRequestError>(pending);
+    expect(error).toBeInstanceOf(ClientRequestError);
+    expect(error.code).toBe(-1);
+    expect(error.message).toBe("User rejected sampling request");
+    await sessions.terminate(session.id);
+  });
+
+  it("should ignore responses from other sessions", async () => {
+    const a = await connectClient();
+    const b = await connectClient();
+    const pending = clientRequests.request(a.session.id, "test/echo", {});
+    const id = (a.received[0] as { id: string }).id;
+
+    expect(
+      clientRequests.handleResponse(b.session.id, {
+        jsonrpc: "2.0",
+        id,
+        result: {},
+      })
+    ).toBe(false);
+
+    await sessions.terminate(a.session.id);
+    expect((await failure<ClientRequestError>(pending)).code).toBe(
+      CLIENT_UNREACHABLE
+    );
+    await sessions.terminate(b.session.id);
+  });
+
+  it("should time out and tell the client to stop", async () => {
+    const { session, received } = await connectClient();
+    const error = await failure<ClientRequestError>(
+      clientRequests.request(session.id, "test/slow", {}, { timeoutMs: 5 })
+    );
+
+    expect(error.code).toBe(CLIENT_REQUEST_TIMEOUT);
+    const requestId = (received[0] as { id: string }).id;
+    expect(received[1]).toEqual({
+      jsonrpc: "2.0",
+      method: "notifications/cancelled",
+      params: { requestId, reason: error.message },
+    });
+    await sessions.terminate(session.id);
+  });
+
+  it("should be abandoned when its signal aborts", async () => {
+    const { session, received } = await connectClient();
+    const controller = new AbortController();
+    const pending = clientRequests.request(
+      session.id,
+      "test/slow",
+      {},
+      { signal: controller.signal }
+    );
+    controller.abort();
+
+    expect((await failure<ClientRequestError>(pending)).code).toBe(
+      CLIENT_REQUEST_CANCELLED
+    );
+    expect(received[1]).toMatchObject({ method: "notifications/cancelled" });
+    await sessions.terminate(session.id);
+  });
+
+  it("should fail at once when the client can't be reached", async () => {
+    const session = await sessions.create({ transport: "http" });
+    const error = await failure<ClientRequestError>(
+      clientRequests.request(session.id, "test/echo", {})
+    );
+    expect(error.code).toBe(CLIENT_UNREACHABLE);
+    await sessions.terminate(session.id);
+  });
+});
+
+describe("Sampling (Unit)", () => {
+  it("should require a session and a client with sampling support", async () => {
+    const params = {
+      messages: [
+        {
+          role: "user" as const,
+          content: { type: "text" as const, text: "hi" },
+        },
+      ],
+      maxTokens: 10,
+    };
+    const noSession = await failure(createMessage(params));
+    expect(noSession.message).toContain("requires a session");
+
+    const { session, context } = await connectClient();
+    const noCapability = await failure(
+      runWithRequestContext(context, () => createMessage(params))
+    );
+    expect(noCapability.message).toContain("does not support sampling");
+    await sessions.terminate(session.id);
+  });
+
+  it("should let a tool sample the client's model over STDIO", async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const messages: any[] = [];
+    let buffered = "";
+    output.on("data", (chunk) => {
+      buffered += chunk.toString();
+      const lines = buffered.split("\n");
+      buffered = lines.pop()!;
+      messages.push(...lines.filter((l) => l.trim()).map((l) => JSON.parse(l)));
+    });
+    const send = (message: unknown) =>
+      input.write(JSON.stringify(message) + "\n");
+
+    const transport = new StdioTransport({ input, output });
+    const done = transport.start();
+    send({
+      jsonrpc: "2.0",
+      method: "initialize",
+      params: {
+        protocolVersion: "2025-03-26",
+        capabilities: { sampling: {} },
+        clientInfo: { name: "sampling-test", version: "1.0.0" },
+      },
+      id: "init",
+    });
+    send({ jsonrpc: "2.0", method: "notifications/initialized" });
+    send({
+      jsonrpc: "2.0",
+      method: "tools/call",
+      params: {
+        name: "sample_text",
+        arguments: {
+          text: "MCP lets servers borrow models.",
+          model_hint: "haiku",
+        },
+      },
+      id: "call",
+    });
+
+    let request: any;
+    for (let i = 0; i < 100 && !request; i++) {
+      await tick();
+      request = messages.find((m) => m.method === "sampling/createMessage");
+    }
+    expect(request.params).toMatchObject({
+      maxTokens: 512,
+      modelPreferences: { hints: [{ name: "haiku" }] },
+    });
+    expect(request.params.systemPrompt).toContain("Summarize");
+
+    send({
+      jsonrpc: "2.0",
+      id: request.id,
+      result: {
+        role: "assistant",
+        content: { type: "text", text: "Servers can use client models." },
+        model: "claude-3-haiku",
+        stopReason: "endTurn",
+      },
+    });
+    input.end();
+    await done;
+
+    const response = messages.find((m) => m.id === "call");
+    expect(response.result.content[0].text).toBe(
+      "Servers can use client models."
+    );
+    expect(response.result.metadata.model).toBe("claude-3-haiku");
+  });
+});
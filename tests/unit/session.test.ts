@@ -0,0 +1,138 @@
+import { describe, expect, it } from "bun:test";
+import { runWithRequestContext } from "../../src/mcp/context";
+import {
+  getCurrentSession,
+  InMemorySessionStore,
+  SessionManager,
+  sessions,
+  setCurrentSessionData,
+} from "../../src/session";
+import type { SessionEndReason } from "../../src/types/session";
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+describe("SessionManager (Unit)", () => {
+  it("should create sessions with a transport-scoped connection key", async () => {
+    const manager = new SessionManager(60_000);
+    const session = await manager.create({
+      transport: "http",
+      clientId: "client-1",
+    });
+
+    expect(session.connectionKey).toBe(`http:${session.id}`);
+    expect(session.clientId).toBe("client-1");
+    expect(session.expiresAt).toBeGreaterThan(Date.now());
+    expect(await manager.get(session.id)).toEqual(session);
+  });
+
+  it("should expire idle sessions and notify listeners", async () => {
+    const manager = new SessionManager(20);
+    const ended: [string, SessionEndReason][] = [];
+    manager.onEnd((s, reason) => ended.push([s.id, reason]));
+
+    const session = await manager.create({ transport: "http" });
+    await sleep(30);
+
+    expect(await manager.get(session.id)).toBeUndefined();
+    expect(ended).toEqual([[session.id, "expired"]]);
+  });
+
+  it("should extend expiry on touch", async () => {
+    const manager = new SessionManager(40);
+    const session = await manager.create({ transport: "http" });
+
+    await sleep(25);
+    expect(await manager.touch(session.id)).toBeDefined();
+    await sleep(25);
+    expect(await manager.get(session.id)).toBeDefined();
+  });
+
+  it("should never expire sessions created with a zero TTL", async () => {
+    const manager = new SessionManager(10);
+    const session = await manager.create({ transport: "stdio", ttlMs: 0 });
+
+    await sleep(20);
+    expect(session.expiresAt).toBeNull();
+    expect(await manager.sweep()).toBe(0);
+    expect(await manager.get(session.id)).toBeDefined();
+  });
+
+  it("should purge expired sessions on sweep", async () => {
+    const manager = new SessionManager(10);
+    const ended: string[] = [];
+    manager.onEnd((s) => ended.push(s.id));
+    const a = await manager.create({ transport: "http" });
+    const b = await manager.create({ transport: "http", ttlMs: 60_000 });
+
+    await sleep(20);
+    expect(await manager.sweep()).toBe(1);
+    expect(ended).toEqual([a.id]);
+    expect(await manager.get(b.id)).toBeDefined();
+  });
+
+  it("should terminate sessions explicitly", async () => {
+    const manager = new SessionManager(60_000);
+    const ended: SessionEndReason[] = [];
+    manager.onEnd((_s, reason) => ended.push(reason));
+    const session = await manager.create({ transport: "http" });
+
+    expect(await manager.terminate(session.id)).toBe(true);
+    expect(await manager.terminate(session.id)).toBe(false);
+    expect(await manager.get(session.id)).toBeUndefined();
+    expect(ended).toEqual(["deleted"]);
+  });
+
+  it("should persist session data through the store", async () => {
+    const store = new InMemorySessionStore();
+    const manager = new SessionManager(60_000, store);
+    const session = await manager.create({ transport: "http" });
+
+    expect(await manager.setData(session.id, "logLevel", "debug")).toBe(true);
+    expect((await store.get(session.id))?.data.logLevel).toBe("debug");
+    expect(await manager.setData("unknown", "logLevel", "debug")).toBe(false);
+  });
+
+  it("should keep concurrent changes to one session", async () => {
+    const manager = new SessionManager(60_000);
+    const session = await manager.create({ transport: "http" });
+
+    await Promise.all([
+      manager.setData(session.id, "a", 1),
+      manager.setData(session.id, "b", 2),
+      manager.touch(session.id),
+      manager.update(session.id, (s) => {
+        s.data.count = ((s.data.count as number) ?? 0) + 1;
+      }),
+      manager.update(session.id, (s) => {
+        s.data.count = ((s.data.count as number) ?? 0) + 1;
+      }),
+    ]);
+
+    expect((await manager.get(session.id))?.data).toEqual({
+      a: 1,
+      b: 2,
+      count: 2,
+    });
+  });
+});
+
+describe("Current session helpers (Unit)", () => {
+  it("should resolve the session from the request context", async () => {
+    const session = await sessions.create({ transport: "http" });
+    const context = {
+      connectionKey: session.connectionKey,
+      sessionId: session.id,
+    };
+
+    await runWithRequestContext(context, async () => {
+      expect(await setCurrentSessionData("counter", 1)).toBe(true);
+      expect((await getCurrentSession())?.data.counter).toBe(1);
+    });
+    await sessions.terminate(session.id);
+  });
+
+  it("should return nothing outside of a session", async () => {
+    expect(await getCurrentSession()).toBeUndefined();
+    expect(await setCurrentSessionData("counter", 1)).toBe(false);
+  });
+});
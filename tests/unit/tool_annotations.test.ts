@@ -0,0 +1,115 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { toMcpTool } from "../../src/handlers/tool_handlers";
+import type { McpToolAnnotations } from "../../src/mcp/types";
+import {
+  executeTool,
+  isRetryableTool,
+  toolRegistry,
+  TransientToolError,
+} from "../../src/registry";
+import "../../src/tools/createTask";
+import "../../src/tools/listTasks";
+
+/**
+ * Registers a tool that fails with `error` on its first call and succeeds
+ * afterwards, counting its calls
+ */
+function registerFlakyTool(
+  name: string,
+  annotations: McpToolAnnotations | undefined,
+  error: Error
+) {
+  const calls = { count: 0 };
+  toolRegistry.register({
+    name,
+    description: "Fails once",
+    parameters: { type: "object", properties: {} },
+    annotations,
+    handler: async () => {
+      calls.count++;
+      if (calls.count === 1) throw error;
+      return { content: "ok" };
+    },
+  });
+  return calls;
+}
+
+describe("Tool Annotations (Unit)", () => {
+  const registered: string[] = [];
+
+  afterEach(() => {
+    registered.splice(0).forEach((name) => toolRegistry.unregister(name));
+  });
+
+  it("should publish annotations in tool listings", () => {
+    const listTasks = toolRegistry.getToolDefinition("list_tasks")!;
+    expect(listTasks.annotations).toMatchObject({
+      title: "List Tasks",
+      readOnlyHint: true,
+    });
+    expect(toMcpTool(listTasks).annotations).toEqual(listTasks.annotations);
+    expect(
+      toolRegistry.getToolDefinition("create_task")!.annotations
+    ).toMatchObject({ destructiveHint: false, idempotentHint: false });
+  });
+
+  it("should only retry tools that are read-only or idempotent", () => {
+    expect(isRetryableTool({ readOnlyHint: true })).toBe(true);
+    expect(isRetryableTool({ idempotentHint: true })).toBe(true);
+    expect(isRetryableTool({ destructiveHint: false })).toBe(false);
+    expect(isRetryableTool(undefined)).toBe(false);
+  });
+
+  it("should retry a read-only tool after a transient failure", async () => {
+    registered.push("flaky_read_tool");
+    const calls = registerFlakyTool(
+      "flaky_read_tool",
+      { readOnlyHint: true },
+      new TransientToolError("Upstream returned 503")
+    );
+
+    const result = await executeTool("flaky_read_tool", {});
+    expect(result.content).toBe("ok");
+    expect(calls.count).toBe(2);
+  });
+
+  it("should retry network errors of idempotent tools", async () => {
+    registered.push("flaky_idempotent_tool");
+    const calls = registerFlakyTool(
+      "flaky_idempotent_tool",
+      { idempotentHint: true },
+      Object.assign(new Error("socket hang up"), { code: "ECONNRESET" })
+    );
+
+    await executeTool("flaky_idempotent_tool", {});
+    expect(calls.count).toBe(2);
+  });
+
+  it("should not retry tools that may not be safe to repeat", async () => {
+    registered.push("flaky_write_tool");
+    const calls = registerFlakyTool(
+      "flaky_write_tool",
+      { readOnlyHint: false, idempotentHint: false },
+      new TransientToolError("Upstream returned 503")
+    );
+
+    await expect(executeTool("flaky_write_tool", {})).rejects.toThrow(
+      "Upstream returned 503"
+    );
+    expect(calls.count).toBe(1);
+  });
+
+  it("should not retry errors that aren't transient", async () => {
+    registered.push("broken_read_tool");
+    const calls = registerFlakyTool(
+      "broken_read_tool",
+      { readOnlyHint: true },
+      new Error("Invalid query")
+    );
+
+    await expect(executeTool("broken_read_tool", {})).rejects.toThrow(
+      "Invalid query"
+    );
+    expect(calls.count).toBe(1);
+  });
+});
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { changeEvents } from "../../src/events";
+import "../../src/handlers/tool_handlers";
+import { InMemoryToolRegistry } from "../../src/registry";
+import { sessions } from "../../src/session";
+import type { ChangeEvent } from "../../src/types/events";
+import type { ToolRegistrationOptions } from "../../src/types/mcp";
+import { connectClient } from "../helpers/client";
+
+const tool = (name: string, enabled?: boolean): ToolRegistrationOptions => ({
+  name,
+  description: "A test tool",
+  parameters: { type: "object", properties: {} },
+  handler: async () => ({ content: "ok" }),
+  enabled,
+});
+
+describe("InMemoryToolRegistry change events", () => {
+  let events: ChangeEvent[];
+  let stopListening: () => void;
+
+  beforeEach(() => {
+    events = [];
+    stopListening = changeEvents.subscribe((event) => {
+      if (event.type === "tool_list_changed") events.push(event);
+    });
+  });
+
+  afterEach(() => {
+    stopListening();
+  });
+
+  it("should publish when the set of enabled tools changes", () => {
+    const registry = new InMemoryToolRegistry();
+    registry.register(tool("a"));
+    registry.disableTool("a");
+    registry.enableTool("a");
+    registry.unregister("a");
+
+    expect(events.length).toBe(4);
+  });
+
+  it("should stay quiet when nothing visible changes", () => {
+    const registry = new InMemoryToolRegistry();
+    registry.register(tool("hidden", false));
+    registry.disableTool("hidden");
+    registry.unregister("hidden");
+    registry.unregister("missing");
+    registry.enableTool("missing");
+
+    expect(events).toEqual([]);
+  });
+
+  it("should push tools/list_changed to connected sessions", async () => {
+    const { session, received } = await connectClient();
+
+    const registry = new InMemoryToolRegistry();
+    registry.register(tool("incident_tool"));
+    registry.disableTool("incident_tool");
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(received).toEqual([
+      { jsonrpc: "2.0", method: "notifications/tools/list_changed" },
+      { jsonrpc: "2.0", method: "notifications/tools/list_changed" },
+    ]);
+    await sessions.terminate(session.id, "closed");
+  });
+});
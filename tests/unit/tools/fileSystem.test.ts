@@ -267,4 +267,42 @@ describe("File System Tool (Unit Tests - Spying on Exported fs)", () => {
       );
     });
   });
+  describe("completeSandboxPath", () => {
+    const mockDirents = [
+      { name: "src", isFile: () => false, isDirectory: () => true },
+      { name: "README.md", isFile: () => true, isDirectory: () => false },
+      { name: "scripts", isFile: () => false, isDirectory: () => true },
+      { name: ".env", isFile: () => true, isDirectory: () => false },
+      { name: "server.ts", isFile: () => true, isDirectory: () => false },
+    ] as Dirent[];
+
+    it("should suggest entries matching the typed name", async () => {
+      readdirSpy.mockResolvedValue(mockDirents);
+      const values = await fileSystemTool.completeSandboxPath("s");
+      expect(resolvePathSpy).toHaveBeenCalledWith(".");
+      expect(values).toEqual(["scripts/", "server.ts", "src/"]);
+    });
+
+    it("should complete inside the typed directory", async () => {
+      readdirSpy.mockResolvedValue(mockDirents);
+      const values = await fileSystemTool.completeSandboxPath("docs/R");
+      expect(resolvePathSpy).toHaveBeenCalledWith("docs/");
+      expect(values).toEqual(["docs/README.md"]);
+    });
+
+    it("should leave out files and hidden entries unless asked", async () => {
+      readdirSpy.mockResolvedValue(mockDirents);
+      expect(await fileSystemTool.completeSandboxPath("", true)).toEqual([
+        "scripts/",
+        "src/",
+      ]);
+      expect(await fileSystemTool.completeSandboxPath(".")).toEqual([".env"]);
+    });
+
+    it("should suggest nothing when the directory can't be read", async () => {
+      readdirSpy.mockRejectedValue(new Error("ENOENT"));
+      expect(await fileSystemTool.completeSandboxPath("missing/x")).toEqual([]);
+      expect(await fileSystemTool.completeSandboxPath("../x")).toEqual([]);
+    });
+  });
 });
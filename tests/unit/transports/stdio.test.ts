@@ -0,0 +1,156 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { PassThrough } from "node:stream";
+import { toolRegistry } from "../../../src/registry";
+import "../../../src/tools/example/slowTask";
+import { StdioTransport } from "../../../src/transports/stdio";
+import { relayToolStream } from "../../../src/transports/toolStream";
+import { StreamingToolResponse } from "../../../src/tools/utils";
+
+/**
+ * Feeds the given lines to a transport and collects every line it writes.
+ */
+async function runTransport(lines: string[]): Promise<any[]> {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const written: string[] = [];
+  output.on("data", (chunk) => written.push(chunk.toString()));
+
+  const transport = new StdioTransport({ input, output });
+  const done = transport.start();
+  for (const line of lines) {
+    input.write(line + "\n");
+  }
+  input.end();
+  await done;
+
+  return written
+    .join("")
+    .split("\n")
+    .filter((l) => l.trim())
+    .map((l) => JSON.parse(l));
+}
+
+const initialize = JSON.stringify({
+  jsonrpc: "2.0",
+  method: "initialize",
+  params: {
+    protocolVersion: "2025-03-26",
+    capabilities: {},
+    clientInfo: { name: "stdio-test", version: "1.0.0" },
+  },
+  id: "init",
+});
+
+describe("StdioTransport (Unit)", () => {
+  beforeAll(() => {
+    toolRegistry.register({
+      name: "stdio_stream_tool",
+      description: "Streams two chunks",
+      parameters: { type: "object", properties: {} },
+      handler: (async (
+        _params: Record<string, any>,
+        controller?: TransformStreamDefaultController,
+        jsonRpcId?: string | number | null
+      ) => {
+        const streaming = new StreamingToolResponse(controller, jsonRpcId);
+        streaming.send({ step: 1 });
+        streaming.complete({ done: true });
+        return { content: { done: true } };
+      }) as any,
+    });
+  });
+
+  afterAll(() => {
+    toolRegistry.unregister("stdio_stream_tool");
+  });
+
+  it("should answer requests line by line and skip notifications", async () => {
+    const messages = await runTransport([
+      initialize,
+      JSON.stringify({ jsonrpc: "2.0", method: "notifications/initialized" }),
+      JSON.stringify({ jsonrpc: "2.0", method: "ping", id: 2 }),
+    ]);
+
+    expect(messages.length).toBe(2);
+    const byId = Object.fromEntries(messages.map((m) => [m.id, m]));
+    expect(byId["init"].result.serverInfo.name).toBe("hyperion-mcp");
+    expect(byId[2].result).toEqual({});
+  });
+
+  it("should report parse errors without stopping", async () => {
+    const messages = await runTransport([
+      "{not json",
+      JSON.stringify({ jsonrpc: "2.0", method: "ping", id: 3 }),
+    ]);
+
+    expect(messages.find((m) => m.id === null)?.error.code).toBe(-32700);
+    expect(messages.find((m) => m.id === 3)?.result).toEqual({});
+  });
+
+  it("should answer a batch with a single array line", async () => {
+    const messages = await runTransport([
+      JSON.stringify([
+        { jsonrpc: "2.0", method: "ping", id: "a" },
+        { jsonrpc: "2.0", method: "ping", id: "b" },
+      ]),
+    ]);
+
+    expect(messages.length).toBe(1);
+    expect(messages[0].map((m: any) => m.id).sort()).toEqual(["a", "b"]);
+  });
+
+  it("should send streamed chunks as notifications before the final response", async () => {
+    const messages = await runTransport([
+      JSON.stringify({
+        jsonrpc: "2.0",
+        method: "stdio_stream_tool",
+        params: { stream: true },
+        id: "s-1",
+      }),
+    ]);
+
+    expect(messages.length).toBe(2);
+    expect(messages[0].method).toBe("notifications/tools/chunk");
+    expect(messages[0].params.requestId).toBe("s-1");
+    expect(messages[0].params.content).toEqual({ step: 1 });
+    expect(messages[1].id).toBe("s-1");
+    expect(messages[1].result.content).toEqual({ done: true });
+  });
+
+  it("should answer the original request when a stream ends early", async () => {
+    const partial = JSON.stringify({
+      jsonrpc: "2.0",
+      result: { content: { step: 1 }, metadata: { partial: true } },
+    });
+    const stream = new Blob([partial + "\n"]).stream();
+    const sent: any[] = [];
+    await relayToolStream(stream, "s-2", (message) => sent.push(message));
+
+    expect(sent.length).toBe(2);
+    expect(sent[1].id).toBe("s-2");
+    expect(sent[1].error.message).toBe("Stream ended without a final result.");
+  });
+
+  it("should send progress notifications for tools/call with a progress token", async () => {
+    const messages = await runTransport([
+      initialize,
+      JSON.stringify({
+        jsonrpc: "2.0",
+        method: "tools/call",
+        params: {
+          name: "slow_task",
+          arguments: { items: 2, delay: 5 },
+          _meta: { progressToken: "stdio-progress" },
+        },
+        id: "call-1",
+      }),
+    ]);
+
+    const progress = messages.filter(
+      (m) => m.method === "notifications/progress"
+    );
+    expect(progress.map((m) => m.params.progress)).toEqual([1, 2]);
+    expect(progress[0].params.progressToken).toBe("stdio-progress");
+    expect(messages[messages.length - 1].id).toBe("call-1");
+  });
+});
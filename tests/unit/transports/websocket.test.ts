@@ -0,0 +1,281 @@
+import { serve } from "bun";
+import { afterAll, beforeAll, describe, expect, it, spyOn } from "bun:test";
+import type { MiddlewareHandler } from "hono";
+import { Hono } from "hono";
+import { clientRequests } from "../../../src/mcp/clientRequests";
+import { toolRegistry } from "../../../src/registry";
+import { sessions } from "../../../src/session";
+import "../../../src/tools/listTasks";
+import type { WebSocketLike } from "../../../src/transports/websocket";
+import {
+  WebSocketConnection,
+  websocket,
+  webSocketUpgrade,
+} from "../../../src/transports/websocket";
+import { config } from "../../../src/utils/config";
+import { metrics } from "../../../src/utils/metrics";
+
+/**
+ * A socket that records what the transport writes and how it closed
+ */
+function fakeSocket() {
+  const socket = {
+    sent: [] as any[],
+    closedWith: undefined as number | undefined,
+    send: (data: string) => {
+      socket.sent.push(JSON.parse(data));
+    },
+    close: (code?: number) => {
+      socket.closedWith = code;
+    },
+  };
+  return socket satisfies WebSocketLike;
+}
+
+const initialize = JSON.stringify({
+  jsonrpc: "2.0",
+  method: "initialize",
+  params: {
+    protocolVersion: "2025-03-26",
+    capabilities: {},
+    clientInfo: { name: "websocket-test", version: "1.0.0" },
+  },
+  id: "init",
+});
+
+describe("WebSocketConnection (Unit)", () => {
+  beforeAll(() => {
+    toolRegistry.register({
+      name: "ws_echo_tool",
+      description: "Answers right away",
+      parameters: { type: "object", properties: {} },
+      handler: async () => ({ content: "done" }),
+    });
+  });
+
+  afterAll(() => {
+    toolRegistry.unregister("ws_echo_tool");
+  });
+
+  it("should answer requests, batches and parse errors on the socket", async () => {
+    const socket = fakeSocket();
+    const connection = new WebSocketConnection(socket);
+
+    await connection.receive(initialize);
+    await connection.receive("{not json");
+    await connection.receive(
+      new TextEncoder().encode(
+        JSON.stringify([
+          { jsonrpc: "2.0", method: "ping", id: "a" },
+          { jsonrpc: "2.0", method: "ping", id: "b" },
+        ])
+      ).buffer
+    );
+    await connection.close();
+
+    expect(socket.sent[0].result.serverInfo.name).toBe("hyperion-mcp");
+    expect(socket.sent[1].error.code).toBe(-32700);
+    expect(socket.sent[2].map((m: any) => m.id).sort()).toEqual(["a", "b"]);
+  });
+
+  it("should refuse tool calls until the connection has initialized", async () => {
+    const socket = fakeSocket();
+    const connection = new WebSocketConnection(socket);
+    await connection.receive(
+      JSON.stringify({
+        jsonrpc: "2.0",
+        method: "tools/call",
+        params: { name: "list_tasks", arguments: {} },
+        id: "early",
+      })
+    );
+    await connection.close();
+
+    expect(socket.sent[0].error.code).toBe(-32002);
+  });
+
+  it("should not count finished calls as cancelled when the socket closes", async () => {
+    const socket = fakeSocket();
+    const connection = new WebSocketConnection(socket);
+    const trackCancellation = spyOn(metrics, "trackCancellation");
+    try {
+      await connection.receive(initialize);
+      for (const id of [1, 2, 3]) {
+        await connection.receive(
+          JSON.stringify({
+            jsonrpc: "2.0",
+            method: "tools/call",
+            params: { name: "ws_echo_tool", arguments: {} },
+            id,
+          })
+        );
+      }
+      expect(socket.sent.slice(1).map((m) => m.result.isError)).toEqual([
+        false,
+        false,
+        false,
+      ]);
+
+      await connection.close();
+      expect(trackCancellation).not.toHaveBeenCalled();
+    } finally {
+      trackCancellation.mockRestore();
+    }
+  });
+
+  it("should carry server-initiated requests and the client's answers", async () => {
+    const socket = fakeSocket();
+    const connection = new WebSocketConnection(socket);
+    const session = await connection.open();
+
+    const pending = clientRequests.request<{ roots: unknown[] }>(
+      session.id,
+      "roots/list",
+      {}
+    );
+    const request = socket.sent[0];
+    expect(request.method).toBe("roots/list");
+
+    await connection.receive(
+      JSON.stringify({ jsonrpc: "2.0", id: request.id, result: { roots: [] } })
+    );
+    expect(await pending).toEqual({ roots: [] });
+    await connection.close();
+  });
+
+  it("should reject oversized messages and close the connection", async () => {
+    const socket = fakeSocket();
+    const connection = new WebSocketConnection(socket, { maxMessageBytes: 64 });
+    const session = await connection.open();
+
+    await connection.receive(
+      JSON.stringify({ jsonrpc: "2.0", method: "ping", id: "x".repeat(100) })
+    );
+
+    expect(socket.sent).toHaveLength(1);
+    expect(socket.sent[0].error.code).toBe(-32600);
+    expect(socket.sent[0].error.message).toContain("exceeds the limit of 64");
+    expect(socket.closedWith).toBe(1009);
+    expect(await sessions.get(session.id)).toBeUndefined();
+  });
+
+  it("should end the session when the socket closes", async () => {
+    const socket = fakeSocket();
+    const connection = new WebSocketConnection(socket);
+    const session = await connection.open();
+    expect(session.transport).toBe("websocket");
+
+    await connection.close();
+    expect(await sessions.get(session.id)).toBeUndefined();
+    expect(connection.send({ jsonrpc: "2.0", method: "ping" })).toBe(false);
+  });
+});
+
+describe("WebSocket upgrade (Unit)", () => {
+  const enableAuth = config.auth.enableAuth;
+  let server: ReturnType<typeof serve>;
+  let url: string;
+
+  beforeAll(() => {
+    // Stands in for the `authentication` middleware
+    const authentication: MiddlewareHandler = async (c, next) => {
+      c.set("auth", {
+        isAuthenticated: c.req.header("Authorization") === "Bearer good",
+        clientId: "ws-client",
+      });
+      await next();
+    };
+    const app = new Hono();
+    app.use("*", authentication);
+    app.get("/ws", webSocketUpgrade);
+    server = serve({ port: 0, fetch: app.fetch, websocket });
+    url = `ws://localhost:${server.port}/ws`;
+  });
+
+  afterAll(() => {
+    config.auth.enableAuth = enableAuth;
+    server.stop(true);
+  });
+
+  const upgradeRequest = (headers: Record<string, string> = {}) =>
+    fetch(url.replace("ws:", "http:"), {
+      headers: {
+        Upgrade: "websocket",
+        Connection: "Upgrade",
+        "Sec-WebSocket-Key": "dGhlIHNhbXBsZSBub25jZQ==",
+        "Sec-WebSocket-Version": "13",
+        ...headers,
+      },
+    });
+
+  it("should speak JSON-RPC over an upgraded connection", async () => {
+    const socket = new WebSocket(url);
+    const reply = new Promise<any>((resolve, reject) => {
+      socket.onmessage = (event) => resolve(JSON.parse(event.data));
+      socket.onerror = () => reject(new Error("WebSocket error"));
+    });
+    await new Promise((resolve) => (socket.onopen = resolve));
+    socket.send(JSON.stringify({ jsonrpc: "2.0", method: "ping", id: 1 }));
+
+    expect(await reply).toEqual({ jsonrpc: "2.0", id: 1, result: {} });
+    socket.close();
+  });
+
+  it("should drop connections whose frames exceed the configured limit", async () => {
+    expect(websocket.maxPayloadLength).toBe(config.mcp.wsMaxMessageBytes);
+
+    const socket = new WebSocket(url);
+    const replies: unknown[] = [];
+    socket.onmessage = (event) => replies.push(event.data);
+    const closed = new Promise((resolve) => (socket.onclose = resolve));
+    await new Promise((resolve) => (socket.onopen = resolve));
+    socket.send("x".repeat(config.mcp.wsMaxMessageBytes + 1));
+
+    await closed;
+    expect(replies).toEqual([]);
+  });
+
+  it("should require an Upgrade header", async () => {
+    const res = await fetch(url.replace("ws:", "http:"));
+    expect(res.status).toBe(426);
+  });
+
+  it("should refuse the upgrade when credentials fail to authenticate", async () => {
+    config.auth.enableAuth = true;
+    try {
+      const res = await upgradeRequest({ Authorization: "Bearer bad" });
+      expect(res.status).toBe(401);
+      expect((await res.json()).error.code).toBe(-32000);
+    } finally {
+      config.auth.enableAuth = enableAuth;
+    }
+  });
+
+  it("should refuse anonymous upgrades unless explicitly allowed", async () => {
+    const { allowAnonymousWebSocket } = config.auth;
+    config.auth.enableAuth = true;
+    try {
+      config.auth.allowAnonymousWebSocket = false;
+      const refused = await upgradeRequest();
+      expect(refused.status).toBe(401);
+      expect((await refused.json()).error.message).toContain(
+        "credentials are required"
+      );
+
+      config.auth.allowAnonymousWebSocket = true;
+      const socket = new WebSocket(url);
+      await new Promise((resolve, reject) => {
+        socket.onopen = resolve;
+        socket.onerror = () => reject(new Error("WebSocket error"));
+      });
+      socket.close();
+      // Failed credentials are refused even then
+      expect(
+        (await upgradeRequest({ Authorization: "Bearer bad" })).status
+      ).toBe(401);
+    } finally {
+      config.auth.enableAuth = enableAuth;
+      config.auth.allowAnonymousWebSocket = allowAnonymousWebSocket;
+    }
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "bun:test";
+import { UriTemplate } from "../../src/mcp/uriTemplate";
+
+describe("UriTemplate", () => {
+  it("should extract simple variables", () => {
+    const template = new UriTemplate("tasks://{id}");
+    expect(template.variableNames).toEqual(["id"]);
+    expect(template.match("tasks://abc-123")).toEqual({ id: "abc-123" });
+  });
+
+  it("should not let simple variables span path segments", () => {
+    const template = new UriTemplate("users://{userId}/posts/{postId}");
+    expect(template.match("users://42/posts/7")).toEqual({
+      userId: "42",
+      postId: "7",
+    });
+    expect(template.match("users://42/x/posts/7")).toBeNull();
+  });
+
+  it("should let reserved expansion span path segments", () => {
+    const template = new UriTemplate("file:///{+path}");
+    expect(template.match("file:///docs/notes/today.md")).toEqual({
+      path: "docs/notes/today.md",
+    });
+  });
+
+  it("should percent-decode values", () => {
+    const template = new UriTemplate("search://{term}");
+    expect(template.match("search://hello%20world")).toEqual({
+      term: "hello world",
+    });
+    expect(template.match("search://%E0%A4%A")).toBeNull();
+  });
+
+  it("should match optional path and query expressions", () => {
+    const template = new UriTemplate("logs://app{/level}{?since,limit}");
+    expect(template.match("logs://app/error?limit=10&since=today")).toEqual({
+      level: "error",
+      since: "today",
+      limit: "10",
+    });
+    expect(template.match("logs://app")).toEqual({});
+  });
+
+  it("should not match other URIs", () => {
+    const template = new UriTemplate("tasks://{id}");
+    expect(template.match("notes://abc")).toBeNull();
+    expect(template.match("tasks://")).toBeNull();
+  });
+
+  it("should reject unsupported expressions", () => {
+    expect(() => new UriTemplate("list://{items*}")).toThrow(
+      "Unsupported URI template expression"
+    );
+  });
+});